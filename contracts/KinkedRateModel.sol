@@ -0,0 +1,84 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "./interfaces/IInterestRateModel.sol";
+
+/**
+ * @title KinkedRateModel
+ * @dev Interest rate model that sets the rate from the utilization of the pool.
+ * Below the kink the rate rises slowly from the base rate by up to slope1,
+ * above it the rate rises steeply by up to slope2 to push utilization back down.
+ *
+ * rate = baseRate + slope1 * utilization / kink                                (utilization <= kink)
+ * rate = baseRate + slope1 + slope2 * (utilization - kink) / (100% - kink)     (utilization > kink)
+ *
+ * Rates are yearly percentages and utilization a fraction, both scaled by 1e18.
+ */
+contract KinkedRateModel is IInterestRateModel {
+    uint256 public constant PRECISION = 1e18; // Scale of rates and utilization
+
+    uint256 public immutable baseRate; // Rate of an idle pool
+    uint256 public immutable slope1; // Rate increase from idle to the kink
+    uint256 public immutable slope2; // Rate increase from the kink to full utilization
+    uint256 public immutable kink; // Utilization at which slope2 starts
+
+    /**
+     * @dev Constructor to set the shape of the rate curve
+     * @param _baseRate Yearly rate of an idle pool in percent, scaled by 1e18
+     * @param _slope1 Rate increase up to the kink in percent, scaled by 1e18
+     * @param _slope2 Rate increase above the kink in percent, scaled by 1e18
+     * @param _kink Utilization at which slope2 starts, scaled by 1e18 (e.g. 0.8e18)
+     */
+    constructor(
+        uint256 _baseRate,
+        uint256 _slope1,
+        uint256 _slope2,
+        uint256 _kink
+    ) {
+        require(_kink > 0 && _kink < PRECISION, "Invalid kink");
+
+        baseRate = _baseRate;
+        slope1 = _slope1;
+        slope2 = _slope2;
+        kink = _kink;
+    }
+
+    /**
+     * @dev Function to get the share of the pool that is lent out
+     * @param _available Tokens available in the pool
+     * @param _borrowed Tokens currently lent out
+     * @return Utilization of the pool, scaled by 1e18
+     */
+    function utilizationRate(
+        uint256 _available,
+        uint256 _borrowed
+    ) public pure returns (uint256) {
+        if (_borrowed == 0) {
+            return 0;
+        }
+        return (_borrowed * PRECISION) / (_available + _borrowed);
+    }
+
+    /**
+     * @dev Function to get the yearly interest rate charged to borrowers
+     * @param _available Tokens available in the pool
+     * @param _borrowed Tokens currently lent out
+     * @return Yearly interest rate in percent, scaled by 1e18
+     */
+    function getBorrowRate(
+        uint256 _available,
+        uint256 _borrowed
+    ) external view returns (uint256) {
+        uint256 utilization = utilizationRate(_available, _borrowed);
+
+        if (utilization <= kink) {
+            return baseRate + (slope1 * utilization) / kink;
+        }
+        return
+            baseRate +
+            slope1 +
+            (slope2 * (utilization - kink)) /
+            (PRECISION - kink);
+    }
+}
@@ -3,162 +3,992 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
-import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/IERC20Permit.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/extensions/ERC4626Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/ReentrancyGuardUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/PausableUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/access/OwnableUpgradeable.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
+import "@openzeppelin/contracts/proxy/ERC1967/ERC1967Utils.sol";
+import "@openzeppelin/contracts/proxy/transparent/ProxyAdmin.sol";
+import "./interfaces/IInterestRateModel.sol";
+import "./libraries/ChangeQueue.sol";
+import "./libraries/LoanBook.sol";
 // If running on Hardhat, use the following import to output console logs during tests
 // import "hardhat/console.sol";
 
 /**
- * @dev The struct defines the details of a loan, including the loan amount, start time, borrower address, and loan status.
- */
-struct Loan {
-    uint256 amount;
-    uint256 startTime;
-    address borrower;
-    bool active;
-}
-
-/**
- * @title LendingPlatform
- * @dev The contract allows users to lend tokens to the contract and borrow tokens from the contract.
- * The contract charges an interest rate on loans and allows users to repay their loans.
+ * @title LendingPlatformBase
+ * @dev Logic shared by LendingPlatform and LendingPlatformWithCollateral, which add their initializers.
+ * The contract allows users to lend tokens to the contract and borrow tokens from the contract.
+ * The contract charges an interest rate on loans and allows users to repay their loans in full or in part.
+ * Interest compounds every second through a global borrow index, which grows at the rate in effect
+ * and is brought up to date before anything that changes the rate.
+ * Repayments pay the accrued interest first and then the principal. Borrowers can add to an active loan.
+ * Loans are open-ended, or fixed-term with a term picked from a menu set by the owner. Past the grace period
+ * after the due date, the penalty rate is charged on top of the interest.
+ * A borrower has one open-ended loan (loan 0) and can take fixed-term loans next to it, each with its own
+ * debt and due date. Their collateral, health and liquidation cover all of their loans together.
+ * The interest rate is set by a rate model from the utilization of the pool (the share of the tokens lent out).
+ * Lenders receive ERC-4626 vault shares for the tokens they lend. The interest paid on loans is
+ * added to the pool, so the shares are redeemable for the tokens lent plus their part of the interest.
+ * Withdrawals are limited to the tokens that are not currently lent out.
+ * Borrowers can let a delegate borrow against their collateral up to an allowance, and anyone can repay a loan for its borrower.
+ * The owner can pause lending and borrowing in an emergency, while repayments and withdrawals keep working.
+ * Parameter changes, such as a new rate model, are queued by the owner and can only be executed after TIMELOCK_DELAY,
+ * through the linked ChangeQueue library. The interest and repayments of the loans are kept by the linked LoanBook library.
+ * The available tokens can also be flash borrowed (ERC-3156) for a fee that is added to the pool.
+ * The contract runs behind a transparent proxy (ERC-1967) whose ProxyAdmin is owned by the platform itself,
+ * so upgrades to a new implementation are queued and executed through the timelock like any other change.
  * The contract is designed to work with the MyToken contract.
  */
-contract LendingPlatform is ReentrancyGuard {
+abstract contract LendingPlatformBase is
+    Initializable,
+    ERC4626Upgradeable,
+    ReentrancyGuardUpgradeable,
+    PausableUpgradeable,
+    OwnableUpgradeable,
+    IERC3156FlashLender
+{
+    using SafeERC20 for IERC20;
+
     // State variables
     IERC20 internal token;
-    uint256 internal tokenBalance;
-    uint256 internal interestRate;
-    mapping(address => Loan) internal loans;
+    uint256 internal tokenBalance; // tokens available to borrow or withdraw
+    uint256 internal totalBorrowed; // principal of the active loans
+    IInterestRateModel internal rateModel;
+    // Loans of each borrower by loan id, up to MAX_LOANS. Loan 0 is stored where earlier versions kept the only loan.
+    /// @custom:oz-retyped-from mapping(address => Loan)
+    mapping(address => Loan[MAX_LOANS]) internal loans;
+    mapping(bytes32 => uint256) public queuedChanges; // time from which a queued change can be executed
+    uint256 public flashLoanFee; // Fee charged on flash loans in basis points (e.g., 9 = 0.09%)
+    mapping(uint256 => bool) public loanTerms; // Terms in seconds that fixed-term loans can be taken for
+    uint256[] internal loanTermList; // Offered loan terms, in the order they were added
+    uint256 public gracePeriod; // Time after the due date before the penalty rate applies
+    uint256 public penaltyRate; // Extra yearly interest in percent charged on overdue principal
+    uint256 public defaultPeriod; // Time after the due date after which a loan is in default
+    uint256 public borrowIndex; // Growth of a debt since deployment, scaled by BORROW_INDEX_PRECISION
+    uint256 public lastAccrualTime; // Time the borrow index was last brought up to date
+    // Tokens a delegate can still borrow on behalf of a borrower (borrower => delegate => amount)
+    mapping(address => mapping(address => uint256)) public borrowAllowance;
+    uint256 internal totalScaledBorrowed; // sum of the scaled amounts of the active loans
+    // Reserved slots, so that later versions can add state here without moving the state of child contracts
+    uint256[38] private __gap;
 
     // Define events for loan initiation, repayment, and token deposits
+    // LoanInitiated is emitted by LoanBook for new loans and for additions to an active loan
     event LoanInitiated(
         address indexed borrower,
+        uint256 indexed loanId,
         uint256 amount,
         uint256 startTime
     );
-    event LoanRepaid(address indexed borrower, uint256 amount, uint256 endTime);
+    // Emitted by LoanBook for each loan a repayment pays, with the debt left on that loan
+    event LoanRepaid(
+        address indexed borrower,
+        uint256 indexed loanId,
+        uint256 amount,
+        uint256 interestPaid,
+        uint256 remainingDebt,
+        bool closed,
+        uint256 timestamp
+    );
+    // Emitted whenever a loan changes, with its principal, checkpointed interest and scaled amount, mostly by LoanBook
+    event LoanUpdated(
+        address indexed borrower,
+        uint256 indexed loanId,
+        uint256 principal,
+        uint256 interest,
+        uint256 scaledAmount,
+        uint256 timestamp
+    );
+    // Emitted when a delegate borrows or a payer repays on behalf of a borrower, after LoanInitiated or LoanRepaid
+    event DelegatedBorrow(
+        address indexed borrower,
+        address indexed delegate,
+        uint256 amount
+    );
+    event RepaidFor(
+        address indexed borrower,
+        address indexed payer,
+        uint256 amount
+    );
+    event BorrowAllowanceUpdated(
+        address indexed borrower,
+        address indexed delegate,
+        uint256 amount
+    );
     event TokensDeposited(address indexed lender, uint256 amount);
+    event TokensWithdrawn(address indexed lender, uint256 amount);
+    event FlashLoan(address indexed receiver, uint256 amount, uint256 fee);
+
+    // Define events for parameter changes and the timelock
+    event RateModelUpdated(
+        address indexed previousRateModel,
+        address indexed newRateModel
+    );
+    event FlashLoanFeeUpdated(uint256 fee);
+    event LoanTermUpdated(uint256 term, bool offered);
+    event LatePaymentTermsUpdated(
+        uint256 gracePeriod,
+        uint256 penaltyRate,
+        uint256 defaultPeriod
+    );
+    // Emitted by ChangeQueue
+    event ChangeQueued(bytes32 indexed id, bytes data, uint256 executableAt);
+    event ChangeExecuted(bytes32 indexed id, bytes data);
+    event ChangeCancelled(bytes32 indexed id);
+
+    uint256 public constant RATE_PRECISION = 1e18; // Scale of the interest rate
+    uint256 public constant TIMELOCK_DELAY = 2 days; // Delay between queuing and executing a parameter change
+    uint256 public constant FEE_PRECISION = 10000; // Scale of the flash loan fee (basis points)
+    uint256 public constant MAX_FLASH_LOAN_FEE = 100; // Upper bound of the flash loan fee in basis points (1%)
+    uint256 public constant MAX_LOAN_TERM = 365 days; // Upper bound of a loan term
+    uint256 public constant MAX_PENALTY_RATE = 100 * RATE_PRECISION; // Upper bound of the penalty rate (100% a year)
+    uint256 public constant BORROW_INDEX_PRECISION = 1e27; // Scale of the borrow index
+    bytes32 internal constant FLASH_LOAN_CALLBACK_SUCCESS =
+        keccak256("ERC3156FlashBorrower.onFlashLoan");
 
     /**
-     * @dev Constructor to set the token and interest rate for the contract
+     * @dev Restricts a setter to calls made by executeChange once the timelock expired
+     */
+    modifier onlyTimelock() {
+        require(msg.sender == address(this), "Only through the timelock");
+        _;
+    }
+
+    /**
+     * @dev Sets up the platform, called by the initializers of the child contracts
      * @param _token Type of token to be used
-     * @param _interestRate Interest rate to be charged on loans
+     * @param _rateModel Model setting the interest rate charged on loans
      */
-    constructor(IERC20 _token, uint256 _interestRate) {
+    function __LendingPlatformBase_init(
+        IERC20 _token,
+        IInterestRateModel _rateModel
+    ) internal onlyInitializing {
+        __ERC20_init("Lending Platform Share", "lpMTK");
+        __ERC4626_init(_token);
+        __ReentrancyGuard_init();
+        __Pausable_init();
+        __Ownable_init(msg.sender);
+
         token = _token;
-        interestRate = _interestRate;
+        rateModel = _rateModel;
+        flashLoanFee = 9;
+        gracePeriod = 7 days;
+        penaltyRate = 10 * RATE_PRECISION;
+        defaultPeriod = 30 days;
+        borrowIndex = BORROW_INDEX_PRECISION;
+        lastAccrualTime = block.timestamp;
+
+        // Offer 30, 90 and 180 day terms
+        loanTermList = [30 days, 90 days, 180 days];
+        for (uint256 i = 0; i < loanTermList.length; i++) {
+            loanTerms[loanTermList[i]] = true;
+        }
     }
 
     /**
      * @dev Function to allow users to lend tokens to the contract
+     * The lender receives pool shares for the tokens lent
      * @param _amount The amount of tokens to lend
+     * @return The amount of shares minted to the lender
      */
-    function lend(uint256 _amount) public nonReentrant {
-        // Transfer tokens from the lender to the contract
-        require(
-            token.transferFrom(msg.sender, address(this), _amount),
-            "Transfer failed"
-        );
+    function lend(uint256 _amount) public nonReentrant returns (uint256) {
+        uint256 shares = previewDeposit(_amount);
+        _deposit(msg.sender, msg.sender, _amount, shares);
+        return shares;
+    }
 
-        // Update the token balance of the contract and emit the TokensDeposited event
-        tokenBalance += _amount;
+    /**
+     * @dev Function to lend tokens approved by an EIP-2612 permit, in a single transaction
+     * Requires a token implementing permit, such as MyToken
+     * @param _amount The amount of tokens to lend, also the value of the permit
+     * @param _deadline The timestamp until which the permit is valid
+     * @param _v The recovery id of the permit signature
+     * @param _r The r value of the permit signature
+     * @param _s The s value of the permit signature
+     * @return The amount of shares minted to the lender
+     */
+    function lendWithPermit(
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external returns (uint256) {
+        usePermit(_amount, _deadline, _v, _r, _s);
+        return lend(_amount);
+    }
+
+    /**
+     * @dev See {IERC4626-deposit}
+     */
+    function deposit(
+        uint256 _assets,
+        address _receiver
+    ) public override nonReentrant returns (uint256) {
+        return super.deposit(_assets, _receiver);
+    }
+
+    /**
+     * @dev See {IERC4626-mint}
+     */
+    function mint(
+        uint256 _shares,
+        address _receiver
+    ) public override nonReentrant returns (uint256) {
+        return super.mint(_shares, _receiver);
+    }
+
+    /**
+     * @dev See {IERC4626-withdraw}
+     * Withdrawals are limited to the tokens that are not lent out
+     */
+    function withdraw(
+        uint256 _assets,
+        address _receiver,
+        address _owner
+    ) public override nonReentrant returns (uint256) {
+        return super.withdraw(_assets, _receiver, _owner);
+    }
+
+    /**
+     * @dev See {IERC4626-redeem}
+     * Redemptions are limited to the tokens that are not lent out
+     */
+    function redeem(
+        uint256 _shares,
+        address _receiver,
+        address _owner
+    ) public override nonReentrant returns (uint256) {
+        return super.redeem(_shares, _receiver, _owner);
+    }
+
+    /**
+     * @dev Total tokens owed to lenders: the available balance plus the debt of the active loans,
+     * including the interest accrued so far. Penalty interest is added once it is checkpointed.
+     */
+    function totalAssets() public view override returns (uint256) {
+        return
+            tokenBalance +
+            Math.mulDiv(
+                totalScaledBorrowed,
+                getBorrowIndex(),
+                SCALED_AMOUNT_PRECISION
+            );
+    }
+
+    /**
+     * @dev Maximum amount of tokens the receiver can lend, zero while the contract is paused
+     * @param _receiver Receiver of the shares
+     */
+    function maxDeposit(
+        address _receiver
+    ) public view override returns (uint256) {
+        return paused() ? 0 : super.maxDeposit(_receiver);
+    }
+
+    /**
+     * @dev Maximum amount of shares the receiver can mint, zero while the contract is paused
+     * @param _receiver Receiver of the shares
+     */
+    function maxMint(address _receiver) public view override returns (uint256) {
+        return paused() ? 0 : super.maxMint(_receiver);
+    }
+
+    /**
+     * @dev Maximum amount of tokens the owner can withdraw, limited by the available balance
+     * @param _owner Owner of the shares
+     */
+    function maxWithdraw(address _owner) public view override returns (uint256) {
+        uint256 assets = super.maxWithdraw(_owner);
+        return assets < tokenBalance ? assets : tokenBalance;
+    }
+
+    /**
+     * @dev Maximum amount of shares the owner can redeem, limited by the available balance
+     * @param _owner Owner of the shares
+     */
+    function maxRedeem(address _owner) public view override returns (uint256) {
+        uint256 shares = super.maxRedeem(_owner);
+        uint256 available = _convertToShares(tokenBalance, Math.Rounding.Floor);
+        return shares < available ? shares : available;
+    }
+
+    /**
+     * @dev Transfers the lent tokens in, mints shares and updates the token balance
+     * Lending is blocked while the contract is paused
+     */
+    function _deposit(
+        address _caller,
+        address _receiver,
+        uint256 _assets,
+        uint256 _shares
+    ) internal override whenNotPaused {
+        // Accrue at the rate before the deposit changes it
+        accrueBorrowIndex();
+        super._deposit(_caller, _receiver, _assets, _shares);
+
+        // Update the token balance of the contract
+        tokenBalance += _assets;
 
         // Emit the TokensDeposited event
-        emit TokensDeposited(msg.sender, _amount);
+        emit TokensDeposited(_receiver, _assets);
+    }
+
+    /**
+     * @dev Burns shares, updates the token balance and transfers the withdrawn tokens out
+     */
+    function _withdraw(
+        address _caller,
+        address _receiver,
+        address _owner,
+        uint256 _assets,
+        uint256 _shares
+    ) internal override {
+        // Accrue at the rate before the withdrawal changes it
+        accrueBorrowIndex();
+
+        // Update the token balance of the contract before the tokens leave
+        tokenBalance -= _assets;
+
+        super._withdraw(_caller, _receiver, _owner, _assets, _shares);
+
+        // Emit the TokensWithdrawn event
+        emit TokensWithdrawn(_owner, _assets);
     }
 
     /**
      * @dev Function to allow users to borrow tokens from the contract
+     * The amount is added to the open-ended loan 0 of the caller, which is opened if needed
      * @param _amount The amount of tokens to borrow
      */
     function borrow(uint256 _amount) public virtual nonReentrant {
-        borrowInternal(_amount);
+        borrowInternal(msg.sender, 0, _amount, 0);
     }
 
     /**
-     * @dev Internal function to allow users to borrow tokens from the contract
+     * @dev Function to add to an active loan of the caller, which keeps its due date
+     * @param _loanId The loan to add to
      * @param _amount The amount of tokens to borrow
-     * Will be called by the borrow function and can be overridden in child contracts
      */
-    function borrowInternal(uint256 _amount) internal {
-        // Check that the user does not have an active loan
-        require(loans[msg.sender].active == false, "Loan already active");
+    function increaseLoan(
+        uint256 _loanId,
+        uint256 _amount
+    ) external nonReentrant {
+        require(
+            _loanId < MAX_LOANS && loans[msg.sender][_loanId].active,
+            "No active loan"
+        );
+        borrowInternal(msg.sender, _loanId, _amount, 0);
+    }
+
+    /**
+     * @dev Function to let a delegate borrow on behalf of the caller, replacing any previous allowance
+     * The debt is recorded against the caller and secured by their collateral. An allowance of zero revokes it.
+     * Reverts for the zero address and for the caller, who borrows without an allowance.
+     * @param _delegate The address allowed to borrow
+     * @param _amount The amount of tokens the delegate can borrow in total
+     */
+    function approveDelegation(address _delegate, uint256 _amount) external {
+        require(
+            _delegate != address(0) && _delegate != msg.sender,
+            "Invalid delegate"
+        );
+        borrowAllowance[msg.sender][_delegate] = _amount;
+
+        // Emit the BorrowAllowanceUpdated event
+        emit BorrowAllowanceUpdated(msg.sender, _delegate, _amount);
+    }
+
+    /**
+     * @dev Function to borrow tokens on behalf of a borrower who approved the caller as a delegate
+     * The tokens are sent to the caller, while the debt is added to the open-ended loan 0 of the borrower.
+     * @param _borrower The borrower the debt is recorded against
+     * @param _amount The amount of tokens to borrow, deducted from the allowance
+     */
+    function borrowFor(
+        address _borrower,
+        uint256 _amount
+    ) external nonReentrant {
+        uint256 allowance = borrowAllowance[_borrower][msg.sender];
+        require(allowance >= _amount, "Borrow allowance exceeded");
+        borrowAllowance[_borrower][msg.sender] = allowance - _amount;
+
+        borrowInternal(_borrower, 0, _amount, 0);
+
+        // Emit the DelegatedBorrow event
+        emit DelegatedBorrow(_borrower, msg.sender, _amount);
+    }
+
+    /**
+     * @dev Function to take a fixed-term loan, due once the term has passed
+     * The loan is opened next to the other loans of the caller, under the first free loan id after 0.
+     * Past the grace period after the due date the penalty rate is charged on top of the interest,
+     * and past the default period the loan is in default.
+     * @param _amount The amount of tokens to borrow
+     * @param _term The loan term in seconds, one of the offered loanTerms
+     * @return The id of the new loan
+     */
+    function borrowWithTerm(
+        uint256 _amount,
+        uint256 _term
+    ) public virtual nonReentrant returns (uint256) {
+        require(loanTerms[_term], "Unsupported loan term");
+        uint256 loanId = LoanBook.freeLoanId(loans[msg.sender]);
+        borrowInternal(msg.sender, loanId, _amount, _term);
+        return loanId;
+    }
+
+    /**
+     * @dev Internal function to allow users to borrow tokens from the contract
+     * @param _borrower The borrower the debt is recorded against, the caller unless a delegate borrows
+     * @param _loanId The loan to add to, opened if it is not active
+     * @param _amount The amount of tokens to borrow, sent to the caller
+     * @param _term The term of a new loan in seconds, zero for an open-ended loan
+     * Will be called by the borrow functions and can be overridden in child contracts
+     * Borrowing is blocked while the contract is paused
+     */
+    function borrowInternal(
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount,
+        uint256 _term
+    ) internal virtual whenNotPaused {
+        // Require that the user borrows a non-zero amount of tokens
+        require(_amount > 0, "Must borrow a positive amount");
 
         // Check that the contract has enough tokens to lend
         require(tokenBalance >= _amount, "Insufficient funds");
 
-        // Transfer the borrowed tokens to the borrower
-        require(token.transfer(msg.sender, _amount), "Transfer failed");
+        // Overdue loans must be repaid before borrowing more
+        require(loanState(_borrower) <= LoanState.Current, "Loan overdue");
 
-        // Initialize the loan details
-        loans[msg.sender] = Loan(_amount, block.timestamp, msg.sender, true);
+        // Transfer the borrowed tokens to the caller
+        token.safeTransfer(msg.sender, _amount);
 
-        // Update the token balance of the contract
-        tokenBalance -= _amount;
+        // Checkpoint the interest on the current debt before adding to it
+        accrueInterest(_borrower);
+        uint256 scaledAmount = LoanBook.borrow(
+            loans[_borrower],
+            _borrower,
+            _loanId,
+            _amount,
+            _term == 0 ? 0 : block.timestamp + _term,
+            borrowIndex
+        );
 
-        // Emit the LoanInitiated event
-        emit LoanInitiated(msg.sender, _amount, block.timestamp);
+        // Update the token balance and borrowed principal of the contract
+        tokenBalance -= _amount;
+        totalBorrowed += _amount;
+        totalScaledBorrowed += scaledAmount;
     }
 
     /**
      * @dev Function to allow users to repay their loans
-     * Users can repay the loan amount along with the interest accrued
+     * Users repay the amount of all their loans along with the interest accrued
      * Will be called by the replay function and can be overridden in child contracts
      */
     function repay() public virtual nonReentrant {
-        repayInternal();
+        repayInternal(msg.sender, ALL_LOANS, type(uint256).max);
     }
 
     /**
-     * @dev Internal function to allow users to repay their loans
-     * Users can repay the loan amount along with the interest accrued
+     * @dev Function to repay all the loans of a borrower with the caller's tokens
+     * Any collateral released by the repayment goes to the borrower
+     * @param _borrower The borrower whose loans are repaid
+     */
+    function repayFor(address _borrower) external nonReentrant {
+        repayInternal(_borrower, ALL_LOANS, type(uint256).max);
+    }
+
+    /**
+     * @dev Function to allow users to repay part of their loans
+     * The loans are paid in loan id order, each its accrued interest first and then its principal
+     * @param _amount The amount of tokens to repay, capped at the amount owed
+     */
+    function repayPartial(uint256 _amount) public virtual nonReentrant {
+        repayInternal(msg.sender, ALL_LOANS, _amount);
+    }
+
+    /**
+     * @dev Function to repay one loan of the caller, in full or in part
+     * The accrued interest is paid first, then the principal
+     * @param _loanId The loan to repay
+     * @param _amount The amount of tokens to repay, capped at the amount owed on the loan
      */
-    function repayInternal() internal {
-        // Get the loan details of the borrower
-        Loan storage loan = loans[msg.sender];
-        // console.log("Loan: %s", loan.amount);
+    function repayLoan(
+        uint256 _loanId,
+        uint256 _amount
+    ) external nonReentrant {
+        repayInternal(msg.sender, _loanId, _amount);
+    }
 
+    /**
+     * @dev Function to repay a loan with tokens approved by an EIP-2612 permit, in a single transaction
+     * Repays like repayPartial, so a value above the amount owed repays the whole loan
+     * and the rest of the allowance is left unused
+     * @param _amount The amount of tokens to repay, also the value of the permit
+     * @param _deadline The timestamp until which the permit is valid
+     * @param _v The recovery id of the permit signature
+     * @param _r The r value of the permit signature
+     * @param _s The s value of the permit signature
+     */
+    function repayWithPermit(
+        uint256 _amount,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) external {
+        usePermit(_amount, _deadline, _v, _r, _s);
+        repayPartial(_amount);
+    }
+
+    /**
+     * @dev Internal function to approve the platform with a permit signed by the caller
+     * A permit that fails is ignored, as anyone can submit it to the token first and use up its nonce.
+     * The transfer that follows then reverts unless the allowance is in place.
+     * @param _value The amount of tokens to approve
+     * @param _deadline The timestamp until which the permit is valid
+     * @param _v The recovery id of the permit signature
+     * @param _r The r value of the permit signature
+     * @param _s The s value of the permit signature
+     */
+    function usePermit(
+        uint256 _value,
+        uint256 _deadline,
+        uint8 _v,
+        bytes32 _r,
+        bytes32 _s
+    ) internal {
+        try
+            IERC20Permit(address(token)).permit(
+                msg.sender,
+                address(this),
+                _value,
+                _deadline,
+                _v,
+                _r,
+                _s
+            )
+        {} catch {}
+    }
+
+    /**
+     * @dev Internal function to allow users to repay their loans
+     * Will be called by the repay functions and can be overridden in child contracts
+     * @param _borrower The borrower whose loans are repaid, the caller unless repaying for someone else
+     * @param _loanId The loan to repay, or ALL_LOANS to repay the loans in loan id order
+     * @param _amount The amount of tokens to repay, capped at the amount owed, paid by the caller
+     * @return The debt left on all the loans of the borrower after the repayment
+     */
+    function repayInternal(
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount
+    ) internal virtual returns (uint256) {
         // Check that the user has an active loan
-        require(loan.active == true, "No active loan");
+        require(
+            _loanId == ALL_LOANS
+                ? loanState(_borrower) != LoanState.None
+                : _loanId < MAX_LOANS && loans[_borrower][_loanId].active,
+            "No active loan"
+        );
 
-        // Calculate the interest accrued on the loan
-        uint256 interest = calculateInterest(
-            loan.amount,
-            block.timestamp - loan.startTime
+        // Require that the user repays a non-zero amount of tokens
+        require(_amount > 0, "Must repay a positive amount");
+
+        // Calculate the amount owed, including the interest accrued on the loans
+        uint256 debt = accrueInterest(_borrower);
+        uint256 owed = debt;
+        if (_loanId != ALL_LOANS) {
+            Loan storage loan = loans[_borrower][_loanId];
+            owed = loan.amount + loan.interest;
+        }
+        uint256 repayAmount = _amount < owed ? _amount : owed;
+
+        // Transfer the repaid amount from the caller to the contract
+        token.safeTransferFrom(msg.sender, address(this), repayAmount);
+
+        // Pay the interest, then the principal, and emit LoanRepaid for each loan paid
+        // The interest stays in the pool and raises the value of the lenders' shares
+        reduceDebt(_borrower, _loanId, repayAmount, true);
+
+        // Emit the RepaidFor event
+        if (_borrower != msg.sender) {
+            emit RepaidFor(_borrower, msg.sender, repayAmount);
+        }
+        return debt - repayAmount;
+    }
+
+    /**
+     * @dev Internal function to apply a payment to the loans of a borrower whose interest has been accrued
+     * The loans are paid in loan id order, each its interest first and then its principal,
+     * and deleted once nothing is owed on them.
+     * @param _borrower Address of the borrower
+     * @param _loanId The loan to pay, or ALL_LOANS to pay all of them
+     * @param _amount The amount of tokens paid, at most the amount owed
+     * @param _repayment Whether to emit LoanRepaid for each loan paid
+     * @return interestPaid The part of the amount that paid interest
+     */
+    function reduceDebt(
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount,
+        bool _repayment
+    ) internal returns (uint256 interestPaid) {
+        uint256 scaledPaid;
+        (interestPaid, scaledPaid) = LoanBook.pay(
+            loans[_borrower],
+            _borrower,
+            _loanId,
+            _amount,
+            borrowIndex,
+            _repayment
         );
-        // console.log("Interest: %s", interest);
 
-        // Calculate the total amount to be repaid
-        uint256 total = loan.amount + interest;
-        // console.log("Loan + interest: %s", total);
+        // Update the token balance and the borrowed principal of the contract
+        tokenBalance += _amount;
+        totalBorrowed -= _amount - interestPaid;
+        totalScaledBorrowed -= scaledPaid;
+    }
 
-        // Transfer the total amount to be repaid from the borrower to the contract
-        require(
-            token.transferFrom(msg.sender, address(this), total),
-            "Transfer failed"
+    /**
+     * @dev Internal function to delete the loans of a borrower and remove what is left of their debt from the totals
+     * @param _borrower Address of the borrower
+     */
+    function deleteLoans(address _borrower) internal {
+        (uint256 principal, uint256 scaledAmount) = LoanBook.remove(
+            loans[_borrower],
+            _borrower
         );
+        totalBorrowed -= principal;
+        totalScaledBorrowed -= scaledAmount;
+    }
 
-        // Update the token balance of the contract and mark the loan as inactive
-        tokenBalance += total;
-        loan.active = false;
+    /**
+     * @dev Maximum amount of tokens available for a flash loan, zero for other tokens or while paused
+     * @param _token The token to flash borrow
+     */
+    function maxFlashLoan(
+        address _token
+    ) public view override returns (uint256) {
+        if (_token != address(token) || paused()) {
+            return 0;
+        }
+        return tokenBalance;
+    }
 
-        // Delete the loan and emit the LoanRepaid event
-        delete loans[msg.sender];
-        emit LoanRepaid(msg.sender, loan.amount, block.timestamp);
+    /**
+     * @dev Fee charged for a flash loan of the given amount
+     * @param _token The token to flash borrow, must be the lending token
+     * @param _amount The amount of tokens to flash borrow
+     */
+    function flashFee(
+        address _token,
+        uint256 _amount
+    ) public view override returns (uint256) {
+        require(_token == address(token), "Unsupported flash loan token");
+        return (_amount * flashLoanFee) / FEE_PRECISION;
     }
 
     /**
-     * @dev Function to calculate the interest accrued on a loan
-     * The interest is calculated based on the loan amount and duration
-     *
-     * @param _amount Original loan amount
-     * @param _duration Time duration of the loan (in days)
+     * @dev Function to lend tokens to a receiver for the duration of one transaction (ERC-3156)
+     * The receiver must approve the amount plus the fee before its callback returns.
+     * The fee is added to the pool, so it is shared by the lenders.
+     * Borrowing and repaying are blocked during the callback by the reentrancy guard.
+     * @param _receiver The contract receiving the tokens and the callback
+     * @param _token The token to flash borrow, must be the lending token
+     * @param _amount The amount of tokens to flash borrow
+     * @param _data Arbitrary data passed on to the receiver
      */
-    function calculateInterest(
+    function flashLoan(
+        IERC3156FlashBorrower _receiver,
+        address _token,
         uint256 _amount,
-        uint256 _duration
-    ) internal view returns (uint256) {
-        return (_amount * interestRate * _duration) / (365 days * 100);
+        bytes calldata _data
+    ) external override nonReentrant whenNotPaused returns (bool) {
+        uint256 fee = flashFee(_token, _amount);
+        require(_amount <= tokenBalance, "Insufficient funds");
+
+        // Send the tokens and let the receiver use them
+        token.safeTransfer(address(_receiver), _amount);
+        require(
+            _receiver.onFlashLoan(msg.sender, _token, _amount, fee, _data) ==
+                FLASH_LOAN_CALLBACK_SUCCESS,
+            "Flash loan callback failed"
+        );
+
+        // Collect the tokens plus the fee, which is credited to the pool
+        token.safeTransferFrom(
+            address(_receiver),
+            address(this),
+            _amount + fee
+        );
+        // Accrue at the rate before the fee changes it
+        accrueBorrowIndex();
+        tokenBalance += fee;
+
+        // Emit the FlashLoan event
+        emit FlashLoan(address(_receiver), _amount, fee);
+        return true;
+    }
+
+    /**
+     * @dev Function to pause lending and borrowing, only callable by the owner
+     * Repayments, withdrawals and liquidations keep working while paused
+     */
+    function pause() external onlyOwner {
+        _pause();
+    }
+
+    /**
+     * @dev Function to resume lending and borrowing, only callable by the owner
+     */
+    function unpause() external onlyOwner {
+        _unpause();
+    }
+
+    /**
+     * @dev Function to queue a parameter change, only callable by the owner
+     * The change can be executed once TIMELOCK_DELAY has passed
+     * @param _data Call to one of the timelocked setters (e.g. setRateModel)
+     * @return Id of the change, the hash of the call
+     */
+    function queueChange(
+        bytes calldata _data
+    ) external onlyOwner returns (bytes32) {
+        require(
+            _data.length >= 4 && isTimelockedSetter(bytes4(_data[:4])),
+            "Unknown change"
+        );
+        return ChangeQueue.queue(queuedChanges, _data, TIMELOCK_DELAY);
+    }
+
+    /**
+     * @dev Function to execute a queued parameter change, only callable by the owner
+     * @param _data The call queued with queueChange
+     */
+    function executeChange(bytes calldata _data) external onlyOwner {
+        ChangeQueue.execute(queuedChanges, _data);
+    }
+
+    /**
+     * @dev Function to cancel a queued parameter change, only callable by the owner
+     * @param _id Id of the change returned by queueChange
+     */
+    function cancelChange(bytes32 _id) external onlyOwner {
+        ChangeQueue.cancel(queuedChanges, _id);
+    }
+
+    /**
+     * @dev Function to replace the interest rate model, only callable through the timelock
+     * @param _rateModel Model setting the interest rate charged on loans
+     */
+    function setRateModel(IInterestRateModel _rateModel) external onlyTimelock {
+        require(address(_rateModel) != address(0), "Invalid rate model");
+        // Accrue at the rate of the previous model until now
+        accrueBorrowIndex();
+        emit RateModelUpdated(address(rateModel), address(_rateModel));
+        rateModel = _rateModel;
+    }
+
+    /**
+     * @dev Function to change the flash loan fee, only callable through the timelock
+     * @param _fee Fee charged on flash loans in basis points
+     */
+    function setFlashLoanFee(uint256 _fee) external onlyTimelock {
+        require(_fee <= MAX_FLASH_LOAN_FEE, "Flash loan fee too high");
+        flashLoanFee = _fee;
+        emit FlashLoanFeeUpdated(_fee);
+    }
+
+    /**
+     * @dev Function to offer or withdraw a loan term, only callable through the timelock
+     * Loans already taken for a withdrawn term keep their due date
+     * @param _term The loan term in seconds
+     * @param _offered Whether borrowers can pick the term
+     */
+    function setLoanTerm(uint256 _term, bool _offered) external onlyTimelock {
+        require(_term > 0 && _term <= MAX_LOAN_TERM, "Invalid loan term");
+        if (_offered && !loanTerms[_term]) {
+            loanTermList.push(_term);
+        } else if (!_offered && loanTerms[_term]) {
+            for (uint256 i = 0; i < loanTermList.length; i++) {
+                if (loanTermList[i] == _term) {
+                    loanTermList[i] = loanTermList[loanTermList.length - 1];
+                    loanTermList.pop();
+                    break;
+                }
+            }
+        }
+        loanTerms[_term] = _offered;
+        emit LoanTermUpdated(_term, _offered);
+    }
+
+    /**
+     * @dev Function to change what happens to overdue loans, only callable through the timelock
+     * The new values apply to the loans already taken
+     * @param _gracePeriod Time after the due date before the penalty rate applies
+     * @param _penaltyRate Extra yearly interest in percent on overdue principal, scaled by RATE_PRECISION
+     * @param _defaultPeriod Time after the due date after which a loan is in default
+     */
+    function setLatePaymentTerms(
+        uint256 _gracePeriod,
+        uint256 _penaltyRate,
+        uint256 _defaultPeriod
+    ) external onlyTimelock {
+        require(
+            _gracePeriod <= _defaultPeriod,
+            "Grace period longer than default period"
+        );
+        require(_penaltyRate <= MAX_PENALTY_RATE, "Penalty rate too high");
+        gracePeriod = _gracePeriod;
+        penaltyRate = _penaltyRate;
+        defaultPeriod = _defaultPeriod;
+        emit LatePaymentTermsUpdated(
+            _gracePeriod,
+            _penaltyRate,
+            _defaultPeriod
+        );
+    }
+
+    /**
+     * @dev Function to move the proxy to a new implementation, only callable through the timelock
+     * The platform owns the ProxyAdmin of its proxy, which only accepts upgrades from its owner
+     * @param _implementation The new implementation, checked for storage layout compatibility off-chain
+     */
+    function upgradeImplementation(
+        address _implementation
+    ) external onlyTimelock {
+        ProxyAdmin(ERC1967Utils.getAdmin()).upgradeAndCall(
+            ITransparentUpgradeableProxy(address(this)),
+            _implementation,
+            ""
+        );
+    }
+
+    /**
+     * @dev Check if a function selector belongs to a setter that can be queued
+     * Child contracts with more timelocked setters extend this list
+     * @param _selector Selector of the queued call
+     */
+    function isTimelockedSetter(
+        bytes4 _selector
+    ) internal view virtual returns (bool) {
+        return
+            _selector == this.setRateModel.selector ||
+            _selector == this.setFlashLoanFee.selector ||
+            _selector == this.setLoanTerm.selector ||
+            _selector == this.setLatePaymentTerms.selector ||
+            _selector == this.upgradeImplementation.selector;
+    }
+
+    /**
+     * @dev Function to get the borrow index at the current time
+     * The index compounds every second at the interest rate the rate model sets now,
+     * which has not changed since the last accrual
+     */
+    function getBorrowIndex() public view returns (uint256) {
+        uint256 duration = block.timestamp - lastAccrualTime;
+        if (duration == 0) {
+            return borrowIndex;
+        }
+
+        // Multiply the index by (1 + rate per second) ^ duration, by exponentiation by squaring
+        uint256 base = BORROW_INDEX_PRECISION +
+            (getInterestRate() * (BORROW_INDEX_PRECISION / RATE_PRECISION)) /
+            (365 days * 100);
+        uint256 index = borrowIndex;
+        while (true) {
+            if (duration % 2 == 1) {
+                index = (index * base) / BORROW_INDEX_PRECISION;
+            }
+            duration /= 2;
+            if (duration == 0) {
+                return index;
+            }
+            base = (base * base) / BORROW_INDEX_PRECISION;
+        }
+    }
+
+    /**
+     * @dev Internal function to bring the borrow index up to date
+     * Must be called before anything that changes the interest rate, so the index
+     * grows at each rate for as long as it was in effect
+     */
+    function accrueBorrowIndex() internal {
+        if (lastAccrualTime == block.timestamp) {
+            return;
+        }
+        borrowIndex = getBorrowIndex();
+        lastAccrualTime = block.timestamp;
+    }
+
+    /**
+     * @dev Internal function to get the amount owed on all the loans of a borrower,
+     * their amounts plus the interest and penalty accrued so far
+     * @param _borrower Address of the borrower
+     */
+    function amountOwed(address _borrower) internal view returns (uint256) {
+        return
+            LoanBook.amountOwed(
+                loans[_borrower],
+                getBorrowIndex(),
+                gracePeriod,
+                penaltyRate
+            );
+    }
+
+    /**
+     * @dev Function to get the repayment state of the loans of a borrower, the state of the most overdue loan
+     * @param _borrower Address of the borrower
+     */
+    function loanState(address _borrower) public view returns (LoanState) {
+        return LoanBook.state(loans[_borrower], defaultPeriod);
+    }
+
+    /**
+     * @dev Internal function to checkpoint the interest accrued on the loans of a borrower
+     * The penalty accrued so far is added to the debt and the loans restart at the current time,
+     * so the penalty is not charged twice
+     * @param _borrower Address of the borrower
+     * @return The amount owed on the loans
+     */
+    function accrueInterest(address _borrower) internal returns (uint256) {
+        accrueBorrowIndex();
+        (uint256 debt, uint256 scaledPenalty) = LoanBook.accrue(
+            loans[_borrower],
+            _borrower,
+            borrowIndex,
+            gracePeriod,
+            penaltyRate
+        );
+        totalScaledBorrowed += scaledPenalty;
+        return debt;
+    }
+
+    /**
+     * @dev Function to get a loan of a borrower, with active set to false if there is none
+     * The interest is the interest checkpointed at the start time, see getAmountOwed for the current debt
+     * @param _borrower Address of the borrower
+     * @param _loanId The loan id, 0 for the open-ended loan
+     */
+    function getLoan(
+        address _borrower,
+        uint256 _loanId
+    ) external view returns (Loan memory) {
+        return loans[_borrower][_loanId];
+    }
+
+    /**
+     * @dev Function to get the amount a borrower owes now on all their loans, the principal plus the interest and penalty accrued so far
+     * @param _borrower Address of the borrower
+     */
+    function getAmountOwed(address _borrower) external view returns (uint256) {
+        return amountOwed(_borrower);
     }
 
     /**
@@ -169,9 +999,75 @@ contract LendingPlatform is ReentrancyGuard {
     }
 
     /**
-     * @dev Function to get the interest rate of the contract
+     * @dev Function to get the principal currently lent out
+     */
+    function getTotalBorrowed() public view returns (uint256) {
+        return totalBorrowed;
+    }
+
+    /**
+     * @dev Function to get the amount of tokens the shares of a lender are worth
+     * Part of it may be lent out, see maxWithdraw for the amount that can be withdrawn now
+     * @param _lender Address of the lender
+     */
+    function getLenderBalance(address _lender) public view returns (uint256) {
+        return convertToAssets(balanceOf(_lender));
+    }
+
+    /**
+     * @dev Function to get the share of the pool that is lent out
+     * @return Utilization of the pool, scaled by 1e18
+     */
+    function getUtilization() public view returns (uint256) {
+        if (totalBorrowed == 0) {
+            return 0;
+        }
+        return (totalBorrowed * 1e18) / (tokenBalance + totalBorrowed);
+    }
+
+    /**
+     * @dev Function to get the current interest rate of the contract
+     * @return Yearly interest rate in percent, scaled by RATE_PRECISION
      */
     function getInterestRate() public view returns (uint256) {
-        return interestRate;
+        return rateModel.getBorrowRate(tokenBalance, totalBorrowed);
+    }
+
+    /**
+     * @dev Function to get the offered loan terms in seconds
+     */
+    function getLoanTerms() external view returns (uint256[] memory) {
+        return loanTermList;
+    }
+
+    /**
+     * @dev Function to get the model setting the interest rate
+     */
+    function getRateModel() public view returns (IInterestRateModel) {
+        return rateModel;
+    }
+}
+
+/**
+ * @title LendingPlatform
+ * @dev Lending platform without collateral, see LendingPlatformBase
+ */
+contract LendingPlatform is LendingPlatformBase {
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        // The implementation is only used through proxies
+        _disableInitializers();
+    }
+
+    /**
+     * @dev Initializer to set the token and interest rate model for the contract, called once through the proxy
+     * @param _token Type of token to be used
+     * @param _rateModel Model setting the interest rate charged on loans
+     */
+    function initialize(
+        IERC20 _token,
+        IInterestRateModel _rateModel
+    ) public initializer {
+        __LendingPlatformBase_init(_token, _rateModel);
     }
 }
@@ -3,36 +3,127 @@
 pragma solidity ^0.8.20;
 
 import "./LendingPlatform.sol";
+import "./interfaces/IPriceOracle.sol";
 // If running on Hardhat, use the following import to output console logs during tests
 import "hardhat/console.sol";
 
 /**
  * @title LendingPlatformWithCollateral
- * @dev The contract extends the LendingPlatform contract to include collateralized loans.
+ * @dev The contract extends LendingPlatformBase to include collateralized loans.
  * Users can deposit Ether as collateral to borrow tokens from the contract.
  * The contract allows users to withdraw their collateral and repay their loans.
  * The contract also includes a liquidation mechanism to liquidate collateral if the value falls below a certain threshold.
+ * Fixed-term loans in default can be liquidated whatever their collateral is worth, up to the whole debt.
+ * The value of the collateral is read from a price oracle, whose price must not be older than maxPriceAge.
+ * The owner can change the collateralization and liquidation ratios through the timelock.
+ * ERC-20 tokens listed by the owner can be deposited as collateral too, each with its own ratios and price oracle.
+ * The borrowing capacity of a user is computed across all of their collateral.
  * The contract is designed to work with the MyToken contract.
  */
-contract LendingPlatformWithCollateral is LendingPlatform {
-    uint256 public collateralizationRatio = 150; // Collateralization ratio in percentage (e.g., 150%)
-    uint256 public liquidationRatio = 110; // Liquidation ratio in percentage (e.g., 110%)
+contract LendingPlatformWithCollateral is LendingPlatformBase {
+    using SafeERC20 for IERC20;
+
+    uint256 public collateralizationRatio; // Collateralization ratio in percentage (e.g., 150%)
+    uint256 public liquidationRatio; // Liquidation ratio in percentage (e.g., 110%)
+    uint256 public closeFactor; // Share of the debt a liquidator can repay at once in percentage (e.g., 50%)
+    uint256 public liquidationBonus; // Extra collateral paid to liquidators in percentage (e.g., 5%)
+    uint256 public constant PRICE_PRECISION = 1e18; // Scale of the oracle price
+    uint256 public constant MAX_COLLATERALIZATION_RATIO = 1000; // Upper bound of the collateralization ratio in percentage
+    uint256 public constant HEALTH_FACTOR_PRECISION = 1e18; // Scale of the health factor
+
+    IPriceOracle public priceOracle; // Oracle reporting the amount of tokens per Ether
+    uint256 public maxPriceAge; // Maximum age of the oracle price in seconds
 
     mapping(address => uint256) public collateralEther; // mapping to store the Ether collateral deposited by users
 
+    // Risk parameters of an ERC-20 token accepted as collateral
+    struct CollateralAsset {
+        bool listed;
+        uint256 collateralizationRatio; // Collateralization ratio in percentage
+        uint256 liquidationRatio; // Liquidation ratio in percentage
+        IPriceOracle priceOracle; // Oracle reporting the amount of lending tokens per collateral token
+    }
+
+    mapping(address => CollateralAsset) public collateralAssets; // mapping to store the parameters of the listed collateral tokens
+    address[] internal collateralAssetList; // Listed collateral tokens, in listing order
+    mapping(address => mapping(address => uint256)) public collateralTokens; // mapping to store the ERC-20 collateral deposited by users, per token
+
     // Define events for collateral deposits and withdrawals
     event CollateralDeposited(address indexed user, uint256 amount);
     event CollateralWithdrawn(address indexed user, uint256 amount);
+    event CollateralTokenDeposited(
+        address indexed user,
+        address indexed asset,
+        uint256 amount
+    );
+    event CollateralTokenWithdrawn(
+        address indexed user,
+        address indexed asset,
+        uint256 amount
+    );
+    event Liquidated(
+        address indexed borrower,
+        address indexed liquidator,
+        address indexed collateralAsset,
+        uint256 repaidAmount,
+        uint256 collateralSeized,
+        uint256 badDebt,
+        uint256 remainingDebt
+    );
+    event RatiosUpdated(
+        uint256 collateralizationRatio,
+        uint256 liquidationRatio
+    );
+    event CollateralAssetUpdated(
+        address indexed asset,
+        uint256 collateralizationRatio,
+        uint256 liquidationRatio,
+        address priceOracle
+    );
+
+    /// @custom:oz-upgrades-unsafe-allow constructor
+    constructor() {
+        // The implementation is only used through proxies
+        _disableInitializers();
+    }
 
     /**
-     * @dev Constructor to set the token and interest rate for the contract
+     * @dev Initializer to set the token, interest rate model and price oracle for the contract,
+     * called once through the proxy
      * @param _token Type of token to be used
-     * @param _interestRate Interest rate to be charged on loans
+     * @param _rateModel Model setting the interest rate charged on loans
+     * @param _priceOracle Oracle reporting the amount of tokens per Ether
+     * @param _maxPriceAge Maximum age of the oracle price in seconds
+     * @param _closeFactor Share of the debt a liquidator can repay at once in percentage
+     * @param _liquidationBonus Extra collateral paid to liquidators in percentage
      */
-    constructor(
+    function initialize(
         IERC20 _token,
-        uint256 _interestRate
-    ) LendingPlatform(_token, _interestRate) {}
+        IInterestRateModel _rateModel,
+        IPriceOracle _priceOracle,
+        uint256 _maxPriceAge,
+        uint256 _closeFactor,
+        uint256 _liquidationBonus
+    ) public initializer {
+        __LendingPlatformBase_init(_token, _rateModel);
+        collateralizationRatio = 150;
+        liquidationRatio = 110;
+
+        require(
+            _closeFactor > 0 && _closeFactor <= 100,
+            "Invalid close factor"
+        );
+        // Liquidations must leave the remaining debt better collateralized
+        require(
+            100 + _liquidationBonus < liquidationRatio,
+            "Invalid liquidation bonus"
+        );
+
+        priceOracle = _priceOracle;
+        maxPriceAge = _maxPriceAge;
+        closeFactor = _closeFactor;
+        liquidationBonus = _liquidationBonus;
+    }
 
     /**
      * @dev Function to deposit Ether as collateral
@@ -53,14 +144,8 @@ contract LendingPlatformWithCollateral is LendingPlatform {
      * @param _amount The amount of collateral to withdraw
      */
     function withdrawCollateral(uint256 _amount) public nonReentrant {
-        // Require that the user withdraws a non-zero amount of collateral
-        require(_amount > 0, "Must withdraw a positive amount");
-
-        // Require that the user has enough collateral to withdraw
-        require(
-            collateralEther[msg.sender] >= _amount,
-            "Not enough collateral"
-        );
+        // Require that the user withdraws a non-zero amount of collateral they have
+        validateWithdrawal(address(0), _amount);
 
         // Check if the user can withdraw the given collateral amount
         require(
@@ -69,44 +154,280 @@ contract LendingPlatformWithCollateral is LendingPlatform {
         );
 
         // Update the user's collateral balance and transfer the Ether
-        collateralEther[msg.sender] -= _amount;
+        removeCollateral(msg.sender, address(0), _amount);
 
         // Transfer the Ether to the user
-        payable(msg.sender).transfer(_amount);
+        transferCollateral(msg.sender, address(0), _amount);
 
         // Emit an event to log the collateral withdrawal
         emit CollateralWithdrawn(msg.sender, _amount);
     }
 
     /**
-     * Function to borrow tokens from the contract
+     * @dev Function to deposit a listed ERC-20 token as collateral
+     * @param _asset The collateral token
+     * @param _amount The amount of collateral tokens to deposit
+     */
+    function depositCollateralToken(
+        address _asset,
+        uint256 _amount
+    ) external nonReentrant {
+        validateCollateralAsset(_asset);
+        require(_amount > 0, "Must deposit a positive amount");
+
+        // Update the user's collateral balance and transfer the tokens in
+        collateralTokens[msg.sender][_asset] += _amount;
+        IERC20(_asset).safeTransferFrom(msg.sender, address(this), _amount);
+
+        // Emit an event to log the collateral deposit
+        emit CollateralTokenDeposited(msg.sender, _asset, _amount);
+    }
+
+    /**
+     * @dev Function to withdraw deposited ERC-20 collateral
+     * @param _asset The collateral token
+     * @param _amount The amount of collateral tokens to withdraw
+     */
+    function withdrawCollateralToken(
+        address _asset,
+        uint256 _amount
+    ) external nonReentrant {
+        validateWithdrawal(_asset, _amount);
+
+        // Update the balance first, so the check values the collateral left
+        removeCollateral(msg.sender, _asset, _amount);
+
+        require(
+            securesLoan(msg.sender, collateralEther[msg.sender]),
+            "Collateral locked due to borrowed tokens"
+        );
+
+        // Transfer the tokens to the user
+        transferCollateral(msg.sender, _asset, _amount);
+
+        // Emit an event to log the collateral withdrawal
+        emit CollateralTokenWithdrawn(msg.sender, _asset, _amount);
+    }
+
+    /**
+     * @dev Override the borrowInternal function from the parent contract to include collateral requirements
+     * Reverts if the borrower does not have enough collateral
+     * @param _borrower The borrower the debt is recorded against, whose collateral secures it
+     * @param _loanId The loan to add to, opened if it is not active
      * @param _amount The amount of tokens to borrow
-     * @dev Override the borrow function from the parent contract to include collateral requirements
-     * @dev Revert the transaction if the user does not have enough collateral
+     * @param _term The term of a new loan in seconds, zero for an open-ended loan
      */
-    function borrow(uint256 _amount) public override nonReentrant {
-        // Check if the user has enough collateral to borrow the requested amount
-        uint256 requiredCollateral = requiredCollateralForBorrowing(_amount);
+    function borrowInternal(
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount,
+        uint256 _term
+    ) internal override {
+        // Check if the borrower has enough collateral to owe the requested amount on top of their active loans
         require(
-            collateralEther[msg.sender] >= requiredCollateral,
+            isCovered(
+                _borrower,
+                amountOwed(_borrower) + _amount,
+                collateralEther[_borrower],
+                false
+            ),
             "Not enough collateral"
         );
 
         // Call the borrow internal function from the parent contract
-        super.borrowInternal(_amount);
+        super.borrowInternal(_borrower, _loanId, _amount, _term);
+    }
+
+    /**
+     * @dev Override the repayInternal function from the parent contract to release the collateral
+     * in proportion to the debt repaid, so repaying all the loans returns all of it
+     * The collateral kept secures the remaining debt at the same ratio as before
+     * @param _borrower The borrower whose loans are repaid, who receives the released collateral
+     * @param _loanId The loan to repay, or ALL_LOANS to repay the loans in loan id order
+     * @param _amount The amount of tokens to repay, capped at the amount owed
+     * @return The debt left on all the loans of the borrower after the repayment
+     */
+    function repayInternal(
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount
+    ) internal override returns (uint256) {
+        // Repay the loans using the parent contract's repay function
+        uint256 debt = amountOwed(_borrower);
+        uint256 remainingDebt = super.repayInternal(
+            _borrower,
+            _loanId,
+            _amount
+        );
+
+        // Return the collateral no longer needed to the borrower, Ether first
+        releaseCollateral(_borrower, address(0), debt, remainingDebt);
+        for (uint256 i = 0; i < collateralAssetList.length; i++) {
+            releaseCollateral(
+                _borrower,
+                collateralAssetList[i],
+                debt,
+                remainingDebt
+            );
+        }
+        return remainingDebt;
     }
 
     /**
-     * @dev Function to repay the loan
+     * @dev Internal function to return the share of one collateral asset no longer needed for the debt
+     * @param _user User address
+     * @param _asset The collateral token, or the zero address for Ether
+     * @param _debt The debt before the repayment
+     * @param _remainingDebt The debt after the repayment
      */
-    function repay() public override nonReentrant {
-        // Repay the loan using the parent contract's repay function
-        super.repayInternal();
+    function releaseCollateral(
+        address _user,
+        address _asset,
+        uint256 _debt,
+        uint256 _remainingDebt
+    ) internal {
+        // Nothing was owed, so no collateral is released
+        if (_debt == 0) {
+            return;
+        }
+        uint256 collateral = collateralBalance(_user, _asset);
+        uint256 released = collateral - (collateral * _remainingDebt) / _debt;
+        if (released == 0) {
+            return;
+        }
+        removeCollateral(_user, _asset, released);
+        transferCollateral(_user, _asset, released);
 
-        // Return the collateral to the user
-        uint256 collateral = collateralEther[msg.sender];
-        payable(msg.sender).transfer(collateral);
-        delete collateralEther[msg.sender];
+        // Emit an event to log the collateral returned
+        if (_asset == address(0)) {
+            emit CollateralWithdrawn(_user, released);
+        } else {
+            emit CollateralTokenWithdrawn(_user, _asset, released);
+        }
+    }
+
+    /**
+     * @dev Function to change the collateralization and liquidation ratios, only callable through the timelock
+     * @param _collateralizationRatio Collateral required to borrow in percentage of the debt
+     * @param _liquidationRatio Collateral below which a loan can be liquidated in percentage of the debt
+     */
+    function setRatios(
+        uint256 _collateralizationRatio,
+        uint256 _liquidationRatio
+    ) external onlyTimelock {
+        validateRatios(_collateralizationRatio, _liquidationRatio);
+
+        collateralizationRatio = _collateralizationRatio;
+        liquidationRatio = _liquidationRatio;
+
+        // Emit the RatiosUpdated event
+        emit RatiosUpdated(_collateralizationRatio, _liquidationRatio);
+    }
+
+    /**
+     * @dev Function to list an ERC-20 collateral token or change its parameters, only callable through the timelock
+     * @param _asset The collateral token
+     * @param _collateralizationRatio Collateral required to borrow in percentage of the debt
+     * @param _liquidationRatio Collateral below which a loan can be liquidated in percentage of the debt
+     * @param _priceOracle Oracle reporting the amount of lending tokens per collateral token
+     */
+    function setCollateralAsset(
+        address _asset,
+        uint256 _collateralizationRatio,
+        uint256 _liquidationRatio,
+        IPriceOracle _priceOracle
+    ) external onlyTimelock {
+        require(
+            _asset != address(0) && _asset != address(token),
+            "Invalid collateral asset"
+        );
+        require(address(_priceOracle) != address(0), "Invalid price oracle");
+        validateRatios(_collateralizationRatio, _liquidationRatio);
+
+        if (!collateralAssets[_asset].listed) {
+            collateralAssetList.push(_asset);
+        }
+        collateralAssets[_asset] = CollateralAsset(
+            true,
+            _collateralizationRatio,
+            _liquidationRatio,
+            _priceOracle
+        );
+
+        // Emit the CollateralAssetUpdated event
+        emit CollateralAssetUpdated(
+            _asset,
+            _collateralizationRatio,
+            _liquidationRatio,
+            address(_priceOracle)
+        );
+    }
+
+    /**
+     * @dev See {LendingPlatformBase-isTimelockedSetter}
+     */
+    function isTimelockedSetter(
+        bytes4 _selector
+    ) internal view override returns (bool) {
+        return
+            _selector == this.setRatios.selector ||
+            _selector == this.setCollateralAsset.selector ||
+            super.isTimelockedSetter(_selector);
+    }
+
+    /**
+     * @dev Check the sanity bounds of a pair of collateralization and liquidation ratios
+     * @param _collateralizationRatio Collateral required to borrow in percentage of the debt
+     * @param _liquidationRatio Collateral below which a loan can be liquidated in percentage of the debt
+     */
+    function validateRatios(
+        uint256 _collateralizationRatio,
+        uint256 _liquidationRatio
+    ) internal view {
+        require(
+            _liquidationRatio < _collateralizationRatio,
+            "Liquidation ratio must be below collateralization ratio"
+        );
+        require(
+            _collateralizationRatio <= MAX_COLLATERALIZATION_RATIO,
+            "Collateralization ratio too high"
+        );
+        // Liquidations must leave the remaining debt better collateralized
+        require(
+            100 + liquidationBonus < _liquidationRatio,
+            "Liquidation ratio too low"
+        );
+    }
+
+    /**
+     * @dev Internal function to check that a token is listed as collateral
+     * @param _asset The collateral token
+     */
+    function validateCollateralAsset(address _asset) internal view {
+        require(
+            collateralAssets[_asset].listed,
+            "Unsupported collateral asset"
+        );
+    }
+
+    /**
+     * @dev Internal function to check that the caller can take the given amount out of their collateral
+     * @param _asset The collateral token, or the zero address for Ether
+     * @param _amount The amount of collateral to withdraw
+     */
+    function validateWithdrawal(address _asset, uint256 _amount) internal view {
+        require(_amount > 0, "Must withdraw a positive amount");
+        require(
+            collateralBalance(msg.sender, _asset) >= _amount,
+            "Not enough collateral"
+        );
+    }
+
+    /**
+     * @dev Function to get the listed ERC-20 collateral tokens
+     */
+    function getCollateralAssets() external view returns (address[] memory) {
+        return collateralAssetList;
     }
 
     /**
@@ -117,12 +438,134 @@ contract LendingPlatformWithCollateral is LendingPlatform {
     function canWithdrawCollateral(
         address _user,
         uint256 _amount
+    ) public view returns (bool) {
+        if (collateralEther[_user] < _amount) {
+            return false;
+        }
+        return securesLoan(_user, collateralEther[_user] - _amount);
+    }
+
+    /**
+     * @dev Check if the collateral basket of a user, with the given Ether collateral, secures their loans
+     * @param _user User address
+     * @param _etherCollateral The Ether collateral of the user to count
+     */
+    function securesLoan(
+        address _user,
+        uint256 _etherCollateral
     ) internal view returns (bool) {
-        uint256 remainingCollateral = collateralEther[_user] - _amount;
-        uint256 requiredCollateral = requiredCollateralForBorrowing(
-            loans[_user].amount
-        );
-        return remainingCollateral >= requiredCollateral;
+        // Without a loan there is nothing to secure, so no price is needed
+        if (loanState(_user) == LoanState.None) {
+            return true;
+        }
+        return
+            isCovered(_user, amountOwed(_user), _etherCollateral, false);
+    }
+
+    /**
+     * @dev Function to get the current oracle price
+     * Reverts if the price is zero or older than maxPriceAge
+     * @return Amount of tokens per Ether, scaled by PRICE_PRECISION
+     */
+    function getPrice() public view returns (uint256) {
+        return readPrice(priceOracle);
+    }
+
+    /**
+     * @dev Function to get the current price of a listed collateral token
+     * Reverts if the price is zero or older than maxPriceAge
+     * @param _asset The collateral token
+     * @return Amount of lending tokens per collateral token, scaled by PRICE_PRECISION
+     */
+    function getAssetPrice(address _asset) public view returns (uint256) {
+        validateCollateralAsset(_asset);
+        return readPrice(collateralAssets[_asset].priceOracle);
+    }
+
+    /**
+     * @dev Function to get the debt the ERC-20 collateral of a user can secure
+     * Every token is valued at its own oracle price and ratio
+     * @param _user User address
+     * @param _atLiquidation Whether to use the liquidation ratios instead of the collateralization ratios
+     * @return capacity Amount of lending tokens the ERC-20 collateral covers
+     */
+    function collateralTokenCapacity(
+        address _user,
+        bool _atLiquidation
+    ) public view returns (uint256 capacity) {
+        for (uint256 i = 0; i < collateralAssetList.length; i++) {
+            address asset = collateralAssetList[i];
+            uint256 amount = collateralTokens[_user][asset];
+            if (amount == 0) {
+                continue;
+            }
+
+            CollateralAsset storage params = collateralAssets[asset];
+            uint256 ratio = _atLiquidation
+                ? params.liquidationRatio
+                : params.collateralizationRatio;
+            capacity +=
+                (amount * getAssetPrice(asset) * 100) /
+                (PRICE_PRECISION * ratio);
+        }
+    }
+
+    /**
+     * @dev Function to get the amount of tokens a user can owe against their whole collateral basket
+     * @param _user User address
+     */
+    function getBorrowingCapacity(
+        address _user
+    ) external view returns (uint256) {
+        return collateralCapacity(_user, false);
+    }
+
+    /**
+     * @dev Function to get how far the collateral of a user is above the liquidation threshold
+     * It is the debt the collateral basket covers at the liquidation ratios divided by the debt,
+     * so the position can be liquidated once it falls below HEALTH_FACTOR_PRECISION
+     * @param _user User address
+     * @return Health factor scaled by HEALTH_FACTOR_PRECISION, the maximum uint256 without a debt
+     */
+    function healthFactor(address _user) external view returns (uint256) {
+        uint256 debt = amountOwed(_user);
+        if (debt == 0) {
+            return type(uint256).max;
+        }
+        return
+            (collateralCapacity(_user, true) * HEALTH_FACTOR_PRECISION) /
+            debt;
+    }
+
+    /**
+     * @dev Function to get the debt the whole collateral basket of a user covers
+     * @param _user User address
+     * @param _atLiquidation Whether to use the liquidation ratios instead of the collateralization ratios
+     */
+    function collateralCapacity(
+        address _user,
+        bool _atLiquidation
+    ) internal view returns (uint256) {
+        uint256 capacity = collateralTokenCapacity(_user, _atLiquidation);
+        if (collateralEther[_user] > 0) {
+            uint256 ratio = _atLiquidation
+                ? liquidationRatio
+                : collateralizationRatio;
+            capacity +=
+                (collateralEther[_user] * getPrice() * 100) /
+                (PRICE_PRECISION * ratio);
+        }
+        return capacity;
+    }
+
+    /**
+     * @dev Function to convert a token amount to its value in Ether at the oracle price
+     * @param _tokenAmount The amount of tokens
+     */
+    function tokenValueInEther(
+        uint256 _tokenAmount
+    ) public view returns (uint256) {
+        return (_tokenAmount * PRICE_PRECISION) / getPrice();
     }
 
     /**
@@ -132,34 +575,236 @@ contract LendingPlatformWithCollateral is LendingPlatform {
     function requiredCollateralForBorrowing(
         uint256 _tokenAmount
     ) public view returns (uint256) {
-        // Assume 1 token = 1 USD and 1 Ether = 2000 USD for simplicity
-        uint256 tokenValueInEther = _tokenAmount / 2000;
-        return (tokenValueInEther * collateralizationRatio) / 100;
+        return
+            (tokenValueInEther(_tokenAmount) * collateralizationRatio) / 100;
+    }
+
+    /**
+     * @dev Check if the collateral of the user has fallen below the liquidation ratio, or one of their loans is in default
+     * The debt includes the interest accrued so far on all the loans
+     * @param _user User address
+     */
+    function isLiquidatable(address _user) public view returns (bool) {
+        LoanState state = loanState(_user);
+        if (state == LoanState.None) {
+            return false;
+        }
+        if (state == LoanState.Defaulted) {
+            return true;
+        }
+
+        return
+            !isCovered(_user, amountOwed(_user), collateralEther[_user], true);
     }
 
     /**
-     * @dev Function to liquidate the collateral of a user if the value falls below the liquidation ratio
+     * @dev Check if the collateral basket of a user covers the given debt
+     * The ERC-20 collateral covers what it can and the Ether collateral must cover the rest
+     * @param _user User address
+     * @param _debt The debt to secure
+     * @param _etherCollateral The Ether collateral of the user to count
+     * @param _atLiquidation Whether to use the liquidation ratios instead of the collateralization ratios
+     */
+    function isCovered(
+        address _user,
+        uint256 _debt,
+        uint256 _etherCollateral,
+        bool _atLiquidation
+    ) internal view returns (bool) {
+        uint256 covered = collateralTokenCapacity(_user, _atLiquidation);
+        if (covered >= _debt) {
+            return true;
+        }
+
+        uint256 ratio = _atLiquidation
+            ? liquidationRatio
+            : collateralizationRatio;
+        return
+            _etherCollateral >=
+            (tokenValueInEther(_debt - covered) * ratio) / 100;
+    }
+
+    /**
+     * @dev Check if the user has any collateral left
+     * @param _user User address
+     */
+    function hasCollateral(address _user) internal view returns (bool) {
+        if (collateralEther[_user] > 0) {
+            return true;
+        }
+        for (uint256 i = 0; i < collateralAssetList.length; i++) {
+            if (collateralTokens[_user][collateralAssetList[i]] > 0) {
+                return true;
+            }
+        }
+        return false;
+    }
+
+    /**
+     * @dev Function to repay part of the debt of a user whose collateral value fell below the liquidation ratio
+     * The liquidator repays up to closeFactor percent of the debt (loans plus accrued interest) in tokens,
+     * or the whole debt once a loan is in default, paying the loans in loan id order,
+     * and receives the Ether collateral worth the repaid tokens plus the liquidation bonus.
+     * If the collateral runs out, the liquidator only pays for the collateral left and
+     * the rest of the debt is written off as bad debt, which the lenders bear.
      * @param _user The address of the user to liquidate
+     * @param _repayAmount The amount of tokens to repay, capped at the close factor share of the debt
      */
-    function liquidate(address _user) external nonReentrant {
-        // Check if the user's collateral value is below the liquidation ratio
-        uint256 collateralValueInEther = collateralEther[_user];
-        // Assume 1 token = 1 USD and 1 Ether = 2000 USD for simplicity
-        uint256 requiredCollateral = ((loans[_user].amount / 2000) *
-            liquidationRatio) / 100;
+    function liquidate(
+        address _user,
+        uint256 _repayAmount
+    ) external nonReentrant {
+        liquidateInternal(_user, address(0), _repayAmount);
+    }
+
+    /**
+     * @dev Function to liquidate a user like liquidate, seizing one of their ERC-20 collateral tokens
+     * @param _user The address of the user to liquidate
+     * @param _asset The collateral token to seize
+     * @param _repayAmount The amount of tokens to repay, capped at the close factor share of the debt
+     */
+    function liquidateCollateralToken(
+        address _user,
+        address _asset,
+        uint256 _repayAmount
+    ) external nonReentrant {
+        validateCollateralAsset(_asset);
+        liquidateInternal(_user, _asset, _repayAmount);
+    }
+
+    /**
+     * @dev Internal function to liquidate a user, seizing the given collateral asset
+     * @param _user The address of the user to liquidate
+     * @param _asset The collateral token to seize, or the zero address for Ether
+     * @param _repayAmount The amount of tokens to repay, capped at the close factor share of the debt
+     */
+    function liquidateInternal(
+        address _user,
+        address _asset,
+        uint256 _repayAmount
+    ) internal {
+        // Require that the liquidator repays a non-zero amount of tokens
+        require(_repayAmount > 0, "Must repay a positive amount");
 
         // Revert the transaction if the collateral value is sufficient
-        require(
-            collateralValueInEther < requiredCollateral,
-            "Collateral value is sufficient"
+        require(isLiquidatable(_user), "Collateral value is sufficient");
+
+        // Checkpoint the accrued interest, so it is repaid as part of the debt
+        uint256 debt = accrueInterest(_user);
+
+        // Limit the repayment to the close factor share of the debt, unless a loan is in default
+        uint256 maxRepayAmount = loanState(_user) == LoanState.Defaulted
+            ? debt
+            : (debt * closeFactor) / 100;
+        uint256 repayAmount = _repayAmount < maxRepayAmount
+            ? _repayAmount
+            : maxRepayAmount;
+
+        // Seize the collateral worth the repaid tokens plus the bonus
+        uint256 price = _asset == address(0)
+            ? getPrice()
+            : getAssetPrice(_asset);
+        uint256 collateral = collateralBalance(_user, _asset);
+        uint256 bonusFactor = 100 + liquidationBonus;
+        uint256 seized = (((repayAmount * PRICE_PRECISION) / price) *
+            bonusFactor) / 100;
+        if (seized > collateral) {
+            // Only the collateral left is paid for
+            seized = collateral;
+            repayAmount =
+                (collateral * price * 100) /
+                (PRICE_PRECISION * bonusFactor);
+        }
+
+        // Update the collateral, then pay the interest and the principal
+        removeCollateral(_user, _asset, seized);
+        reduceDebt(_user, ALL_LOANS, repayAmount, false);
+        uint256 remainingDebt = debt - repayAmount;
+
+        // Write off the debt left without collateral
+        uint256 badDebt = 0;
+        if (!hasCollateral(_user) && remainingDebt > 0) {
+            badDebt = remainingDebt;
+            remainingDebt = 0;
+            deleteLoans(_user);
+        }
+
+        // Collect the repaid tokens and pay out the seized collateral
+        token.safeTransferFrom(msg.sender, address(this), repayAmount);
+        transferCollateral(msg.sender, _asset, seized);
+
+        // Emit the Liquidated event, the remaining debt accrues interest from now on
+        emit Liquidated(
+            _user,
+            msg.sender,
+            _asset,
+            repayAmount,
+            seized,
+            badDebt,
+            remainingDebt
         );
+    }
 
-        // Liquidate the collateral
-        uint256 amountToLiquidate = loans[_user].amount;
-        loans[_user].amount = 0;
-        collateralEther[_user] = 0;
+    /**
+     * @dev Function to get the collateral a user holds of one asset
+     * @param _user User address
+     * @param _asset The collateral token, or the zero address for Ether
+     */
+    function collateralBalance(
+        address _user,
+        address _asset
+    ) internal view returns (uint256) {
+        if (_asset == address(0)) {
+            return collateralEther[_user];
+        }
+        return collateralTokens[_user][_asset];
+    }
 
-        // Transfer the liquidated amount to the contract
-        payable(msg.sender).transfer(amountToLiquidate);
+    /**
+     * @dev Internal function to reduce the collateral a user holds of one asset
+     * @param _user User address
+     * @param _asset The collateral token, or the zero address for Ether
+     * @param _amount The amount of collateral to remove
+     */
+    function removeCollateral(
+        address _user,
+        address _asset,
+        uint256 _amount
+    ) internal {
+        if (_asset == address(0)) {
+            collateralEther[_user] -= _amount;
+        } else {
+            collateralTokens[_user][_asset] -= _amount;
+        }
+    }
+
+    /**
+     * @dev Internal function to send collateral out of the contract
+     * @param _to The recipient
+     * @param _asset The collateral token, or the zero address for Ether
+     * @param _amount The amount of collateral to send
+     */
+    function transferCollateral(
+        address _to,
+        address _asset,
+        uint256 _amount
+    ) internal {
+        if (_asset == address(0)) {
+            payable(_to).transfer(_amount);
+        } else {
+            IERC20(_asset).safeTransfer(_to, _amount);
+        }
+    }
+
+    /**
+     * @dev Internal function to read an oracle price
+     * Reverts if the price is zero or older than maxPriceAge
+     * @param _oracle The price oracle
+     */
+    function readPrice(IPriceOracle _oracle) internal view returns (uint256) {
+        (uint256 price, uint256 updatedAt) = _oracle.latestPrice();
+        require(price > 0, "Invalid price");
+        require(block.timestamp - updatedAt <= maxPriceAge, "Stale price");
+        return price;
     }
 }
@@ -3,6 +3,7 @@
 pragma solidity ^0.8.20;
 
 import "@openzeppelin/contracts/token/ERC20/ERC20.sol";
+import "@openzeppelin/contracts/token/ERC20/extensions/ERC20Permit.sol";
 import "@openzeppelin/contracts/access/Ownable.sol";
 
 /**
@@ -15,9 +16,11 @@ import "@openzeppelin/contracts/access/Ownable.sol";
  * - name: MyToken
  * - symbol: MTK
  * - 18 decimal places
+ * Holders can approve spenders with an EIP-2612 signed permit instead of a
+ * transaction, so that lending and repaying take a single transaction.
  * This token is designed to work with the LendingPlatform contract.
  */
-contract MyToken is ERC20, Ownable {
+contract MyToken is ERC20, ERC20Permit, Ownable {
     /**
      * @dev Sets the values for {initialAmount}.
      *
@@ -26,7 +29,7 @@ contract MyToken is ERC20, Ownable {
      */
     constructor(
         uint _initialAmount
-    ) ERC20("MyToken", "MTK") Ownable(msg.sender) {
+    ) ERC20("MyToken", "MTK") ERC20Permit("MyToken") Ownable(msg.sender) {
         _mint(msg.sender, _initialAmount * 10 ** decimals());
     }
 
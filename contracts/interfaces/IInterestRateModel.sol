@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+/**
+ * @title IInterestRateModel
+ * @dev Interface of the models that set the interest rate of LendingPlatform.
+ * Rates are yearly percentages scaled by 1e18 (e.g. 5% is reported as 5e18).
+ */
+interface IInterestRateModel {
+    /**
+     * @dev Function to get the yearly interest rate charged to borrowers
+     * @param _available Tokens available in the pool
+     * @param _borrowed Tokens currently lent out
+     * @return Yearly interest rate in percent, scaled by 1e18
+     */
+    function getBorrowRate(
+        uint256 _available,
+        uint256 _borrowed
+    ) external view returns (uint256);
+}
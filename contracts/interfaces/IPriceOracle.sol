@@ -0,0 +1,21 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+/**
+ * @title IPriceOracle
+ * @dev Interface of the price feeds used by LendingPlatformWithCollateral.
+ * Prices are expressed as the amount of lending tokens one Ether is worth,
+ * scaled by 1e18 (e.g. 1 ETH = 2000 tokens is reported as 2000e18).
+ */
+interface IPriceOracle {
+    /**
+     * @dev Function to get the latest price and the time it was last updated
+     * @return price Amount of lending tokens per Ether, scaled by 1e18
+     * @return updatedAt Timestamp of the last price update
+     */
+    function latestPrice()
+        external
+        view
+        returns (uint256 price, uint256 updatedAt);
+}
@@ -0,0 +1,83 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+/**
+ * @title ChangeQueue
+ * @dev Timelock of the lending platforms: queued calls to their own setters, keyed by the hash of the call.
+ * The platforms link it as an external library to stay below the contract size limit. Its functions run
+ * with the storage and address of the calling platform, so executed calls come from the platform itself.
+ */
+library ChangeQueue {
+    // Also declared by LendingPlatformBase, so they are part of its ABI
+    event ChangeQueued(bytes32 indexed id, bytes data, uint256 executableAt);
+    event ChangeExecuted(bytes32 indexed id, bytes data);
+    event ChangeCancelled(bytes32 indexed id);
+
+    /**
+     * @dev Function to queue a call, which can be executed once the delay has passed
+     * @param _queued Time from which each queued call can be executed, by id
+     * @param _data The call to queue
+     * @param _delay Delay between queuing and executing the call
+     * @return Id of the change, the hash of the call
+     */
+    function queue(
+        mapping(bytes32 => uint256) storage _queued,
+        bytes calldata _data,
+        uint256 _delay
+    ) external returns (bytes32) {
+        bytes32 id = keccak256(_data);
+        require(_queued[id] == 0, "Change already queued");
+
+        uint256 executableAt = block.timestamp + _delay;
+        _queued[id] = executableAt;
+
+        // Emit the ChangeQueued event
+        emit ChangeQueued(id, _data, executableAt);
+        return id;
+    }
+
+    /**
+     * @dev Function to execute a queued call once its delay has passed
+     * @param _queued Time from which each queued call can be executed, by id
+     * @param _data The queued call
+     */
+    function execute(
+        mapping(bytes32 => uint256) storage _queued,
+        bytes calldata _data
+    ) external {
+        bytes32 id = keccak256(_data);
+        uint256 executableAt = _queued[id];
+        require(executableAt != 0, "Change not queued");
+        require(block.timestamp >= executableAt, "Timelock not expired");
+        delete _queued[id];
+
+        // Call the setter, which only accepts calls from the platform itself
+        (bool success, bytes memory result) = address(this).call(_data);
+        if (!success) {
+            // Bubble up the revert reason of the setter
+            assembly {
+                revert(add(result, 32), mload(result))
+            }
+        }
+
+        // Emit the ChangeExecuted event
+        emit ChangeExecuted(id, _data);
+    }
+
+    /**
+     * @dev Function to cancel a queued call
+     * @param _queued Time from which each queued call can be executed, by id
+     * @param _id Id of the change returned by queue
+     */
+    function cancel(
+        mapping(bytes32 => uint256) storage _queued,
+        bytes32 _id
+    ) external {
+        require(_queued[_id] != 0, "Change not queued");
+        delete _queued[_id];
+
+        // Emit the ChangeCancelled event
+        emit ChangeCancelled(_id);
+    }
+}
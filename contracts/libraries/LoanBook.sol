@@ -0,0 +1,357 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/utils/math/Math.sol";
+
+// Loans a borrower can have at once, including the open-ended loan 0
+uint256 constant MAX_LOANS = 4;
+
+// Loan id of the payments made to all the loans of a borrower, in loan id order
+uint256 constant ALL_LOANS = type(uint256).max;
+
+// Scale of the scaled loan amounts, 1e18 finer than the borrow index (1e27) so a debt converts back to the same amount
+uint256 constant SCALED_AMOUNT_PRECISION = 1e27 * 1e18;
+
+/**
+ * @dev The struct defines the details of a loan, including the loan amount, start time, borrower address, and loan status.
+ * The debt (principal plus interest) is stored as scaledAmount, the debt divided by the borrow index, so it
+ * compounds with the index whatever the interest rate was. When the loan changes, the interest accrued so far
+ * is checkpointed in interest and the start time moves to the time of the change.
+ * Fixed-term loans must be repaid by the due date, which is zero for open-ended loans.
+ */
+struct Loan {
+    uint256 amount;
+    uint256 startTime;
+    address borrower;
+    bool active;
+    uint256 interest;
+    uint256 dueDate;
+    uint256 scaledAmount;
+}
+
+/**
+ * @dev Repayment state of a loan. Open-ended loans stay Current. Fixed-term loans are Late once past
+ * their due date and Defaulted once past the default period after it.
+ */
+enum LoanState {
+    None,
+    Current,
+    Late,
+    Defaulted
+}
+
+/**
+ * @title LoanBook
+ * @dev Interest and repayments of the loans of one borrower on the lending platforms, by loan id.
+ * The platforms link it as an external library to stay below the contract size limit. Its functions run
+ * with the storage of the calling platform and return the changes to its totals for the platform to apply.
+ */
+library LoanBook {
+    // Also declared by LendingPlatformBase, so they are part of its ABI
+    event LoanInitiated(
+        address indexed borrower,
+        uint256 indexed loanId,
+        uint256 amount,
+        uint256 startTime
+    );
+    event LoanRepaid(
+        address indexed borrower,
+        uint256 indexed loanId,
+        uint256 amount,
+        uint256 interestPaid,
+        uint256 remainingDebt,
+        bool closed,
+        uint256 timestamp
+    );
+    event LoanUpdated(
+        address indexed borrower,
+        uint256 indexed loanId,
+        uint256 principal,
+        uint256 interest,
+        uint256 scaledAmount,
+        uint256 timestamp
+    );
+
+    /**
+     * @dev Function to get the amount owed on the loans, their amounts plus the interest and penalty accrued so far
+     * @param _loans The loans of the borrower
+     * @param _index The borrow index at the current time
+     * @param _gracePeriod Time after the due date before the penalty rate applies
+     * @param _penaltyRate Extra yearly interest in percent on overdue principal, scaled by 1e18
+     */
+    function amountOwed(
+        Loan[MAX_LOANS] storage _loans,
+        uint256 _index,
+        uint256 _gracePeriod,
+        uint256 _penaltyRate
+    ) external view returns (uint256 owed) {
+        for (uint256 i = 0; i < MAX_LOANS; i++) {
+            owed +=
+                Math.mulDiv(
+                    _loans[i].scaledAmount,
+                    _index,
+                    SCALED_AMOUNT_PRECISION
+                ) +
+                penaltyInterest(_loans[i], _gracePeriod, _penaltyRate);
+        }
+    }
+
+    /**
+     * @dev Function to get the repayment state of the loans, the state of the most overdue one
+     * @param _loans The loans of the borrower
+     * @param _defaultPeriod Time after the due date after which a loan is in default
+     */
+    function state(
+        Loan[MAX_LOANS] storage _loans,
+        uint256 _defaultPeriod
+    ) external view returns (LoanState worst) {
+        for (uint256 i = 0; i < MAX_LOANS; i++) {
+            Loan storage loan = _loans[i];
+            if (!loan.active) {
+                continue;
+            }
+            LoanState current = LoanState.Defaulted;
+            if (loan.dueDate == 0 || block.timestamp <= loan.dueDate) {
+                current = LoanState.Current;
+            } else if (block.timestamp <= loan.dueDate + _defaultPeriod) {
+                current = LoanState.Late;
+            }
+            if (current > worst) {
+                worst = current;
+            }
+        }
+    }
+
+    /**
+     * @dev Function to get the id of the next fixed-term loan, the first free loan id after the open-ended loan 0
+     * Reverts if all the loan ids are taken
+     * @param _loans The loans of the borrower
+     */
+    function freeLoanId(
+        Loan[MAX_LOANS] storage _loans
+    ) external view returns (uint256 loanId) {
+        loanId = 1;
+        while (_loans[loanId].active) {
+            loanId++;
+            require(loanId < MAX_LOANS, "Too many loans");
+        }
+    }
+
+    /**
+     * @dev Function to checkpoint the interest accrued on the active loans, once the borrow index is up to date
+     * The penalty accrued so far is added to the debt and the loans restart at the current time,
+     * so the penalty is not charged twice
+     * @param _loans The loans of the borrower
+     * @param _borrower Address of the borrower
+     * @param _index The borrow index, brought up to date
+     * @param _gracePeriod Time after the due date before the penalty rate applies
+     * @param _penaltyRate Extra yearly interest in percent on overdue principal, scaled by 1e18
+     * @return debt The amount owed on the loans
+     * @return scaledPenalty The scaled penalty added to the loans
+     */
+    function accrue(
+        Loan[MAX_LOANS] storage _loans,
+        address _borrower,
+        uint256 _index,
+        uint256 _gracePeriod,
+        uint256 _penaltyRate
+    ) external returns (uint256 debt, uint256 scaledPenalty) {
+        for (uint256 i = 0; i < MAX_LOANS; i++) {
+            Loan storage loan = _loans[i];
+            if (!loan.active) {
+                continue;
+            }
+            uint256 penalty = Math.mulDiv(
+                penaltyInterest(loan, _gracePeriod, _penaltyRate),
+                SCALED_AMOUNT_PRECISION,
+                _index,
+                Math.Rounding.Ceil
+            );
+            loan.scaledAmount += penalty;
+            loan.startTime = block.timestamp;
+
+            uint256 owed = Math.mulDiv(
+                loan.scaledAmount,
+                _index,
+                SCALED_AMOUNT_PRECISION
+            );
+            loan.interest = owed - loan.amount;
+            emitLoanUpdated(loan, _borrower, i);
+            debt += owed;
+            scaledPenalty += penalty;
+        }
+    }
+
+    /**
+     * @dev Function to add to a loan, opening it if it is not active, once the interest of the loans is accrued
+     * @param _loans The loans of the borrower
+     * @param _borrower Address of the borrower
+     * @param _loanId The loan to add to
+     * @param _amount The amount of tokens borrowed
+     * @param _dueDate The due date of a new loan, zero for an open-ended loan
+     * @param _index The borrow index, brought up to date
+     * @return scaledAmount The scaled amount added to the loan, rounded up in favor of the pool
+     */
+    function borrow(
+        Loan[MAX_LOANS] storage _loans,
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount,
+        uint256 _dueDate,
+        uint256 _index
+    ) external returns (uint256 scaledAmount) {
+        Loan storage loan = _loans[_loanId];
+        if (!loan.active) {
+            loan.startTime = block.timestamp;
+            loan.borrower = _borrower;
+            loan.active = true;
+            loan.dueDate = _dueDate;
+        }
+        scaledAmount = Math.mulDiv(
+            _amount,
+            SCALED_AMOUNT_PRECISION,
+            _index,
+            Math.Rounding.Ceil
+        );
+        loan.amount += _amount;
+        loan.scaledAmount += scaledAmount;
+
+        // Emit the LoanInitiated and LoanUpdated events
+        emit LoanInitiated(_borrower, _loanId, _amount, block.timestamp);
+        emitLoanUpdated(loan, _borrower, _loanId);
+    }
+
+    /**
+     * @dev Function to apply a payment to loans whose interest has been accrued
+     * The loans are paid in loan id order, each its interest first and then its principal,
+     * and deleted once nothing is owed on them, including active loans that owe nothing before the payment.
+     * @param _loans The loans of the borrower
+     * @param _borrower Address of the borrower
+     * @param _loanId The loan to pay, or ALL_LOANS to pay all of them
+     * @param _amount The amount of tokens paid, at most the amount owed
+     * @param _index The borrow index, brought up to date
+     * @param _repayment Whether to emit LoanRepaid for each loan paid
+     * @return interestPaid The part of the amount that paid interest
+     * @return scaledPaid The scaled amount removed from the loans
+     */
+    function pay(
+        Loan[MAX_LOANS] storage _loans,
+        address _borrower,
+        uint256 _loanId,
+        uint256 _amount,
+        uint256 _index,
+        bool _repayment
+    ) external returns (uint256 interestPaid, uint256 scaledPaid) {
+        for (uint256 i = 0; i < MAX_LOANS; i++) {
+            Loan storage loan = _loans[i];
+            uint256 debt = loan.amount + loan.interest;
+            if (
+                !loan.active ||
+                (_loanId != ALL_LOANS && _loanId != i) ||
+                (_amount == 0 && debt > 0)
+            ) {
+                continue;
+            }
+            uint256 paid = _amount < debt ? _amount : debt;
+            uint256 interest = paid < loan.interest ? paid : loan.interest;
+
+            // Amounts repaid are rounded down, in favor of the pool, and a repaid loan is deleted
+            // with what is left of its scaled amount
+            uint256 scaled = paid == debt
+                ? loan.scaledAmount
+                : Math.mulDiv(paid, SCALED_AMOUNT_PRECISION, _index);
+            loan.interest -= interest;
+            loan.amount -= paid - interest;
+            loan.scaledAmount -= scaled;
+            if (paid == debt) {
+                delete _loans[i];
+            }
+            emitLoanUpdated(loan, _borrower, i);
+            if (_repayment) {
+                emit LoanRepaid(
+                    _borrower,
+                    i,
+                    paid,
+                    interest,
+                    debt - paid,
+                    paid == debt,
+                    block.timestamp
+                );
+            }
+            _amount -= paid;
+            interestPaid += interest;
+            scaledPaid += scaled;
+        }
+    }
+
+    /**
+     * @dev Function to delete the active loans, writing off what is left of their debt
+     * @param _loans The loans of the borrower
+     * @param _borrower Address of the borrower
+     * @return principal The principal of the deleted loans
+     * @return scaledAmount The scaled amount of the deleted loans
+     */
+    function remove(
+        Loan[MAX_LOANS] storage _loans,
+        address _borrower
+    ) external returns (uint256 principal, uint256 scaledAmount) {
+        for (uint256 i = 0; i < MAX_LOANS; i++) {
+            Loan storage loan = _loans[i];
+            if (!loan.active) {
+                continue;
+            }
+            principal += loan.amount;
+            scaledAmount += loan.scaledAmount;
+            delete _loans[i];
+            emitLoanUpdated(loan, _borrower, i);
+        }
+    }
+
+    /**
+     * @dev Function to calculate the penalty accrued on an overdue loan since its start time
+     * The penalty rate applies to the principal from the end of the grace period after the due date
+     * @param _loan The loan
+     * @param _gracePeriod Time after the due date before the penalty rate applies
+     * @param _penaltyRate Extra yearly interest in percent on overdue principal, scaled by 1e18
+     */
+    function penaltyInterest(
+        Loan storage _loan,
+        uint256 _gracePeriod,
+        uint256 _penaltyRate
+    ) private view returns (uint256) {
+        uint256 penaltyStart = _loan.dueDate + _gracePeriod;
+        if (_loan.dueDate == 0 || block.timestamp <= penaltyStart) {
+            return 0;
+        }
+
+        // Interest checkpointed after the grace period already includes the penalty until then
+        uint256 from = _loan.startTime > penaltyStart
+            ? _loan.startTime
+            : penaltyStart;
+        return
+            (_loan.amount * _penaltyRate * (block.timestamp - from)) /
+            (365 days * 100 * 1e18);
+    }
+
+    /**
+     * @dev Function to emit the LoanUpdated event with the current state of a loan
+     * @param _loan The loan that changed
+     * @param _borrower Address of the borrower
+     * @param _loanId The id of the loan
+     */
+    function emitLoanUpdated(
+        Loan storage _loan,
+        address _borrower,
+        uint256 _loanId
+    ) private {
+        emit LoanUpdated(
+            _borrower,
+            _loanId,
+            _loan.amount,
+            _loan.interest,
+            _loan.scaledAmount,
+            block.timestamp
+        );
+    }
+}
@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/interfaces/IERC3156FlashBorrower.sol";
+import "@openzeppelin/contracts/interfaces/IERC3156FlashLender.sol";
+import "@openzeppelin/contracts/token/ERC20/IERC20.sol";
+
+/**
+ * @title MockFlashBorrower
+ * @dev Flash borrower for tests that approves the amount plus the fee, so the loan is repaid.
+ * It must hold enough tokens to pay the fee.
+ */
+contract MockFlashBorrower is IERC3156FlashBorrower {
+    IERC3156FlashLender internal lender;
+    uint256 public balanceDuringLoan; // token balance seen in the last callback
+
+    /**
+     * @dev Constructor to set the flash lender
+     * @param _lender The lender to borrow from
+     */
+    constructor(IERC3156FlashLender _lender) {
+        lender = _lender;
+    }
+
+    /**
+     * @dev Function to take a flash loan
+     * @param _token The token to borrow
+     * @param _amount The amount of tokens to borrow
+     */
+    function flashBorrow(address _token, uint256 _amount) external {
+        lender.flashLoan(this, _token, _amount, "");
+    }
+
+    /**
+     * @dev Callback of the lender, approves the repayment of the loan
+     */
+    function onFlashLoan(
+        address _initiator,
+        address _token,
+        uint256 _amount,
+        uint256 _fee,
+        bytes calldata
+    ) external virtual returns (bytes32) {
+        require(msg.sender == address(lender), "Untrusted lender");
+        require(_initiator == address(this), "Untrusted initiator");
+
+        balanceDuringLoan = IERC20(_token).balanceOf(address(this));
+        IERC20(_token).approve(msg.sender, repayment(_amount, _fee));
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+
+    /**
+     * @dev Amount of tokens approved to the lender
+     */
+    function repayment(
+        uint256 _amount,
+        uint256 _fee
+    ) internal pure virtual returns (uint256) {
+        return _amount + _fee;
+    }
+}
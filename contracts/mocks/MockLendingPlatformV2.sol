@@ -0,0 +1,31 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "../LendingPlatformWithCollateral.sol";
+
+/**
+ * @title MockLendingPlatformV2
+ * @dev Next version of LendingPlatformWithCollateral for tests that upgrade a live platform.
+ * Its new state is appended after the existing state, so the storage layout stays compatible.
+ * It is initialized by the version it upgrades, so it has no initializer of its own.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MockLendingPlatformV2 is LendingPlatformWithCollateral {
+    uint256 public upgradeNote; // State added by this version
+
+    /**
+     * @dev Function to set the state added by this version
+     * @param _note The value to store
+     */
+    function setUpgradeNote(uint256 _note) external onlyOwner {
+        upgradeNote = _note;
+    }
+
+    /**
+     * @dev Function to get the version of the implementation
+     */
+    function version() external pure returns (uint256) {
+        return 2;
+    }
+}
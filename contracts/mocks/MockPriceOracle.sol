@@ -0,0 +1,44 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "../interfaces/IPriceOracle.sol";
+
+/**
+ * @title MockPriceOracle
+ * @dev Price oracle for local and test networks whose price is pushed by the owner.
+ * The update time is the timestamp of the block that set the price.
+ */
+contract MockPriceOracle is IPriceOracle, Ownable {
+    uint256 internal price;
+    uint256 internal updatedAt;
+
+    event PriceUpdated(uint256 price, uint256 updatedAt);
+
+    /**
+     * @dev Constructor to set the initial price
+     * @param _initialPrice Amount of lending tokens per Ether, scaled by 1e18
+     */
+    constructor(uint256 _initialPrice) Ownable(msg.sender) {
+        setPrice(_initialPrice);
+    }
+
+    /**
+     * @dev Function to update the price, only callable by the owner
+     * @param _price Amount of lending tokens per Ether, scaled by 1e18
+     */
+    function setPrice(uint256 _price) public onlyOwner {
+        price = _price;
+        updatedAt = block.timestamp;
+
+        emit PriceUpdated(_price, block.timestamp);
+    }
+
+    /**
+     * @dev Function to get the latest price and the time it was last updated
+     */
+    function latestPrice() external view returns (uint256, uint256) {
+        return (price, updatedAt);
+    }
+}
@@ -0,0 +1,50 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "./MockFlashBorrower.sol";
+import "../LendingPlatform.sol";
+
+/**
+ * @title MockReentrantFlashBorrower
+ * @dev Flash borrower for tests that calls borrow or repay on the lending platform during the callback.
+ */
+contract MockReentrantFlashBorrower is MockFlashBorrower {
+    enum Action {
+        Borrow,
+        Repay
+    }
+
+    Action public action; // call made during the callback
+
+    /**
+     * @dev Constructor to set the lending platform and the call to make
+     * @param _platform The lending platform to borrow from
+     * @param _action The call made during the callback
+     */
+    constructor(
+        LendingPlatform _platform,
+        Action _action
+    ) MockFlashBorrower(_platform) {
+        action = _action;
+    }
+
+    /**
+     * @dev Calls back into the platform, which the reentrancy guard rejects
+     */
+    function onFlashLoan(
+        address,
+        address,
+        uint256 _amount,
+        uint256,
+        bytes calldata
+    ) external override returns (bytes32) {
+        LendingPlatform platform = LendingPlatform(address(lender));
+        if (action == Action.Borrow) {
+            platform.borrow(_amount);
+        } else {
+            platform.repay();
+        }
+        return keccak256("ERC3156FlashBorrower.onFlashLoan");
+    }
+}
@@ -0,0 +1,24 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "../LendingPlatformWithCollateral.sol";
+
+/**
+ * @dev State declared ahead of the state of the platform
+ */
+abstract contract ShiftedLayout {
+    uint256 internal shift;
+}
+
+/**
+ * @title MockShiftedLendingPlatform
+ * @dev Version of LendingPlatformWithCollateral whose state is moved one slot down by ShiftedLayout.
+ * Upgrading to it would read the loans and collateral from the wrong slots, so the upgrade checks reject it.
+ * It is initialized by the version it upgrades, so it has no initializer of its own.
+ * @custom:oz-upgrades-unsafe-allow missing-initializer
+ */
+contract MockShiftedLendingPlatform is
+    ShiftedLayout,
+    LendingPlatformWithCollateral
+{}
@@ -0,0 +1,27 @@
+// SPDX-License-Identifier: MIT
+// Compatible with OpenZeppelin Contracts ^5.0.0
+pragma solidity ^0.8.20;
+
+import "./MockFlashBorrower.sol";
+
+/**
+ * @title MockUnderpayingFlashBorrower
+ * @dev Flash borrower for tests that only approves the amount borrowed, without the fee.
+ */
+contract MockUnderpayingFlashBorrower is MockFlashBorrower {
+    /**
+     * @dev Constructor to set the flash lender
+     * @param _lender The lender to borrow from
+     */
+    constructor(IERC3156FlashLender _lender) MockFlashBorrower(_lender) {}
+
+    /**
+     * @dev Leaves out the fee
+     */
+    function repayment(
+        uint256 _amount,
+        uint256
+    ) internal pure override returns (uint256) {
+        return _amount;
+    }
+}
@@ -1,8 +1,26 @@
 import { HardhatUserConfig } from "hardhat/config";
 import "@nomicfoundation/hardhat-toolbox";
+import "@openzeppelin/hardhat-upgrades";
+import "./tasks/admin";
+import "./tasks/api";
+import "./tasks/indexer";
+import "./tasks/keeper";
+import "./tasks/lending";
+import "./tasks/oracle";
+import "./tasks/simulation";
 
 const config: HardhatUserConfig = {
-  solidity: "0.8.24",
+  solidity: {
+    version: "0.8.24",
+    settings: {
+      // Optimizes for size rather than gas and uses PUSH0. Even so, the
+      // implementation of LendingPlatformWithCollateral is close to the 24 KiB
+      // contract size limit, so logic that does not fit goes into linked
+      // libraries such as ChangeQueue (see the Upgrades section of the README)
+      optimizer: { enabled: true, runs: 1 },
+      evmVersion: "cancun",
+    },
+  },
 };
 
 export default config;
@@ -0,0 +1,26 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Yearly rates in percent and the kink utilization, all scaled by 1e18:
+// 5% when idle, rising to 20% at 80% utilization and to 80% when fully lent out
+const BASE_RATE: bigint = 5n * 10n ** 18n;
+const SLOPE_1: bigint = 15n * 10n ** 18n;
+const SLOPE_2: bigint = 60n * 10n ** 18n;
+const KINK: bigint = 8n * 10n ** 17n;
+
+const KinkedRateModelModule = buildModule("KinkedRateModelModule", (m) => {
+  const baseRate = m.getParameter("baseRate", BASE_RATE);
+  const slope1 = m.getParameter("slope1", SLOPE_1);
+  const slope2 = m.getParameter("slope2", SLOPE_2);
+  const kink = m.getParameter("kink", KINK);
+
+  const rateModel = m.contract("KinkedRateModel", [
+    baseRate,
+    slope1,
+    slope2,
+    kink,
+  ]);
+
+  return { rateModel };
+});
+
+export default KinkedRateModelModule;
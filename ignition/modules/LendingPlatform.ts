@@ -0,0 +1,35 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import MyTokenModule from "./MyToken";
+import KinkedRateModelModule from "./KinkedRateModel";
+
+const LendingPlatformModule = buildModule("LendingPlatformModule", (m) => {
+  const { myToken } = m.useModule(MyTokenModule);
+  const { rateModel } = m.useModule(KinkedRateModelModule);
+
+  // The proxy keeps the state and runs the code of the implementation,
+  // which links the timelock and loan libraries
+  const changeQueue = m.library("ChangeQueue");
+  const loanBook = m.library("LoanBook");
+  const implementation = m.contract("LendingPlatform", [], {
+    id: "LendingPlatformImplementation",
+    libraries: { ChangeQueue: changeQueue, LoanBook: loanBook },
+  });
+  const proxy = m.contract("TransparentUpgradeableProxy", [
+    implementation,
+    m.getAccount(0),
+    m.encodeFunctionCall(implementation, "initialize", [myToken, rateModel]),
+  ]);
+  const lendingPlatform = m.contractAt("LendingPlatform", proxy);
+
+  // Hand the ProxyAdmin created by the proxy over to the platform, so
+  // upgrades go through its timelock
+  const proxyAdmin = m.contractAt(
+    "ProxyAdmin",
+    m.readEventArgument(proxy, "AdminChanged", "newAdmin")
+  );
+  m.call(proxyAdmin, "transferOwnership", [lendingPlatform]);
+
+  return { myToken, rateModel, lendingPlatform, proxyAdmin };
+});
+
+export default LendingPlatformModule;
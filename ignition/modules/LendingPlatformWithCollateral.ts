@@ -0,0 +1,62 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import MyTokenModule from "./MyToken";
+import KinkedRateModelModule from "./KinkedRateModel";
+import MockPriceOracleModule from "./MockPriceOracle";
+
+// Oracle prices older than this (in seconds) are rejected by the platform
+const MAX_PRICE_AGE = 60 * 60;
+// Liquidators repay up to half of a debt at once and receive 5% extra collateral
+const CLOSE_FACTOR = 50;
+const LIQUIDATION_BONUS = 5;
+
+const LendingPlatformWithCollateralModule = buildModule(
+  "LendingPlatformWithCollateralModule",
+  (m) => {
+    const { myToken } = m.useModule(MyTokenModule);
+    const { rateModel } = m.useModule(KinkedRateModelModule);
+    const { priceOracle } = m.useModule(MockPriceOracleModule);
+    const maxPriceAge = m.getParameter("maxPriceAge", MAX_PRICE_AGE);
+    const closeFactor = m.getParameter("closeFactor", CLOSE_FACTOR);
+    const liquidationBonus = m.getParameter(
+      "liquidationBonus",
+      LIQUIDATION_BONUS
+    );
+
+    // The proxy keeps the state and runs the code of the implementation,
+    // which links the timelock and loan libraries
+    const changeQueue = m.library("ChangeQueue");
+    const loanBook = m.library("LoanBook");
+    const implementation = m.contract("LendingPlatformWithCollateral", [], {
+      id: "LendingPlatformWithCollateralImplementation",
+      libraries: { ChangeQueue: changeQueue, LoanBook: loanBook },
+    });
+    const proxy = m.contract("TransparentUpgradeableProxy", [
+      implementation,
+      m.getAccount(0),
+      m.encodeFunctionCall(implementation, "initialize", [
+        myToken,
+        rateModel,
+        priceOracle,
+        maxPriceAge,
+        closeFactor,
+        liquidationBonus,
+      ]),
+    ]);
+    const lendingPlatform = m.contractAt(
+      "LendingPlatformWithCollateral",
+      proxy
+    );
+
+    // Hand the ProxyAdmin created by the proxy over to the platform, so
+    // upgrades go through its timelock
+    const proxyAdmin = m.contractAt(
+      "ProxyAdmin",
+      m.readEventArgument(proxy, "AdminChanged", "newAdmin")
+    );
+    m.call(proxyAdmin, "transferOwnership", [lendingPlatform]);
+
+    return { myToken, rateModel, priceOracle, lendingPlatform, proxyAdmin };
+  }
+);
+
+export default LendingPlatformWithCollateralModule;
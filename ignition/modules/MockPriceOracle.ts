@@ -0,0 +1,14 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Lending tokens per Ether, scaled by 1e18 (1 ETH = 2000 tokens)
+const ETH_PRICE: bigint = 2000n * 10n ** 18n;
+
+const MockPriceOracleModule = buildModule("MockPriceOracleModule", (m) => {
+  const ethPrice = m.getParameter("ethPrice", ETH_PRICE);
+
+  const priceOracle = m.contract("MockPriceOracle", [ethPrice]);
+
+  return { priceOracle };
+});
+
+export default MockPriceOracleModule;
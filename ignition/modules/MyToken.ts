@@ -0,0 +1,14 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Whole tokens minted to the deployer; MyToken scales this by decimals()
+const INITIAL_SUPPLY = 1000;
+
+const MyTokenModule = buildModule("MyTokenModule", (m) => {
+  const initialSupply = m.getParameter("initialSupply", INITIAL_SUPPLY);
+
+  const myToken = m.contract("MyToken", [initialSupply]);
+
+  return { myToken };
+});
+
+export default MyTokenModule;
@@ -0,0 +1,58 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+import type {
+  CallableContractFuture,
+  IgnitionModule,
+  IgnitionModuleResult,
+} from "@nomicfoundation/ignition-core";
+import LendingPlatformModule from "./LendingPlatform";
+
+// Token amounts lent by the deployer are in base units (18 decimals),
+// while MyToken.mint() takes whole tokens and scales them itself.
+const SEED_AMOUNT: bigint = 500n * 10n ** 18n;
+const FUNDING_AMOUNT = 1000;
+
+// Hardhat node accounts that receive freshly minted tokens for testing
+const FUNDED_ACCOUNTS = [1, 2, 3];
+
+/**
+ * Builds a module that deploys a platform module, lends `seedAmount` into its
+ * pool and mints `fundingAmount` whole tokens to the funded accounts
+ * @param moduleId Id of the seeded module
+ * @param platformModule Module deploying MyToken and the platform
+ */
+export function buildSeededModule<
+  ModuleIdT extends string,
+  ContractNameT extends string,
+  ResultsT extends IgnitionModuleResult<ContractNameT> & {
+    myToken: CallableContractFuture<ContractNameT>;
+    lendingPlatform: CallableContractFuture<ContractNameT>;
+  }
+>(
+  moduleId: ModuleIdT,
+  platformModule: IgnitionModule<string, ContractNameT, ResultsT>
+) {
+  return buildModule(moduleId, (m) => {
+    const results = m.useModule(platformModule);
+    const { myToken, lendingPlatform } = results;
+    const seedAmount = m.getParameter("seedAmount", SEED_AMOUNT);
+    const fundingAmount = m.getParameter("fundingAmount", FUNDING_AMOUNT);
+
+    for (const index of FUNDED_ACCOUNTS) {
+      m.call(myToken, "mint", [m.getAccount(index), fundingAmount], {
+        id: `mint_account_${index}`,
+      });
+    }
+
+    const approve = m.call(myToken, "approve", [lendingPlatform, seedAmount]);
+    m.call(lendingPlatform, "lend", [seedAmount], { after: [approve] });
+
+    return results;
+  });
+}
+
+const SeededLendingPlatformModule = buildSeededModule(
+  "SeededLendingPlatformModule",
+  LendingPlatformModule
+);
+
+export default SeededLendingPlatformModule;
@@ -0,0 +1,9 @@
+import LendingPlatformWithCollateralModule from "./LendingPlatformWithCollateral";
+import { buildSeededModule } from "./SeededLendingPlatform";
+
+const SeededLendingPlatformWithCollateralModule = buildSeededModule(
+  "SeededLendingPlatformWithCollateralModule",
+  LendingPlatformWithCollateralModule
+);
+
+export default SeededLendingPlatformWithCollateralModule;
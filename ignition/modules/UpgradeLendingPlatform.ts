@@ -0,0 +1,33 @@
+import { buildModule } from "@nomicfoundation/hardhat-ignition/modules";
+
+// Deploys the current LendingPlatform code as a new implementation and
+// queues the upgrade of the platform at the "platform" parameter to it. The
+// upgrade goes through the timelock: run execute-change with the id of the
+// queued change once TIMELOCK_DELAY has passed. Run it through the
+// upgrade-platform task, which checks the storage layout of the new code
+// against the deployed platform first: the module itself does not.
+const UpgradeLendingPlatformModule = buildModule(
+  "UpgradeLendingPlatformModule",
+  (m) => {
+    const lendingPlatform = m.contractAt(
+      "LendingPlatform",
+      m.getParameter<string>("platform")
+    );
+
+    const changeQueue = m.library("ChangeQueue");
+    const loanBook = m.library("LoanBook");
+    const implementation = m.contract("LendingPlatform", [], {
+      id: "LendingPlatformImplementation",
+      libraries: { ChangeQueue: changeQueue, LoanBook: loanBook },
+    });
+    m.call(lendingPlatform, "queueChange", [
+      m.encodeFunctionCall(lendingPlatform, "upgradeImplementation", [
+        implementation,
+      ]),
+    ]);
+
+    return { lendingPlatform, implementation };
+  }
+);
+
+export default UpgradeLendingPlatformModule;
@@ -0,0 +1,175 @@
+import fs from "fs";
+import path from "path";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type {
+  MyToken,
+  LendingPlatformWithCollateral,
+} from "../typechain-types";
+
+export type PlatformContractName =
+  | "LendingPlatform"
+  | "LendingPlatformWithCollateral";
+
+/**
+ * Addresses of a stack deployed with the Ignition modules in ignition/modules
+ */
+export interface DeploymentAddresses {
+  myToken: string;
+  lendingPlatform: string;
+  contractName: PlatformContractName;
+}
+
+/**
+ * Contracts of a deployed stack, connected to the given runtime environment.
+ * The platform is typed as the collateral variant so callers can reach its
+ * extra functions; check contractName before calling them.
+ */
+export interface Deployment {
+  myToken: MyToken;
+  lendingPlatform: LendingPlatformWithCollateral;
+  contractName: PlatformContractName;
+}
+
+// Keys written by Ignition into deployed_addresses.json ("<module>#<contract>")
+const MY_TOKEN_KEY = "MyTokenModule#MyToken";
+const PLATFORM_KEYS: Record<PlatformContractName, string> = {
+  LendingPlatformWithCollateral:
+    "LendingPlatformWithCollateralModule#LendingPlatformWithCollateral",
+  LendingPlatform: "LendingPlatformModule#LendingPlatform",
+};
+
+/**
+ * Returns the directory Ignition uses for deployments on the given chain
+ * @param chainId Chain id of the network (31337 for a local Hardhat node)
+ */
+export function deploymentDir(chainId: bigint | number): string {
+  return path.join(
+    __dirname,
+    "..",
+    "ignition",
+    "deployments",
+    `chain-${chainId}`
+  );
+}
+
+/**
+ * Reads the addresses of a deployment from Ignition's deployed_addresses.json.
+ * The collateral platform is preferred when both platforms are deployed.
+ * @param dir Ignition deployment directory
+ */
+export function readDeployment(dir: string): DeploymentAddresses {
+  const file = path.join(dir, "deployed_addresses.json");
+  if (!fs.existsSync(file)) {
+    throw new Error(`No Ignition deployment found at ${dir}`);
+  }
+
+  const addresses: Record<string, string> = JSON.parse(
+    fs.readFileSync(file, "utf8")
+  );
+  if (addresses[MY_TOKEN_KEY] === undefined) {
+    throw new Error(`MyToken is not part of the deployment at ${dir}`);
+  }
+
+  for (const contractName of Object.keys(
+    PLATFORM_KEYS
+  ) as PlatformContractName[]) {
+    const lendingPlatform = addresses[PLATFORM_KEYS[contractName]];
+    if (lendingPlatform !== undefined) {
+      return {
+        myToken: addresses[MY_TOKEN_KEY],
+        lendingPlatform,
+        contractName,
+      };
+    }
+  }
+
+  throw new Error(`No lending platform is part of the deployment at ${dir}`);
+}
+
+/**
+ * Loads the contracts deployed by Ignition on the network hre is connected to
+ * @param hre Hardhat runtime environment
+ */
+export async function loadDeployment(
+  hre: HardhatRuntimeEnvironment
+): Promise<Deployment> {
+  const { chainId } = await hre.ethers.provider.getNetwork();
+  const addresses = readDeployment(deploymentDir(chainId));
+
+  const myToken = await hre.ethers.getContractAt("MyToken", addresses.myToken);
+  // The collateral ABI is a superset of the base one, so it fits both platforms
+  const lendingPlatform = await hre.ethers.getContractAt(
+    "LendingPlatformWithCollateral",
+    addresses.lendingPlatform
+  );
+
+  return { myToken, lendingPlatform, contractName: addresses.contractName };
+}
+
+/**
+ * Options the upgrades plugin needs for the platforms, which run behind a
+ * transparent proxy and link the ChangeQueue and LoanBook libraries. The
+ * plugin cannot check the code of linked libraries, only the storage layout
+ * of the platform.
+ */
+export const PLATFORM_UPGRADE_OPTIONS = {
+  kind: "transparent",
+  unsafeAllowLinkedLibraries: true,
+} as const;
+
+/**
+ * Addresses of the libraries the platform implementations link
+ */
+export interface PlatformLibraries {
+  ChangeQueue: string;
+  LoanBook: string;
+}
+
+/**
+ * Returns the factory of a platform implementation, linked to the given
+ * libraries
+ * @param hre Hardhat runtime environment
+ * @param contractName Platform contract, or a later version of it
+ * @param libraries Addresses of the deployed libraries
+ */
+export async function getPlatformFactory(
+  hre: HardhatRuntimeEnvironment,
+  contractName: string,
+  libraries: PlatformLibraries
+) {
+  return hre.ethers.getContractFactory(contractName, {
+    libraries: { ...libraries },
+  });
+}
+
+/**
+ * Returns the factory of a deployed platform implementation, linked to the
+ * libraries it was deployed with. The upgrades plugin tells implementations
+ * apart by their bytecode, so recording one with a factory linked to other
+ * libraries would overwrite the entry of another implementation.
+ * @param hre Hardhat runtime environment
+ * @param contractName Platform contract the implementation was deployed from
+ * @param implementation Address of the implementation
+ */
+export async function getImplementationFactory(
+  hre: HardhatRuntimeEnvironment,
+  contractName: PlatformContractName,
+  implementation: string
+) {
+  const artifact = await hre.artifacts.readArtifact(contractName);
+  const code = await hre.ethers.provider.getCode(implementation);
+  // Reads the address of each library from its first link in the code
+  const linked = (library: keyof PlatformLibraries) => {
+    const [{ start }] =
+      artifact.deployedLinkReferences[`contracts/libraries/${library}.sol`][
+        library
+      ];
+    return hre.ethers.getAddress(
+      "0x" + code.slice(2 + start * 2, 2 + (start + 20) * 2)
+    );
+  };
+  return getPlatformFactory(hre, contractName, {
+    ChangeQueue: linked("ChangeQueue"),
+    LoanBook: linked("LoanBook"),
+  });
+}
@@ -0,0 +1,670 @@
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  setBalance,
+  takeSnapshot,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import { MaxUint256, parseEther } from "ethers";
+import type { LendingPlatformWithCollateral } from "../typechain-types";
+import LendingPlatformWithCollateralModule from "../ignition/modules/LendingPlatformWithCollateral";
+import { PRICE_PRECISION } from "../sdk/collateral";
+import { decodeLendingError } from "../sdk/errors";
+import { RATE_PRECISION, SECONDS_PER_YEAR } from "../sdk/interest";
+import { LiquidationKeeper } from "../sdk/keeper";
+import { readLoans } from "../sdk/LendingClient";
+import { createRandom } from "./random";
+
+/**
+ * Parameters of LendingPlatformWithCollateral and its rate model
+ */
+export interface MarketConfig {
+  // Yearly rates in percent and the kink utilization as a fraction, like the
+  // parameters of KinkedRateModelModule before scaling
+  baseRate: number;
+  slope1: number;
+  slope2: number;
+  kink: number;
+  // Percentages of the debt, like setRatios and the initializer
+  collateralizationRatio: number;
+  liquidationRatio: number;
+  closeFactor: number;
+  liquidationBonus: number;
+}
+
+/**
+ * Price path of Ether in lending tokens: a seeded random walk, optionally
+ * pulled down by a drawdown
+ */
+export interface PriceConfig {
+  // Lending tokens per Ether at the start
+  initial: number;
+  // Largest move of the walk in one epoch, as a fraction of the price
+  volatility: number;
+  // Trend added to every move, as a fraction of the price
+  drift: number;
+  // Fall of the price in percent, spread linearly from fromEpoch to toEpoch
+  // and kept until the end
+  drawdown?: { percent: number; fromEpoch: number; toEpoch: number };
+}
+
+/**
+ * Accounts that lend their tokens at the start and keep them in the pool
+ */
+export interface LenderConfig {
+  count: number;
+  // Whole tokens lent by each lender
+  deposit: number;
+}
+
+/**
+ * Accounts that borrow against Ether collateral and repay at random
+ */
+export interface BorrowerConfig {
+  count: number;
+  // Ether collateral each borrower holds in the platform when taking a loan
+  collateral: number;
+  // Share of the borrowing capacity taken by a loan, as a fraction
+  borrowFraction: number;
+  // Chance to take a loan in an epoch without one
+  borrowProbability: number;
+  // Chance to repay the loan in an epoch with one
+  repayProbability: number;
+  // Whole tokens each borrower holds to pay interest
+  reserve: number;
+}
+
+/**
+ * Accounts that run a LiquidationKeeper every epoch
+ */
+export interface LiquidatorConfig {
+  count: number;
+  // Whole tokens each liquidator holds to repay debts
+  balance: number;
+}
+
+export interface SimulationConfig {
+  // Name of the scenario in the results
+  name: string;
+  seed: number;
+  epochs: number;
+  // Seconds the clock is advanced by every epoch
+  epochLength: number;
+  market: MarketConfig;
+  price: PriceConfig;
+  lenders: LenderConfig;
+  borrowers: BorrowerConfig;
+  liquidators: LiquidatorConfig;
+}
+
+/**
+ * Scenario changing some of the parameters of another, usually the defaults
+ */
+export type SimulationOverrides = {
+  [K in keyof SimulationConfig]?: SimulationConfig[K] extends object
+    ? Partial<SimulationConfig[K]>
+    : SimulationConfig[K];
+};
+
+/**
+ * State of the pool at the end of an epoch and what happened during it.
+ * Token amounts are in base units, rates and utilization scaled by 1e18.
+ */
+export interface EpochRecord {
+  epoch: number;
+  // Seconds since the first epoch started
+  elapsed: number;
+  price: bigint;
+  tokenBalance: bigint;
+  totalBorrowed: bigint;
+  utilization: bigint;
+  interestRate: bigint;
+  totalAssets: bigint;
+  // Interest paid into the pool during the epoch, by borrowers and
+  // liquidators
+  interestEarned: bigint;
+  // Interest owed on the open loans and not paid yet
+  accruedInterest: bigint;
+  activeLoans: number;
+  borrows: number;
+  repayments: number;
+  // Borrows and repayments the platform rejected, e.g. for lack of liquidity
+  failedActions: number;
+  liquidations: number;
+  // Debt repaid by liquidators
+  liquidatedDebt: bigint;
+  // Ether collateral seized by liquidators
+  collateralSeized: bigint;
+  // Debt written off during the epoch
+  badDebt: bigint;
+  // Loans whose debt is worth more than their collateral
+  insolventLoans: number;
+  // Debt of the insolvent loans not covered by their collateral
+  shortfall: bigint;
+}
+
+export interface SimulationSummary {
+  name: string;
+  seed: number;
+  epochs: number;
+  // Tokens lent at the start
+  deposits: bigint;
+  interestEarned: bigint;
+  badDebt: bigint;
+  liquidations: number;
+  // Value of the pool above the deposits at the end
+  lenderProfit: bigint;
+  // Profit of the lenders as a yearly rate in percent, scaled by 1e18
+  lenderApy: bigint;
+  averageUtilization: bigint;
+  maxUtilization: bigint;
+  maxShortfall: bigint;
+  insolventLoans: number;
+}
+
+export interface SimulationResult {
+  config: SimulationConfig;
+  epochs: EpochRecord[];
+  summary: SimulationSummary;
+}
+
+/**
+ * Scenario the overrides apply to: the market of the Ignition modules with a
+ * price moving up to 5% a day, over 30 daily epochs
+ */
+export const DEFAULT_SIMULATION_CONFIG: SimulationConfig = {
+  name: "default",
+  seed: 1,
+  epochs: 30,
+  epochLength: 24 * 60 * 60,
+  market: {
+    baseRate: 5,
+    slope1: 15,
+    slope2: 60,
+    kink: 0.8,
+    collateralizationRatio: 150,
+    liquidationRatio: 110,
+    closeFactor: 50,
+    liquidationBonus: 5,
+  },
+  price: { initial: 2000, volatility: 0.05, drift: 0 },
+  lenders: { count: 3, deposit: 5000 },
+  borrowers: {
+    count: 8,
+    collateral: 1,
+    borrowFraction: 0.9,
+    borrowProbability: 0.5,
+    repayProbability: 0.1,
+    reserve: 100,
+  },
+  liquidators: { count: 2, balance: 2000 },
+};
+
+/**
+ * Applies a scenario to a base configuration, merging the parameter groups
+ * @param base Configuration to start from
+ * @param overrides Parameters to change
+ */
+export function mergeConfig(
+  base: SimulationConfig,
+  overrides: SimulationOverrides
+): SimulationConfig {
+  return {
+    ...base,
+    ...overrides,
+    market: { ...base.market, ...overrides.market },
+    price: { ...base.price, ...overrides.price },
+    lenders: { ...base.lenders, ...overrides.lenders },
+    borrowers: { ...base.borrowers, ...overrides.borrowers },
+    liquidators: { ...base.liquidators, ...overrides.liquidators },
+  };
+}
+
+/**
+ * Generates the oracle price of every epoch, the initial price first
+ * @param config Price path parameters
+ * @param epochs Number of epochs after the initial price
+ * @param random Source of randomness, such as createRandom(seed)
+ * @returns Lending tokens per Ether scaled by 1e18, epochs + 1 prices
+ */
+export function generatePricePath(
+  config: PriceConfig,
+  epochs: number,
+  random: () => number
+): bigint[] {
+  const prices = [toPrice(config.initial)];
+  let walk = config.initial;
+  for (let epoch = 1; epoch <= epochs; epoch++) {
+    walk *= 1 + config.drift + config.volatility * (2 * random() - 1);
+
+    let price = walk;
+    if (config.drawdown !== undefined) {
+      const { percent, fromEpoch, toEpoch } = config.drawdown;
+      // Share of the drawdown reached at this epoch
+      const progress =
+        toEpoch > fromEpoch
+          ? (epoch - fromEpoch) / (toEpoch - fromEpoch)
+          : epoch - fromEpoch + 1;
+      price *= 1 - (percent / 100) * Math.min(Math.max(progress, 0), 1);
+    }
+    prices.push(toPrice(price));
+  }
+  return prices;
+}
+
+/**
+ * Converts a price in tokens per Ether to the scale of the oracle, keeping
+ * six decimals
+ */
+function toPrice(price: number): bigint {
+  // A price of zero is rejected by the platform
+  const micros = BigInt(Math.max(Math.round(price * 1e6), 1));
+  return (micros * PRICE_PRECISION) / 10n ** 6n;
+}
+
+/**
+ * Deploys a fresh LendingPlatformWithCollateral with the Ignition module and
+ * drives lenders, borrowers and liquidators along a seeded price path, one
+ * epoch at a time. The network is reverted afterwards, so runs do not affect
+ * each other.
+ *
+ * Every epoch the clock is advanced by epochLength, the oracle moves to the
+ * next price, the liquidators run their keeper in turn and the borrowers
+ * borrow or repay at random. The pool is then recorded.
+ * @param hre Hardhat runtime environment, on the hardhat network
+ * @param config Scenario to run
+ */
+export async function runSimulation(
+  hre: HardhatRuntimeEnvironment,
+  config: SimulationConfig
+): Promise<SimulationResult> {
+  // Ignition would record the deployments of other networks on disk
+  if (hre.network.name !== "hardhat") {
+    throw new Error("The simulation only runs on the hardhat network");
+  }
+  const [owner, ...accounts] = await hre.ethers.getSigners();
+  const { lenders, borrowers, liquidators, market } = config;
+  const needed = lenders.count + borrowers.count + liquidators.count;
+  if (needed > accounts.length) {
+    throw new Error(
+      `The simulation needs ${needed} accounts, but only ${accounts.length} are configured`
+    );
+  }
+
+  const snapshot = await takeSnapshot();
+  try {
+    const prices = generatePricePath(
+      config.price,
+      config.epochs,
+      createRandom(config.seed)
+    );
+    const random = createRandom(config.seed + 1);
+
+    const deployment = await hre.ignition.deploy(
+      LendingPlatformWithCollateralModule,
+      {
+        parameters: {
+          KinkedRateModelModule: {
+            baseRate: parseEther(String(market.baseRate)),
+            slope1: parseEther(String(market.slope1)),
+            slope2: parseEther(String(market.slope2)),
+            kink: parseEther(String(market.kink)),
+          },
+          MockPriceOracleModule: { ethPrice: prices[0] },
+          LendingPlatformWithCollateralModule: {
+            closeFactor: market.closeFactor,
+            liquidationBonus: market.liquidationBonus,
+          },
+        },
+      }
+    );
+    const myToken = await hre.ethers.getContractAt(
+      "MyToken",
+      await deployment.myToken.getAddress()
+    );
+    const priceOracle = await hre.ethers.getContractAt(
+      "MockPriceOracle",
+      await deployment.priceOracle.getAddress()
+    );
+    const lendingPlatform = await hre.ethers.getContractAt(
+      "LendingPlatformWithCollateral",
+      await deployment.lendingPlatform.getAddress()
+    );
+    const fromBlock = await hre.ethers.provider.getBlockNumber();
+
+    // The ratios of the initializer change through the timelock
+    if (
+      BigInt(market.collateralizationRatio) !==
+        (await lendingPlatform.collateralizationRatio()) ||
+      BigInt(market.liquidationRatio) !==
+        (await lendingPlatform.liquidationRatio())
+    ) {
+      const setRatios = lendingPlatform.interface.encodeFunctionData(
+        "setRatios",
+        [market.collateralizationRatio, market.liquidationRatio]
+      );
+      await lendingPlatform.queueChange(setRatios);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      await lendingPlatform.executeChange(setRatios);
+    }
+
+    const lenderAccounts = accounts.slice(0, lenders.count);
+    const borrowerAccounts = accounts.slice(
+      lenders.count,
+      lenders.count + borrowers.count
+    );
+    const liquidatorAccounts = accounts.slice(
+      lenders.count + borrowers.count,
+      needed
+    );
+
+    for (const lender of lenderAccounts) {
+      await myToken.mint(lender.address, lenders.deposit);
+      await myToken.connect(lender).approve(lendingPlatform, MaxUint256);
+      await lendingPlatform
+        .connect(lender)
+        .lend(parseEther(String(lenders.deposit)));
+    }
+    // Enough Ether to replace the collateral lost to liquidations every epoch
+    const etherBalance =
+      parseEther(String(borrowers.collateral)) * BigInt(config.epochs + 1) +
+      parseEther("10");
+    for (const borrower of borrowerAccounts) {
+      await setBalance(borrower.address, etherBalance);
+      await myToken.mint(borrower.address, borrowers.reserve);
+      await myToken.connect(borrower).approve(lendingPlatform, MaxUint256);
+    }
+    const keepers = [];
+    for (const liquidator of liquidatorAccounts) {
+      await myToken.mint(liquidator.address, liquidators.balance);
+      keepers.push(
+        new LiquidationKeeper(lendingPlatform, myToken, liquidator, {
+          fromBlock,
+          logger: () => undefined,
+        })
+      );
+    }
+
+    const deposits = await lendingPlatform.totalAssets();
+    const startTime = await time.latest();
+    const records: EpochRecord[] = [];
+    let totalAssets = deposits;
+    for (let epoch = 1; epoch <= config.epochs; epoch++) {
+      const epochStart = (await hre.ethers.provider.getBlockNumber()) + 1;
+      await time.increase(config.epochLength);
+      await priceOracle.connect(owner).setPrice(prices[epoch]);
+
+      // The liquidators take turns being first
+      for (let i = 0; i < keepers.length; i++) {
+        await keepers[(epoch + i) % keepers.length].runOnce();
+      }
+
+      let failedActions = 0;
+      for (const borrower of borrowerAccounts) {
+        const acted = await actAsBorrower(
+          lendingPlatform,
+          borrower,
+          borrowers,
+          random()
+        );
+        if (!acted) {
+          failedActions++;
+        }
+      }
+
+      const record = await recordEpoch(
+        lendingPlatform,
+        borrowerAccounts,
+        epochStart,
+        totalAssets
+      );
+      records.push({
+        ...record,
+        epoch,
+        elapsed: (await time.latest()) - startTime,
+        price: prices[epoch],
+        failedActions,
+      });
+      totalAssets = record.totalAssets;
+    }
+
+    return {
+      config,
+      epochs: records,
+      summary: summarize(config, deposits, records),
+    };
+  } finally {
+    await snapshot.restore();
+  }
+}
+
+/**
+ * Borrows or repays for one borrower, depending on the draw
+ * @param lendingPlatform Platform to act on
+ * @param borrower Borrower account
+ * @param config Behaviour of the borrowers
+ * @param draw Random number in [0, 1)
+ * @returns False if the platform rejected the action
+ */
+async function actAsBorrower(
+  lendingPlatform: LendingPlatformWithCollateral,
+  borrower: HardhatEthersSigner,
+  config: BorrowerConfig,
+  draw: number
+): Promise<boolean> {
+  const platform = lendingPlatform.connect(borrower);
+  try {
+    // The borrowers only take the open-ended loan 0
+    if ((await platform.getLoan(borrower.address, 0)).active) {
+      if (draw < config.repayProbability) {
+        await platform.repay();
+      }
+      return true;
+    }
+
+    if (draw < config.borrowProbability) {
+      // Repayments release the collateral and liquidations seize some of it,
+      // so it is topped up before every loan
+      const collateral = parseEther(String(config.collateral));
+      const deposited = await platform.collateralEther(borrower.address);
+      if (deposited < collateral) {
+        await platform.depositCollateral({ value: collateral - deposited });
+      }
+
+      const capacity = await platform.getBorrowingCapacity(borrower.address);
+      const available = await platform.getTokenBalance();
+      let amount =
+        (capacity * BigInt(Math.round(config.borrowFraction * 1e6))) /
+        10n ** 6n;
+      amount = amount < available ? amount : available;
+      if (amount > 0n) {
+        await platform.borrow(amount);
+      }
+    }
+    return true;
+  } catch (error) {
+    if (decodeLendingError(error) === undefined) {
+      throw error;
+    }
+    return false;
+  }
+}
+
+/**
+ * Reads the state of the pool and the events of the epoch
+ * @param lendingPlatform Platform to read
+ * @param borrowers Borrower accounts
+ * @param fromBlock First block of the epoch
+ * @param previousTotalAssets Total assets at the end of the previous epoch
+ */
+async function recordEpoch(
+  lendingPlatform: LendingPlatformWithCollateral,
+  borrowers: HardhatEthersSigner[],
+  fromBlock: number,
+  previousTotalAssets: bigint
+) {
+  const price = await lendingPlatform.getPrice();
+  const totalBorrowed = await lendingPlatform.getTotalBorrowed();
+  const totalAssets = await lendingPlatform.totalAssets();
+
+  let activeLoans = 0;
+  let accruedInterest = 0n;
+  let insolventLoans = 0;
+  let shortfall = 0n;
+  for (const borrower of borrowers) {
+    const loans = await readLoans(lendingPlatform, borrower.address);
+    if (loans.length === 0) {
+      continue;
+    }
+    activeLoans += loans.length;
+    const debt = await lendingPlatform.getAmountOwed(borrower.address);
+    accruedInterest += loans.reduce((sum, loan) => sum - loan.amount, debt);
+    const collateralValue =
+      ((await lendingPlatform.collateralEther(borrower.address)) * price) /
+      PRICE_PRECISION;
+    if (debt > collateralValue) {
+      insolventLoans++;
+      shortfall += debt - collateralValue;
+    }
+  }
+
+  const liquidated = await lendingPlatform.queryFilter(
+    lendingPlatform.filters.Liquidated(),
+    fromBlock
+  );
+  let liquidatedDebt = 0n;
+  let collateralSeized = 0n;
+  let badDebt = 0n;
+  let principalWrittenOff = 0n;
+  for (const event of liquidated) {
+    liquidatedDebt += event.args.repaidAmount;
+    collateralSeized += event.args.collateralSeized;
+    badDebt += event.args.badDebt;
+    if (event.args.badDebt > 0n) {
+      principalWrittenOff += await writtenOffPrincipal(
+        lendingPlatform,
+        event.transactionHash,
+        event.args.borrower,
+        event.args.repaidAmount
+      );
+    }
+  }
+
+  return {
+    tokenBalance: await lendingPlatform.getTokenBalance(),
+    totalBorrowed,
+    utilization: await lendingPlatform.getUtilization(),
+    interestRate: await lendingPlatform.getInterestRate(),
+    totalAssets,
+    // Only interest payments and write-offs change the total assets, as the
+    // lenders keep their deposits in the pool
+    interestEarned: totalAssets - previousTotalAssets + principalWrittenOff,
+    accruedInterest,
+    activeLoans,
+    borrows: (
+      await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanInitiated(),
+        fromBlock
+      )
+    ).length,
+    repayments: (
+      await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(),
+        fromBlock
+      )
+    ).length,
+    liquidations: liquidated.length,
+    liquidatedDebt,
+    collateralSeized,
+    badDebt,
+    insolventLoans,
+    shortfall,
+  };
+}
+
+/**
+ * Returns the principal a liquidation wrote off. The liquidation first
+ * accrues the interest of every loan, emitting a LoanUpdated for each in loan
+ * id order, then repays them in that order, interest first, and writes off
+ * the rest.
+ * @param lendingPlatform Platform that emitted the Liquidated event
+ * @param hash Hash of the liquidation transaction
+ * @param borrower Borrower whose debt was written off
+ * @param repaidAmount Amount the liquidator repaid
+ */
+async function writtenOffPrincipal(
+  lendingPlatform: LendingPlatformWithCollateral,
+  hash: string,
+  borrower: string,
+  repaidAmount: bigint
+): Promise<bigint> {
+  const receipt = await lendingPlatform.runner!.provider!.getTransactionReceipt(
+    hash
+  );
+  const accrued = new Map<bigint, { principal: bigint; interest: bigint }>();
+  for (const log of receipt?.logs ?? []) {
+    const parsed = lendingPlatform.interface.parseLog(log);
+    if (
+      parsed?.name === "LoanUpdated" &&
+      parsed.args.borrower === borrower &&
+      !accrued.has(parsed.args.loanId)
+    ) {
+      accrued.set(parsed.args.loanId, {
+        principal: parsed.args.principal,
+        interest: parsed.args.interest,
+      });
+    }
+  }
+
+  let left = repaidAmount;
+  let writtenOff = 0n;
+  for (const { principal, interest } of accrued.values()) {
+    const paid = left < principal + interest ? left : principal + interest;
+    const interestPaid = paid < interest ? paid : interest;
+    writtenOff += principal - (paid - interestPaid);
+    left -= paid;
+  }
+  return writtenOff;
+}
+
+/**
+ * Totals the epochs of a run
+ */
+function summarize(
+  config: SimulationConfig,
+  deposits: bigint,
+  records: EpochRecord[]
+): SimulationSummary {
+  const last = records[records.length - 1];
+  const lenderProfit = (last?.totalAssets ?? deposits) - deposits;
+  const elapsed = BigInt(last?.elapsed ?? 0);
+  const sum = (values: bigint[]) =>
+    values.reduce((total, value) => total + value, 0n);
+  const max = (values: bigint[]) =>
+    values.reduce((largest, value) => (value > largest ? value : largest), 0n);
+  const utilization = records.map((record) => record.utilization);
+
+  return {
+    name: config.name,
+    seed: config.seed,
+    epochs: records.length,
+    deposits,
+    interestEarned: sum(records.map((record) => record.interestEarned)),
+    badDebt: sum(records.map((record) => record.badDebt)),
+    liquidations: records.reduce(
+      (total, record) => total + record.liquidations,
+      0
+    ),
+    lenderProfit,
+    lenderApy:
+      deposits > 0n && elapsed > 0n
+        ? (lenderProfit * 100n * RATE_PRECISION * SECONDS_PER_YEAR) /
+          (deposits * elapsed)
+        : 0n,
+    averageUtilization:
+      records.length > 0 ? sum(utilization) / BigInt(records.length) : 0n,
+    maxUtilization: max(utilization),
+    maxShortfall: max(records.map((record) => record.shortfall)),
+    insolventLoans: last?.insolventLoans ?? 0,
+  };
+}
@@ -0,0 +1,825 @@
+import {
+  ContractTransactionReceipt,
+  ContractTransactionResponse,
+  LogDescription,
+  Signer,
+} from "ethers";
+import {
+  IERC20,
+  IERC20__factory,
+  LendingPlatformWithCollateral,
+  LendingPlatformWithCollateral__factory,
+  MyToken,
+  MyToken__factory,
+} from "../typechain-types";
+import {
+  InvalidTimestampError,
+  NoActiveLoanError,
+  decodeLendingError,
+} from "./errors";
+import {
+  calculatePenaltyInterest,
+  compoundBorrowIndex,
+  toDebt,
+} from "./interest";
+import { PERMIT_DURATION, PermitSignature, signPermit } from "./permit";
+
+// Extra time allowed for interest accrued between quoting and mining a repay
+export const REPAY_QUOTE_BUFFER = 300n;
+
+// Loans a borrower can have at once, MAX_LOANS in LoanBook.sol. Loan 0 is
+// the open-ended loan of borrow(), the others are fixed-term loans.
+export const MAX_LOANS = 4n;
+
+/**
+ * Active loan of a borrower. `interest` was checkpointed at `startTime`, and
+ * `amount` (the principal) accrues more from then on. `dueDate` is 0 for
+ * open-ended loans.
+ */
+export interface LoanDetails {
+  borrower: string;
+  loanId: bigint;
+  amount: bigint;
+  interest: bigint;
+  startTime: bigint;
+  dueDate: bigint;
+  // Debt divided by the borrow index, see toDebt
+  scaledAmount: bigint;
+}
+
+// Names of the LoanState values of the contract, in order
+export const LOAN_STATES = ["none", "current", "late", "defaulted"] as const;
+
+export type LoanState = (typeof LOAN_STATES)[number];
+
+/**
+ * Amount owed on one or more loans of a borrower at a given point in time
+ */
+export interface RepaymentQuote {
+  borrower: string;
+  principal: bigint;
+  interest: bigint;
+  total: bigint;
+  interestRate: bigint;
+  atTimestamp: bigint;
+}
+
+export interface TransactionResult {
+  hash: string;
+  blockNumber: number;
+}
+
+export interface LendResult extends TransactionResult {
+  lender: string;
+  amount: bigint;
+}
+
+export interface WithdrawResult extends TransactionResult {
+  lender: string;
+  amount: bigint;
+  shares: bigint;
+}
+
+/**
+ * Pool shares of a lender and the tokens they are worth
+ */
+export interface LenderPosition {
+  lender: string;
+  shares: bigint;
+  balance: bigint;
+  withdrawable: bigint;
+}
+
+export interface BorrowResult extends TransactionResult {
+  borrower: string;
+  loanId: bigint;
+  amount: bigint;
+  startTime: bigint;
+}
+
+/**
+ * Amount a delegate can borrow on behalf of a borrower
+ */
+export interface DelegationResult extends TransactionResult {
+  borrower: string;
+  delegate: string;
+  amount: bigint;
+}
+
+/**
+ * Part of a repayment that went to one loan
+ */
+export interface LoanRepayment {
+  loanId: bigint;
+  amount: bigint;
+  interest: bigint;
+  remainingDebt: bigint;
+  closed: boolean;
+}
+
+/**
+ * Repayment split into the interest and principal it paid. `remainingDebt`
+ * is left on all the loans of the borrower, and `closed` tells whether every
+ * loan the repayment reached was repaid in full.
+ */
+export interface RepayResult extends TransactionResult {
+  borrower: string;
+  amount: bigint;
+  principal: bigint;
+  interest: bigint;
+  remainingDebt: bigint;
+  closed: boolean;
+  timestamp: bigint;
+  loans: LoanRepayment[];
+}
+
+export interface CollateralResult extends TransactionResult {
+  user: string;
+  amount: bigint;
+}
+
+export interface CollateralTokenResult extends CollateralResult {
+  asset: string;
+}
+
+export interface LiquidationResult extends TransactionResult {
+  borrower: string;
+  liquidator: string;
+  // Zero address when Ether collateral was seized
+  collateralAsset: string;
+  repaidAmount: bigint;
+  collateralSeized: bigint;
+  badDebt: bigint;
+  remainingDebt: bigint;
+}
+
+/**
+ * Returns a loan of a borrower, or undefined if it is not active
+ * @param platform Platform the loan is on
+ * @param borrower Address of the borrower
+ * @param loanId Id of the loan, the open-ended loan 0 when omitted
+ */
+export async function readLoan(
+  platform: LendingPlatformWithCollateral,
+  borrower: string,
+  loanId = 0n
+): Promise<LoanDetails | undefined> {
+  const loan = await platform.getLoan(borrower, loanId);
+  if (!loan.active) {
+    return undefined;
+  }
+
+  return {
+    borrower,
+    loanId,
+    amount: loan.amount,
+    interest: loan.interest,
+    startTime: loan.startTime,
+    dueDate: loan.dueDate,
+    scaledAmount: loan.scaledAmount,
+  };
+}
+
+/**
+ * Returns the active loans of a borrower, in loan id order
+ * @param platform Platform the loans are on
+ * @param borrower Address of the borrower
+ */
+export async function readLoans(
+  platform: LendingPlatformWithCollateral,
+  borrower: string
+): Promise<LoanDetails[]> {
+  const loans = [];
+  for (let loanId = 0n; loanId < MAX_LOANS; loanId++) {
+    const loan = await readLoan(platform, borrower, loanId);
+    if (loan !== undefined) {
+      loans.push(loan);
+    }
+  }
+  return loans;
+}
+
+/**
+ * Computes what repaying the given loans will transfer from the borrower if
+ * mined at the given timestamp, mirroring amountOwed in the contract. Quote
+ * all the loans of the borrower for repay(), or one of them for repayLoan().
+ * The interest includes the penalty of overdue fixed-term loans. The borrow
+ * index is compounded at the current interest rate, so the quote only holds
+ * while the utilization of the pool does not change.
+ * @param platform Platform the loans are on
+ * @param loans Loans to quote, of the same borrower
+ * @param atTimestamp Block timestamp (in seconds) of the repayment
+ */
+export async function quoteLoanRepayment(
+  platform: LendingPlatformWithCollateral,
+  loans: LoanDetails[],
+  atTimestamp: bigint
+): Promise<RepaymentQuote> {
+  if (loans.length === 0) {
+    throw new NoActiveLoanError("No active loan");
+  }
+  if (loans.some((loan) => atTimestamp < loan.startTime)) {
+    throw new InvalidTimestampError(
+      "Cannot quote a repayment before the loan started"
+    );
+  }
+  const lastAccrualTime = await platform.lastAccrualTime();
+  if (atTimestamp < lastAccrualTime) {
+    throw new InvalidTimestampError(
+      "Cannot quote a repayment before the last accrual"
+    );
+  }
+
+  // The rate model sets the rate from the current utilization of the pool
+  const interestRate = await platform.getInterestRate();
+  const borrowIndex = compoundBorrowIndex(
+    await platform.borrowIndex(),
+    interestRate,
+    atTimestamp - lastAccrualTime
+  );
+  const penaltyRate = await platform.penaltyRate();
+  const gracePeriod = await platform.gracePeriod();
+  let principal = 0n;
+  let interest = 0n;
+  for (const loan of loans) {
+    principal += loan.amount;
+    interest +=
+      toDebt(loan.scaledAmount, borrowIndex) -
+      loan.amount +
+      calculatePenaltyInterest(loan, penaltyRate, gracePeriod, atTimestamp);
+  }
+  return {
+    borrower: loans[0].borrower,
+    principal,
+    interest,
+    total: principal + interest,
+    interestRate,
+    atTimestamp,
+  };
+}
+
+/**
+ * Client for LendingPlatform and LendingPlatformWithCollateral built on the
+ * typechain bindings. Token approvals are handled together with the action
+ * that needs them, and contract reverts are rethrown as LendingError
+ * subclasses (see errors.ts).
+ */
+export class LendingClient {
+  readonly platform: LendingPlatformWithCollateral;
+  readonly token: MyToken;
+
+  /**
+   * @param platformAddress Address of the lending platform
+   * @param tokenAddress Address of the MyToken the platform lends
+   * @param signer Account sending the transactions
+   */
+  constructor(
+    platformAddress: string,
+    tokenAddress: string,
+    readonly signer: Signer
+  ) {
+    this.platform = LendingPlatformWithCollateral__factory.connect(
+      platformAddress,
+      signer
+    );
+    this.token = MyToken__factory.connect(tokenAddress, signer);
+  }
+
+  /**
+   * Approves and lends tokens to the platform
+   * @param amount Amount of tokens in base units
+   */
+  async lend(amount: bigint): Promise<LendResult> {
+    await this.ensureAllowance(amount);
+    const receipt = await this.send(() => this.platform.lend(amount));
+    const event = this.findEvent(receipt, "TokensDeposited");
+    return {
+      ...this.result(receipt),
+      lender: event.args.lender,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Lends tokens approved by a signed permit, in a single transaction
+   * @param amount Amount of tokens in base units
+   */
+  async lendWithPermit(amount: bigint): Promise<LendResult> {
+    const { deadline, v, r, s } = await this.permit(amount);
+    const receipt = await this.send(() =>
+      this.platform.lendWithPermit(amount, deadline, v, r, s)
+    );
+    const event = this.findEvent(receipt, "TokensDeposited");
+    return {
+      ...this.result(receipt),
+      lender: event.args.lender,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Withdraws lent tokens, burning the shares they are worth
+   * @param amount Amount of tokens in base units
+   */
+  async withdraw(amount: bigint): Promise<WithdrawResult> {
+    const lender = await this.signer.getAddress();
+    const receipt = await this.send(() =>
+      this.platform.withdraw(amount, lender, lender)
+    );
+    return this.withdrawResult(receipt);
+  }
+
+  /**
+   * Redeems pool shares for the tokens they are worth
+   * @param shares Amount of shares, all of the signer's shares when omitted
+   */
+  async redeem(shares?: bigint): Promise<WithdrawResult> {
+    const lender = await this.signer.getAddress();
+    const amount = shares ?? (await this.platform.balanceOf(lender));
+    const receipt = await this.send(() =>
+      this.platform.redeem(amount, lender, lender)
+    );
+    return this.withdrawResult(receipt);
+  }
+
+  /**
+   * Returns the shares of a lender, the tokens they are worth and how many
+   * of those tokens can be withdrawn while part of the pool is lent out
+   * @param lender Address of the lender
+   */
+  async getLenderPosition(lender: string): Promise<LenderPosition> {
+    return {
+      lender,
+      shares: await this.platform.balanceOf(lender),
+      balance: await this.platform.getLenderBalance(lender),
+      withdrawable: await this.platform.maxWithdraw(lender),
+    };
+  }
+
+  /**
+   * Borrows tokens from the platform, adding them to the open-ended loan 0
+   * @param amount Amount of tokens in base units
+   */
+  async borrow(amount: bigint): Promise<BorrowResult> {
+    const receipt = await this.send(() => this.platform.borrow(amount));
+    const event = this.findEvent(receipt, "LoanInitiated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      loanId: event.args.loanId,
+      amount: event.args.amount,
+      startTime: event.args.startTime,
+    };
+  }
+
+  /**
+   * Takes a fixed-term loan next to the other loans of the signer, with a
+   * term picked from the platform's getLoanTerms
+   * @param amount Amount of tokens in base units
+   * @param term Loan term in seconds
+   */
+  async borrowWithTerm(amount: bigint, term: bigint): Promise<BorrowResult> {
+    const receipt = await this.send(() =>
+      this.platform.borrowWithTerm(amount, term)
+    );
+    const event = this.findEvent(receipt, "LoanInitiated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      loanId: event.args.loanId,
+      amount: event.args.amount,
+      startTime: event.args.startTime,
+    };
+  }
+
+  /**
+   * Borrows more on an active loan of the signer, which keeps its due date
+   * @param loanId Id of the loan
+   * @param amount Amount of tokens in base units
+   */
+  async increaseLoan(loanId: bigint, amount: bigint): Promise<BorrowResult> {
+    const receipt = await this.send(() =>
+      this.platform.increaseLoan(loanId, amount)
+    );
+    const event = this.findEvent(receipt, "LoanInitiated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      loanId: event.args.loanId,
+      amount: event.args.amount,
+      startTime: event.args.startTime,
+    };
+  }
+
+  /**
+   * Lets a delegate borrow against the signer's collateral, replacing any
+   * previous allowance. The debt is recorded against the signer.
+   * @param delegate Address allowed to borrow
+   * @param amount Amount of tokens in base units, 0 to revoke the allowance
+   */
+  async approveDelegation(
+    delegate: string,
+    amount: bigint
+  ): Promise<DelegationResult> {
+    const receipt = await this.send(() =>
+      this.platform.approveDelegation(delegate, amount)
+    );
+    const event = this.findEvent(receipt, "BorrowAllowanceUpdated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      delegate: event.args.delegate,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Borrows tokens on behalf of a borrower who approved the signer as a
+   * delegate. The signer receives the tokens and the borrower owes them.
+   * @param borrower Address of the borrower
+   * @param amount Amount of tokens in base units
+   */
+  async borrowFor(borrower: string, amount: bigint): Promise<BorrowResult> {
+    const receipt = await this.send(() =>
+      this.platform.borrowFor(borrower, amount)
+    );
+    const event = this.findEvent(receipt, "LoanInitiated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      loanId: event.args.loanId,
+      amount: event.args.amount,
+      startTime: event.args.startTime,
+    };
+  }
+
+  /**
+   * Approves and repays the signer's loans, in loan id order. The interest
+   * accrued on a loan is paid first, then its principal.
+   * @param amount Amount of tokens to repay. When omitted the whole debt is
+   * repaid, approving the amount owed plus a small buffer for interest
+   * accrued until the transaction is mined
+   */
+  async repay(amount?: bigint): Promise<RepayResult> {
+    const borrower = await this.signer.getAddress();
+    let receipt: ContractTransactionReceipt;
+    if (amount === undefined) {
+      const quote = await this.quoteRepayment(
+        borrower,
+        (await this.latestTimestamp()) + REPAY_QUOTE_BUFFER
+      );
+      await this.ensureAllowance(quote.total);
+      receipt = await this.send(() => this.platform.repay());
+    } else {
+      await this.ensureAllowance(amount);
+      receipt = await this.send(() => this.platform.repayPartial(amount));
+    }
+    return this.repayResult(receipt, borrower);
+  }
+
+  /**
+   * Approves and repays one loan of the signer, its interest first
+   * @param loanId Id of the loan
+   * @param amount Amount of tokens to repay. When omitted the whole loan is
+   * repaid, approving the amount owed on it plus a small buffer for interest
+   * accrued until the transaction is mined
+   */
+  async repayLoan(loanId: bigint, amount?: bigint): Promise<RepayResult> {
+    const borrower = await this.signer.getAddress();
+    let value = amount;
+    if (value === undefined) {
+      const loan = await this.getLoan(borrower, loanId);
+      if (loan === undefined) {
+        throw new NoActiveLoanError("No active loan");
+      }
+      value = (
+        await this.quoteRepayment(
+          borrower,
+          (await this.latestTimestamp()) + REPAY_QUOTE_BUFFER,
+          [loan]
+        )
+      ).total;
+    }
+    await this.ensureAllowance(value);
+    const receipt = await this.send(() =>
+      this.platform.repayLoan(loanId, value!)
+    );
+    return this.repayResult(receipt, borrower);
+  }
+
+  /**
+   * Approves and repays all the loans of another borrower with the signer's
+   * tokens, approving the amount owed plus a small buffer for interest accrued
+   * until the transaction is mined. The borrower gets the collateral back.
+   * @param borrower Address of the borrower
+   */
+  async repayFor(borrower: string): Promise<RepayResult> {
+    const quote = await this.quoteRepayment(
+      borrower,
+      (await this.latestTimestamp()) + REPAY_QUOTE_BUFFER
+    );
+    await this.ensureAllowance(quote.total);
+    const receipt = await this.send(() => this.platform.repayFor(borrower));
+    return this.repayResult(receipt, borrower);
+  }
+
+  /**
+   * Repays the signer's loans with tokens approved by a signed permit, in a
+   * single transaction
+   * @param amount Amount of tokens to repay. When omitted the whole debt is
+   * repaid, signing a permit for the amount owed plus a small buffer for
+   * interest accrued until the transaction is mined
+   */
+  async repayWithPermit(amount?: bigint): Promise<RepayResult> {
+    const borrower = await this.signer.getAddress();
+    const value =
+      amount ??
+      (
+        await this.quoteRepayment(
+          borrower,
+          (await this.latestTimestamp()) + REPAY_QUOTE_BUFFER
+        )
+      ).total;
+    const { deadline, v, r, s } = await this.permit(value);
+    const receipt = await this.send(() =>
+      this.platform.repayWithPermit(value, deadline, v, r, s)
+    );
+    return this.repayResult(receipt, borrower);
+  }
+
+  /**
+   * Deposits Ether as collateral
+   * @param amount Amount of Ether in wei
+   */
+  async depositCollateral(amount: bigint): Promise<CollateralResult> {
+    const receipt = await this.send(() =>
+      this.platform.depositCollateral({ value: amount })
+    );
+    const event = this.findEvent(receipt, "CollateralDeposited");
+    return {
+      ...this.result(receipt),
+      user: event.args.user,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Withdraws deposited Ether collateral
+   * @param amount Amount of Ether in wei
+   */
+  async withdrawCollateral(amount: bigint): Promise<CollateralResult> {
+    const receipt = await this.send(() =>
+      this.platform.withdrawCollateral(amount)
+    );
+    const event = this.findEvent(receipt, "CollateralWithdrawn");
+    return {
+      ...this.result(receipt),
+      user: event.args.user,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Approves and deposits a listed ERC-20 token as collateral
+   * @param asset Address of the collateral token
+   * @param amount Amount of collateral tokens in base units
+   */
+  async depositCollateralToken(
+    asset: string,
+    amount: bigint
+  ): Promise<CollateralTokenResult> {
+    await this.ensureAllowance(
+      amount,
+      IERC20__factory.connect(asset, this.signer)
+    );
+    const receipt = await this.send(() =>
+      this.platform.depositCollateralToken(asset, amount)
+    );
+    const event = this.findEvent(receipt, "CollateralTokenDeposited");
+    return {
+      ...this.result(receipt),
+      user: event.args.user,
+      asset: event.args.asset,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Withdraws deposited ERC-20 collateral
+   * @param asset Address of the collateral token
+   * @param amount Amount of collateral tokens in base units
+   */
+  async withdrawCollateralToken(
+    asset: string,
+    amount: bigint
+  ): Promise<CollateralTokenResult> {
+    const receipt = await this.send(() =>
+      this.platform.withdrawCollateralToken(asset, amount)
+    );
+    const event = this.findEvent(receipt, "CollateralTokenWithdrawn");
+    return {
+      ...this.result(receipt),
+      user: event.args.user,
+      asset: event.args.asset,
+      amount: event.args.amount,
+    };
+  }
+
+  /**
+   * Approves the tokens and repays part of the debt of an undercollateralized
+   * borrower in exchange for their collateral plus the liquidation bonus
+   * @param user Address of the borrower
+   * @param amount Amount of tokens to repay, capped on-chain at the close
+   * factor share of the debt
+   * @param asset ERC-20 collateral token to seize instead of Ether
+   */
+  async liquidate(
+    user: string,
+    amount: bigint,
+    asset?: string
+  ): Promise<LiquidationResult> {
+    await this.ensureAllowance(amount);
+    const receipt = await this.send(() =>
+      asset === undefined
+        ? this.platform.liquidate(user, amount)
+        : this.platform.liquidateCollateralToken(user, asset, amount)
+    );
+    const event = this.findEvent(receipt, "Liquidated");
+    return {
+      ...this.result(receipt),
+      borrower: event.args.borrower,
+      liquidator: event.args.liquidator,
+      collateralAsset: event.args.collateralAsset,
+      repaidAmount: event.args.repaidAmount,
+      collateralSeized: event.args.collateralSeized,
+      badDebt: event.args.badDebt,
+      remainingDebt: event.args.remainingDebt,
+    };
+  }
+
+  /**
+   * Returns a loan of a borrower, or undefined if it is not active
+   * @param borrower Address of the borrower
+   * @param loanId Id of the loan, the open-ended loan 0 when omitted
+   */
+  async getLoan(
+    borrower: string,
+    loanId = 0n
+  ): Promise<LoanDetails | undefined> {
+    return readLoan(this.platform, borrower, loanId);
+  }
+
+  /**
+   * Returns the active loans of a borrower, in loan id order
+   * @param borrower Address of the borrower
+   */
+  async getLoans(borrower: string): Promise<LoanDetails[]> {
+    return readLoans(this.platform, borrower);
+  }
+
+  /**
+   * Returns whether the loans of a borrower are current, late or in default,
+   * going by the most overdue one
+   * @param borrower Address of the borrower
+   */
+  async getLoanState(borrower: string): Promise<LoanState> {
+    return LOAN_STATES[Number(await this.platform.loanState(borrower))];
+  }
+
+  /**
+   * Computes what repay() will transfer from the borrower if mined at the
+   * given timestamp, see quoteLoanRepayment
+   * @param borrower Address of the borrower
+   * @param atTimestamp Block timestamp (in seconds) of the repayment
+   * @param loans Loans to quote, all the active loans of the borrower read
+   * from the platform when omitted
+   */
+  async quoteRepayment(
+    borrower: string,
+    atTimestamp: bigint,
+    loans?: LoanDetails[]
+  ): Promise<RepaymentQuote> {
+    return quoteLoanRepayment(
+      this.platform,
+      loans ?? (await this.getLoans(borrower)),
+      atTimestamp
+    );
+  }
+
+  private async ensureAllowance(
+    amount: bigint,
+    token: IERC20 | MyToken = this.token
+  ): Promise<void> {
+    const owner = await this.signer.getAddress();
+    const spender = await this.platform.getAddress();
+    if ((await token.allowance(owner, spender)) >= amount) {
+      return;
+    }
+    await this.send(() => token.approve(spender, amount));
+  }
+
+  private async permit(value: bigint): Promise<PermitSignature> {
+    return signPermit(
+      this.token,
+      this.signer,
+      await this.platform.getAddress(),
+      value,
+      (await this.latestTimestamp()) + PERMIT_DURATION
+    );
+  }
+
+  private async send(
+    action: () => Promise<ContractTransactionResponse>
+  ): Promise<ContractTransactionReceipt> {
+    try {
+      const receipt = await (await action()).wait();
+      if (receipt === null) {
+        throw new Error("Transaction failed");
+      }
+      return receipt;
+    } catch (error) {
+      throw decodeLendingError(error) ?? error;
+    }
+  }
+
+  private findEvent(
+    receipt: ContractTransactionReceipt,
+    name: string
+  ): LogDescription {
+    const [event] = this.findEvents(receipt, name);
+    if (event === undefined) {
+      throw new Error(`${name} event not found in ${receipt.hash}`);
+    }
+    return event;
+  }
+
+  private findEvents(
+    receipt: ContractTransactionReceipt,
+    name: string
+  ): LogDescription[] {
+    const events = [];
+    for (const log of receipt.logs) {
+      const parsed = this.platform.interface.parseLog(log);
+      if (parsed !== null && parsed.name === name) {
+        events.push(parsed);
+      }
+    }
+    return events;
+  }
+
+  private withdrawResult(receipt: ContractTransactionReceipt): WithdrawResult {
+    const event = this.findEvent(receipt, "Withdraw");
+    return {
+      ...this.result(receipt),
+      lender: event.args.owner,
+      amount: event.args.assets,
+      shares: event.args.shares,
+    };
+  }
+
+  private repayResult(
+    receipt: ContractTransactionReceipt,
+    borrower: string
+  ): RepayResult {
+    const timestamp: bigint = this.findEvent(receipt, "LoanRepaid").args
+      .timestamp;
+    const loans: LoanRepayment[] = this.findEvents(receipt, "LoanRepaid").map(
+      (event) => ({
+        loanId: event.args.loanId,
+        amount: event.args.amount,
+        interest: event.args.interestPaid,
+        remainingDebt: event.args.remainingDebt,
+        closed: event.args.closed,
+      })
+    );
+
+    // Every active loan is updated when the interest is accrued, so the last
+    // update of each loan holds what is left on it
+    const debts = new Map<bigint, bigint>();
+    for (const event of this.findEvents(receipt, "LoanUpdated")) {
+      debts.set(event.args.loanId, event.args.principal + event.args.interest);
+    }
+    const amount = loans.reduce((sum, loan) => sum + loan.amount, 0n);
+    const interest = loans.reduce((sum, loan) => sum + loan.interest, 0n);
+    return {
+      ...this.result(receipt),
+      borrower,
+      amount,
+      principal: amount - interest,
+      interest,
+      remainingDebt: [...debts.values()].reduce((sum, debt) => sum + debt, 0n),
+      closed: loans.every((loan) => loan.closed),
+      timestamp,
+      loans,
+    };
+  }
+
+  private result(receipt: ContractTransactionReceipt): TransactionResult {
+    return { hash: receipt.hash, blockNumber: receipt.blockNumber };
+  }
+
+  private async latestTimestamp(): Promise<bigint> {
+    const block = await this.signer.provider!.getBlock("latest");
+    return BigInt(block!.timestamp);
+  }
+}
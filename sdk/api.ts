@@ -0,0 +1,275 @@
+import http from "http";
+import { getAddress, isAddress } from "ethers";
+import type { LendingPlatformWithCollateral } from "../typechain-types";
+import {
+  InvalidPriceError,
+  LendingError,
+  StalePriceError,
+  decodeLendingError,
+} from "./errors";
+import { toJson } from "./history";
+import { LoanIndexer, MemoryStore } from "./indexer";
+import { quoteLoanRepayment, readLoans } from "./LendingClient";
+
+export interface ApiServerOptions {
+  // Block to find the borrowers from
+  fromBlock?: number;
+}
+
+/**
+ * Error answered with the given HTTP status
+ */
+export class HttpError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * Creates a read-only HTTP server answering JSON about the pool and its
+ * accounts. Amounts are strings of base units, and the values that need a
+ * price are null while the oracle price is stale.
+ *
+ * - GET /pool: pool balances, rates and risk parameters
+ * - GET /accounts/:address: shares, loans and collateral of an account
+ * - GET /accounts/:address/quote?timestamp=: amount repay() takes at a time,
+ *   for all the loans of the account
+ * - GET /liquidatable: borrowers whose position can be liquidated, including
+ *   fixed-term loans in default. The borrowers are found with a LoanIndexer,
+ *   which only reads the blocks added since the previous request.
+ *
+ * @param platform Platform to read, connected to a provider
+ * @param options First block of the loans to list
+ */
+export function createApiServer(
+  platform: LendingPlatformWithCollateral,
+  options: ApiServerOptions = {}
+): http.Server {
+  const borrowers = new BorrowerList(
+    new LoanIndexer(platform, new MemoryStore(), {
+      fromBlock: options.fromBlock,
+    })
+  );
+  return http.createServer((request, response) => {
+    route(platform, borrowers, request)
+      .then((body) => send(response, 200, body))
+      .catch((error) => {
+        const { status, message } = toHttpError(error);
+        send(response, status, { error: message });
+      });
+  });
+}
+
+async function route(
+  platform: LendingPlatformWithCollateral,
+  borrowers: BorrowerList,
+  request: http.IncomingMessage
+): Promise<unknown> {
+  if (request.method !== "GET") {
+    throw new HttpError(405, "Only GET requests are supported");
+  }
+
+  const url = new URL(request.url ?? "/", "http://localhost");
+  const parts = url.pathname.split("/").filter((part) => part !== "");
+  if (parts.length === 1 && parts[0] === "pool") {
+    return poolStats(platform);
+  }
+  if (parts.length === 1 && parts[0] === "liquidatable") {
+    return liquidatableAccounts(platform, await borrowers.active());
+  }
+  if (parts[0] === "accounts" && parts.length === 2) {
+    return accountPosition(platform, parseAccount(parts[1]));
+  }
+  if (parts[0] === "accounts" && parts.length === 3 && parts[2] === "quote") {
+    return repaymentQuote(
+      platform,
+      parseAccount(parts[1]),
+      url.searchParams.get("timestamp")
+    );
+  }
+  throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+async function poolStats(platform: LendingPlatformWithCollateral) {
+  const collateralAssets = [];
+  for (const asset of await platform.getCollateralAssets()) {
+    const params = await platform.collateralAssets(asset);
+    collateralAssets.push({
+      asset,
+      collateralizationRatio: params.collateralizationRatio,
+      liquidationRatio: params.liquidationRatio,
+      priceOracle: params.priceOracle,
+      price: await priced(platform.getAssetPrice(asset)),
+    });
+  }
+
+  return {
+    address: await platform.getAddress(),
+    token: await platform.asset(),
+    tokenBalance: await platform.getTokenBalance(),
+    totalBorrowed: await platform.getTotalBorrowed(),
+    totalAssets: await platform.totalAssets(),
+    totalShares: await platform.totalSupply(),
+    utilization: await platform.getUtilization(),
+    interestRate: await platform.getInterestRate(),
+    flashLoanFee: await platform.flashLoanFee(),
+    paused: await platform.paused(),
+    price: await priced(platform.getPrice()),
+    collateralizationRatio: await platform.collateralizationRatio(),
+    liquidationRatio: await platform.liquidationRatio(),
+    closeFactor: await platform.closeFactor(),
+    liquidationBonus: await platform.liquidationBonus(),
+    collateralAssets,
+  };
+}
+
+async function accountPosition(
+  platform: LendingPlatformWithCollateral,
+  account: string
+) {
+  const loans = await readLoans(platform, account);
+  const collateralTokens: Record<string, bigint> = {};
+  for (const asset of await platform.getCollateralAssets()) {
+    const amount = await platform.collateralTokens(account, asset);
+    if (amount > 0n) {
+      collateralTokens[asset] = amount;
+    }
+  }
+
+  return {
+    address: account,
+    shares: await platform.balanceOf(account),
+    lenderBalance: await platform.getLenderBalance(account),
+    withdrawable: await platform.maxWithdraw(account),
+    loans: loans.map((loan) => ({
+      loanId: loan.loanId,
+      principal: loan.amount,
+      interest: loan.interest,
+      startTime: loan.startTime,
+      dueDate: loan.dueDate,
+    })),
+    amountOwed: await platform.getAmountOwed(account),
+    collateralEther: await platform.collateralEther(account),
+    collateralTokens,
+    borrowingCapacity: await priced(platform.getBorrowingCapacity(account)),
+    healthFactor:
+      loans.length > 0 ? await priced(platform.healthFactor(account)) : null,
+    liquidatable: await priced(platform.isLiquidatable(account)),
+  };
+}
+
+async function repaymentQuote(
+  platform: LendingPlatformWithCollateral,
+  account: string,
+  timestamp: string | null
+) {
+  const loans = await readLoans(platform, account);
+  if (loans.length === 0) {
+    throw new HttpError(404, `${account} has no active loan`);
+  }
+
+  let atTimestamp: bigint;
+  if (timestamp === null) {
+    const block = await platform.runner!.provider!.getBlock("latest");
+    atTimestamp = BigInt(block!.timestamp);
+  } else if (/^\d+$/.test(timestamp)) {
+    atTimestamp = BigInt(timestamp);
+  } else {
+    throw new HttpError(400, "The timestamp must be in seconds");
+  }
+  return quoteLoanRepayment(platform, loans, atTimestamp);
+}
+
+async function liquidatableAccounts(
+  platform: LendingPlatformWithCollateral,
+  borrowers: string[]
+) {
+  const accounts = [];
+  for (const borrower of borrowers) {
+    if (!(await platform.isLiquidatable(borrower))) {
+      continue;
+    }
+    accounts.push({
+      address: borrower,
+      amountOwed: await platform.getAmountOwed(borrower),
+      collateralEther: await platform.collateralEther(borrower),
+      healthFactor: await platform.healthFactor(borrower),
+    });
+  }
+  return accounts;
+}
+
+/**
+ * Borrowers with an active loan, kept up to date by a LoanIndexer. Requests
+ * index one at a time, so each block is only read once.
+ */
+class BorrowerList {
+  private indexing: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly indexer: LoanIndexer) {}
+
+  async active(): Promise<string[]> {
+    const indexed = this.indexing.then(() => this.indexer.index());
+    // A failed request does not stop the next ones from indexing
+    this.indexing = indexed.catch(() => undefined);
+    await indexed;
+
+    // A borrower with several active loans is listed once
+    const history = await this.indexer.history();
+    const borrowers = history.loans
+      .filter((loan) => loan.status === "active")
+      .map((loan) => loan.borrower);
+    return [...new Set(borrowers)];
+  }
+}
+
+function parseAccount(address: string): string {
+  if (!isAddress(address)) {
+    throw new HttpError(400, `Invalid address ${address}`);
+  }
+  return getAddress(address);
+}
+
+/**
+ * Resolves to null when the value cannot be priced right now
+ */
+async function priced<T>(value: Promise<T>): Promise<T | null> {
+  try {
+    return await value;
+  } catch (error) {
+    const decoded = decodeLendingError(error);
+    if (
+      decoded instanceof StalePriceError ||
+      decoded instanceof InvalidPriceError
+    ) {
+      return null;
+    }
+    throw error;
+  }
+}
+
+function toHttpError(error: unknown): HttpError {
+  if (error instanceof HttpError) {
+    return error;
+  }
+  const decoded = decodeLendingError(error);
+  if (
+    decoded instanceof StalePriceError ||
+    decoded instanceof InvalidPriceError
+  ) {
+    return new HttpError(503, decoded.message);
+  }
+  if (decoded instanceof LendingError) {
+    return new HttpError(400, decoded.message);
+  }
+  return new HttpError(
+    500,
+    error instanceof Error ? error.message : String(error)
+  );
+}
+
+function send(response: http.ServerResponse, status: number, body: unknown) {
+  response.writeHead(status, { "Content-Type": "application/json" });
+  response.end(toJson(body));
+}
@@ -0,0 +1,100 @@
+// Scale of oracle prices (tokens per Ether or per collateral token)
+export const PRICE_PRECISION = 10n ** 18n;
+
+/**
+ * Ratios and price of one collateral asset, as read from the platform
+ */
+export interface CollateralParams {
+  price: bigint;
+  collateralizationRatio: bigint;
+  liquidationRatio: bigint;
+}
+
+/**
+ * Collateral parameters of a LendingPlatformWithCollateral: Ether uses the
+ * platform ratios and oracle, and every listed ERC-20 asset its own
+ */
+export interface CollateralMarket {
+  ether: CollateralParams;
+  assets: Map<string, CollateralParams>;
+}
+
+/**
+ * Off-chain copy of LendingPlatformWithCollateral.tokenValueInEther
+ * @param tokenAmount Amount of lending tokens
+ * @param price Tokens per Ether, scaled by PRICE_PRECISION
+ */
+export function tokenValueInEther(tokenAmount: bigint, price: bigint): bigint {
+  return (tokenAmount * PRICE_PRECISION) / price;
+}
+
+/**
+ * Off-chain copy of LendingPlatformWithCollateral.requiredCollateralForBorrowing,
+ * also used with the liquidation ratio
+ * @param tokenAmount Amount of lending tokens owed
+ * @param price Tokens per Ether, scaled by PRICE_PRECISION
+ * @param ratio Collateral required in percentage of the debt
+ */
+export function requiredCollateral(
+  tokenAmount: bigint,
+  price: bigint,
+  ratio: bigint
+): bigint {
+  return (tokenValueInEther(tokenAmount, price) * ratio) / 100n;
+}
+
+/**
+ * Off-chain copy of LendingPlatformWithCollateral.collateralTokenCapacity
+ * @param tokens ERC-20 collateral of the user by asset address
+ * @param market Prices and ratios of the listed assets
+ * @param atLiquidation Whether to use the liquidation ratios
+ * @returns Amount of lending tokens the ERC-20 collateral covers
+ */
+export function collateralTokenCapacity(
+  tokens: Map<string, bigint>,
+  market: CollateralMarket,
+  atLiquidation: boolean
+): bigint {
+  let capacity = 0n;
+  for (const [asset, amount] of tokens) {
+    const params = market.assets.get(asset);
+    if (amount === 0n || params === undefined) {
+      continue;
+    }
+    const ratio = atLiquidation
+      ? params.liquidationRatio
+      : params.collateralizationRatio;
+    capacity += (amount * params.price * 100n) / (PRICE_PRECISION * ratio);
+  }
+  return capacity;
+}
+
+/**
+ * Off-chain copy of LendingPlatformWithCollateral.isCovered: the ERC-20
+ * collateral covers what it can and the Ether collateral must cover the rest
+ * @param debt Amount of lending tokens owed
+ * @param etherCollateral Ether collateral in wei
+ * @param tokens ERC-20 collateral by asset address
+ * @param market Prices and ratios of Ether and the listed assets
+ * @param atLiquidation Whether to use the liquidation ratios
+ */
+export function isCovered(
+  debt: bigint,
+  etherCollateral: bigint,
+  tokens: Map<string, bigint>,
+  market: CollateralMarket,
+  atLiquidation: boolean
+): boolean {
+  const covered = collateralTokenCapacity(tokens, market, atLiquidation);
+  if (covered >= debt) {
+    return true;
+  }
+
+  const ratio = atLiquidation
+    ? market.ether.liquidationRatio
+    : market.ether.collateralizationRatio;
+  return (
+    etherCollateral >=
+    requiredCollateral(debt - covered, market.ether.price, ratio)
+  );
+}
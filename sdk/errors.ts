@@ -0,0 +1,120 @@
+import { Interface, isError } from "ethers";
+
+/**
+ * Base class of every error raised by the lending contracts.
+ * `reason` holds the revert string or custom error name reported on-chain.
+ */
+export class LendingError extends Error {
+  constructor(readonly reason: string, message = reason) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+export class InsufficientFundsError extends LendingError {}
+export class NoActiveLoanError extends LendingError {}
+export class NotEnoughCollateralError extends LendingError {}
+export class CollateralLockedError extends LendingError {}
+export class CollateralSufficientError extends LendingError {}
+export class StalePriceError extends LendingError {}
+export class InvalidPriceError extends LendingError {}
+export class UnsupportedCollateralError extends LendingError {}
+export class FlashLoanError extends LendingError {}
+export class InvalidAmountError extends LendingError {}
+export class TransferFailedError extends LendingError {}
+export class InsufficientAllowanceError extends LendingError {}
+export class InsufficientBalanceError extends LendingError {}
+export class InsufficientLiquidityError extends LendingError {}
+export class ReentrantCallError extends LendingError {}
+export class PausedError extends LendingError {}
+export class UnauthorizedError extends LendingError {}
+export class ExpiredPermitError extends LendingError {}
+export class InvalidPermitError extends LendingError {}
+export class InvalidDelegateError extends LendingError {}
+// Raised off-chain for a repayment quoted before the loan or the last accrual
+export class InvalidTimestampError extends LendingError {}
+
+type LendingErrorClass = new (reason: string) => LendingError;
+
+// Revert strings used by the require() statements in contracts/
+const REVERT_STRINGS: Record<string, LendingErrorClass> = {
+  "Insufficient funds": InsufficientFundsError,
+  "No active loan": NoActiveLoanError,
+  "Not enough collateral": NotEnoughCollateralError,
+  "Collateral locked due to borrowed tokens": CollateralLockedError,
+  "Collateral value is sufficient": CollateralSufficientError,
+  "Stale price": StalePriceError,
+  "Invalid price": InvalidPriceError,
+  "Must deposit Ether as collateral": InvalidAmountError,
+  "Must deposit a positive amount": InvalidAmountError,
+  "Unsupported collateral asset": UnsupportedCollateralError,
+  "Must withdraw a positive amount": InvalidAmountError,
+  "Must repay a positive amount": InvalidAmountError,
+  "Unsupported flash loan token": FlashLoanError,
+  "Flash loan callback failed": FlashLoanError,
+  "Borrow allowance exceeded": InsufficientAllowanceError,
+  "Invalid delegate": InvalidDelegateError,
+};
+
+// Custom errors raised by the OpenZeppelin base contracts
+const CUSTOM_ERRORS: Record<string, LendingErrorClass> = {
+  ERC20InsufficientAllowance: InsufficientAllowanceError,
+  ERC20InsufficientBalance: InsufficientBalanceError,
+  ERC4626ExceededMaxWithdraw: InsufficientLiquidityError,
+  ERC4626ExceededMaxRedeem: InsufficientLiquidityError,
+  ReentrancyGuardReentrantCall: ReentrantCallError,
+  EnforcedPause: PausedError,
+  OwnableUnauthorizedAccount: UnauthorizedError,
+  ERC2612ExpiredSignature: ExpiredPermitError,
+  ERC2612InvalidSigner: InvalidPermitError,
+  SafeERC20FailedOperation: TransferFailedError,
+};
+
+const customErrorInterface = new Interface([
+  "error ERC20InsufficientAllowance(address spender, uint256 allowance, uint256 needed)",
+  "error ERC20InsufficientBalance(address sender, uint256 balance, uint256 needed)",
+  "error ERC4626ExceededMaxWithdraw(address owner, uint256 assets, uint256 max)",
+  "error ERC4626ExceededMaxRedeem(address owner, uint256 shares, uint256 max)",
+  "error ReentrancyGuardReentrantCall()",
+  "error EnforcedPause()",
+  "error OwnableUnauthorizedAccount(address account)",
+  "error ERC2612ExpiredSignature(uint256 deadline)",
+  "error ERC2612InvalidSigner(address signer, address owner)",
+  "error SafeERC20FailedOperation(address token)",
+]);
+
+/**
+ * Maps an error thrown by ethers or the Hardhat provider to a LendingError.
+ * Returns undefined when the error is not a recognised contract revert.
+ * @param error Error thrown while sending or estimating a transaction
+ */
+export function decodeLendingError(error: unknown): LendingError | undefined {
+  if (error instanceof LendingError) {
+    return error;
+  }
+
+  if (isError(error, "CALL_EXCEPTION")) {
+    if (error.reason !== null && REVERT_STRINGS[error.reason] !== undefined) {
+      return new REVERT_STRINGS[error.reason](error.reason);
+    }
+    if (error.data) {
+      const parsed = customErrorInterface.parseError(error.data);
+      if (parsed !== null) {
+        return new CUSTOM_ERRORS[parsed.name](parsed.name);
+      }
+    }
+  }
+
+  // The Hardhat provider reports reverts in the message of a ProviderError
+  const message = error instanceof Error ? error.message : String(error);
+  const revertString = /reverted with reason string '(.*)'/.exec(message);
+  if (revertString && REVERT_STRINGS[revertString[1]] !== undefined) {
+    return new REVERT_STRINGS[revertString[1]](revertString[1]);
+  }
+  const customError = /reverted with custom error '(\w+)\(/.exec(message);
+  if (customError && CUSTOM_ERRORS[customError[1]] !== undefined) {
+    return new CUSTOM_ERRORS[customError[1]](customError[1]);
+  }
+
+  return undefined;
+}
@@ -0,0 +1,499 @@
+import { ZeroAddress } from "ethers";
+
+/**
+ * Platform event as kept by the indexer, with its arguments as strings so the
+ * store can be written as plain JSON
+ */
+export interface IndexedEvent {
+  blockNumber: number;
+  blockHash: string;
+  transactionHash: string;
+  logIndex: number;
+  timestamp: number;
+  name: string;
+  args: Record<string, string>;
+}
+
+/**
+ * One line of an account statement
+ */
+export interface HistoryEntry {
+  blockNumber: number;
+  timestamp: number;
+  transactionHash: string;
+  event: string;
+  // Lending tokens, Ether or collateral tokens depending on the event, and
+  // the collateral seized for Liquidated
+  amount: bigint;
+  // Collateral token of the entry, the zero address for Ether
+  asset: string;
+  interestPaid: bigint;
+  // Liquidator of a liquidation, delegate of a borrow through borrowFor and
+  // payer of a repayment through repayFor. The DelegatedBorrow and RepaidFor
+  // entries of the delegate and the payer have the borrower.
+  counterparty: string;
+}
+
+export type LoanStatus = "active" | "repaid" | "liquidated";
+
+/**
+ * Lifecycle of one loan, from its first borrow until nothing is owed. A loan
+ * id is used again once the loan under it is closed.
+ */
+export interface LoanRecord {
+  borrower: string;
+  loanId: bigint;
+  status: LoanStatus;
+  openedBlock: number;
+  openedAt: number;
+  closedBlock?: number;
+  closedAt?: number;
+  // Sum of the amounts borrowed, including additions to the loan
+  borrowed: bigint;
+  // Part of borrowed taken by delegates through borrowFor
+  borrowedByDelegates: bigint;
+  // Repaid by the borrower or on their behalf
+  repaid: bigint;
+  // Part of repaid paid by other accounts through repayFor
+  repaidByOthers: bigint;
+  // Repaid by liquidators
+  liquidated: bigint;
+  interestPaid: bigint;
+  badDebt: bigint;
+  // Principal still owed
+  principal: bigint;
+}
+
+export interface AccountStatement {
+  account: string;
+  deposited: bigint;
+  withdrawn: bigint;
+  borrowed: bigint;
+  repaid: bigint;
+  // Borrowed as a delegate and repaid for other borrowers
+  borrowedForOthers: bigint;
+  repaidForOthers: bigint;
+  interestPaid: bigint;
+  collateralDeposited: bigint;
+  collateralWithdrawn: bigint;
+  collateralSeized: bigint;
+  loans: LoanRecord[];
+  entries: HistoryEntry[];
+}
+
+export interface PoolSummary {
+  fromBlock: number;
+  toBlock: number;
+  lenders: number;
+  borrowers: number;
+  deposited: bigint;
+  withdrawn: bigint;
+  borrowed: bigint;
+  repaid: bigint;
+  liquidated: bigint;
+  interestPaid: bigint;
+  badDebt: bigint;
+  flashLoanFees: bigint;
+  loansOpened: number;
+  loansClosed: number;
+  activeLoans: number;
+  outstandingPrincipal: bigint;
+}
+
+/**
+ * Loans and statement entries rebuilt from the indexed events
+ */
+export interface LoanHistory {
+  fromBlock: number;
+  toBlock: number;
+  loans: LoanRecord[];
+  entries: Map<string, HistoryEntry[]>;
+  flashLoanFees: bigint;
+}
+
+// Loan being rebuilt, with the debt needed to split liquidation repayments
+// between the loans, and between their interest and principal
+interface OpenLoan {
+  record: LoanRecord;
+  principal: bigint;
+  interest: bigint;
+  // Debt at the first update of the latest transaction, which checkpoints
+  // the interest accrued before it
+  transactionHash: string;
+  principalAtTransaction: bigint;
+  interestAtTransaction: bigint;
+}
+
+/**
+ * Rebuilds the loans and statement entries from the events, in chain order
+ * @param events Indexed events sorted by block and log index
+ * @param fromBlock First block the events were indexed from
+ * @param toBlock Last block the events were indexed up to
+ */
+export function buildHistory(
+  events: IndexedEvent[],
+  fromBlock: number,
+  toBlock: number
+): LoanHistory {
+  const loans: LoanRecord[] = [];
+  const entries = new Map<string, HistoryEntry[]>();
+  // Open loans by borrower and loan id
+  const open = new Map<string, OpenLoan>();
+  // Loan of each LoanInitiated and LoanRepaid entry
+  const entryLoans = new Map<HistoryEntry, LoanRecord>();
+  let flashLoanFees = 0n;
+
+  const loanKey = (borrower: string, loanId: string | bigint) =>
+    `${borrower}:${loanId}`;
+
+  const addEntry = (
+    account: string,
+    event: IndexedEvent,
+    { amount, ...entry }: Partial<HistoryEntry> & { amount: bigint }
+  ) => {
+    const item: HistoryEntry = {
+      blockNumber: event.blockNumber,
+      timestamp: event.timestamp,
+      transactionHash: event.transactionHash,
+      event: event.name,
+      amount,
+      asset: ZeroAddress,
+      interestPaid: 0n,
+      counterparty: ZeroAddress,
+      ...entry,
+    };
+    const list = entries.get(account) ?? [];
+    list.push(item);
+    entries.set(account, list);
+    return item;
+  };
+
+  const close = (loan: OpenLoan, status: LoanStatus, event: IndexedEvent) => {
+    loan.record.status = status;
+    loan.record.closedBlock = event.blockNumber;
+    loan.record.closedAt = event.timestamp;
+    open.delete(loanKey(loan.record.borrower, loan.record.loanId));
+  };
+
+  // Records the delegate of a borrow or the payer of a repayment on the
+  // borrower's entries of the same transaction, which precede it, and adds
+  // the entry of the delegate or payer. A repayment for a borrower can pay
+  // several loans, so the entries are marked until they cover the amount.
+  // Returns the amount of each marked entry by its loan.
+  const addCounterparty = (
+    event: IndexedEvent,
+    borrowerEvent: string,
+    counterparty: string
+  ) => {
+    const marked = new Map<LoanRecord, bigint>();
+    let left = BigInt(event.args.amount);
+    for (const entry of [
+      ...(entries.get(event.args.borrower) ?? []),
+    ].reverse()) {
+      if (
+        entry.event !== borrowerEvent ||
+        entry.transactionHash !== event.transactionHash ||
+        entry.counterparty !== ZeroAddress
+      ) {
+        continue;
+      }
+      const amount = entry.amount < left ? entry.amount : left;
+      entry.counterparty = counterparty;
+      const loan = entryLoans.get(entry);
+      if (loan !== undefined) {
+        marked.set(loan, amount);
+      }
+      left -= amount;
+      if (left === 0n) {
+        break;
+      }
+    }
+    addEntry(counterparty, event, {
+      amount: BigInt(event.args.amount),
+      counterparty: event.args.borrower,
+    });
+    return marked;
+  };
+
+  for (const event of events) {
+    const { args } = event;
+    switch (event.name) {
+      case "TokensDeposited":
+      case "TokensWithdrawn":
+        addEntry(args.lender, event, { amount: BigInt(args.amount) });
+        break;
+      case "CollateralDeposited":
+      case "CollateralWithdrawn":
+        addEntry(args.user, event, { amount: BigInt(args.amount) });
+        break;
+      case "CollateralTokenDeposited":
+      case "CollateralTokenWithdrawn":
+        addEntry(args.user, event, {
+          amount: BigInt(args.amount),
+          asset: args.asset,
+        });
+        break;
+      case "FlashLoan":
+        flashLoanFees += BigInt(args.fee);
+        break;
+      case "LoanInitiated": {
+        const key = loanKey(args.borrower, args.loanId);
+        let loan = open.get(key);
+        if (loan === undefined) {
+          loan = {
+            record: {
+              borrower: args.borrower,
+              loanId: BigInt(args.loanId),
+              status: "active",
+              openedBlock: event.blockNumber,
+              openedAt: event.timestamp,
+              borrowed: 0n,
+              borrowedByDelegates: 0n,
+              repaid: 0n,
+              repaidByOthers: 0n,
+              liquidated: 0n,
+              interestPaid: 0n,
+              badDebt: 0n,
+              principal: 0n,
+            },
+            principal: 0n,
+            interest: 0n,
+            transactionHash: "",
+            principalAtTransaction: 0n,
+            interestAtTransaction: 0n,
+          };
+          open.set(key, loan);
+          loans.push(loan.record);
+        }
+        loan.record.borrowed += BigInt(args.amount);
+        const entry = addEntry(args.borrower, event, {
+          amount: BigInt(args.amount),
+        });
+        entryLoans.set(entry, loan.record);
+        break;
+      }
+      case "DelegatedBorrow": {
+        const marked = addCounterparty(event, "LoanInitiated", args.delegate);
+        for (const [loan, amount] of marked) {
+          loan.borrowedByDelegates += amount;
+        }
+        break;
+      }
+      case "LoanUpdated": {
+        const loan = open.get(loanKey(args.borrower, args.loanId));
+        if (loan === undefined) {
+          break;
+        }
+        loan.principal = BigInt(args.principal);
+        loan.interest = BigInt(args.interest);
+        loan.record.principal = loan.principal;
+        // A transaction can update a loan several times. Every transaction
+        // that changes the debt accrues the interest of all the loans first,
+        // which liquidations are split by.
+        if (loan.transactionHash !== event.transactionHash) {
+          loan.transactionHash = event.transactionHash;
+          loan.principalAtTransaction = loan.principal;
+          loan.interestAtTransaction = loan.interest;
+        }
+        break;
+      }
+      case "LoanRepaid": {
+        const loan = open.get(loanKey(args.borrower, args.loanId));
+        const interestPaid = BigInt(args.interestPaid);
+        const entry = addEntry(args.borrower, event, {
+          amount: BigInt(args.amount),
+          interestPaid,
+        });
+        if (loan === undefined) {
+          break;
+        }
+        entryLoans.set(entry, loan.record);
+        loan.record.repaid += BigInt(args.amount);
+        loan.record.interestPaid += interestPaid;
+        if (args.closed === "true") {
+          close(loan, "repaid", event);
+        }
+        break;
+      }
+      case "RepaidFor": {
+        const marked = addCounterparty(event, "LoanRepaid", args.payer);
+        for (const [loan, amount] of marked) {
+          loan.repaidByOthers += amount;
+        }
+        break;
+      }
+      case "Liquidated": {
+        const borrowerLoans = [...open.values()]
+          .filter((loan) => loan.record.borrower === args.borrower)
+          .sort((a, b) => (a.record.loanId < b.record.loanId ? -1 : 1));
+        const badDebt = BigInt(args.badDebt);
+
+        // Like the contract, the repayment pays the loans in loan id order,
+        // each its interest accrued before the liquidation first, and the
+        // debt it leaves is written off when there is bad debt
+        let left = BigInt(args.repaidAmount);
+        let interestPaid = 0n;
+        for (const loan of borrowerLoans) {
+          const current = loan.transactionHash === event.transactionHash;
+          const principal = current
+            ? loan.principalAtTransaction
+            : loan.principal;
+          const interest = current ? loan.interestAtTransaction : loan.interest;
+          const debt = principal + interest;
+          const paid = left < debt ? left : debt;
+          const paidInterest = paid < interest ? paid : interest;
+          left -= paid;
+          interestPaid += paidInterest;
+
+          loan.record.liquidated += paid;
+          loan.record.interestPaid += paidInterest;
+          if (badDebt > 0n) {
+            loan.record.badDebt += debt - paid;
+          }
+          if (loan.principal + loan.interest === 0n) {
+            close(loan, "liquidated", event);
+          }
+        }
+
+        addEntry(args.borrower, event, {
+          amount: BigInt(args.collateralSeized),
+          asset: args.collateralAsset,
+          interestPaid,
+          counterparty: args.liquidator,
+        });
+        break;
+      }
+    }
+  }
+
+  return { fromBlock, toBlock, loans, entries, flashLoanFees };
+}
+
+/**
+ * Totals, loans and entries of one account
+ * @param history History built by buildHistory
+ * @param account Lender, borrower or liquidator
+ */
+export function accountStatement(
+  history: LoanHistory,
+  account: string
+): AccountStatement {
+  const key =
+    [...history.entries.keys()].find(
+      (address) => address.toLowerCase() === account.toLowerCase()
+    ) ?? account;
+  const entries = history.entries.get(key) ?? [];
+  const loans = history.loans.filter((loan) => loan.borrower === key);
+
+  // Ether and lending token amounts of one event
+  const sum = (event: string) =>
+    entries
+      .filter((entry) => entry.event === event && entry.asset === ZeroAddress)
+      .reduce((total, entry) => total + entry.amount, 0n);
+
+  return {
+    account: key,
+    deposited: sum("TokensDeposited"),
+    withdrawn: sum("TokensWithdrawn"),
+    borrowed: sum("LoanInitiated"),
+    repaid: sum("LoanRepaid"),
+    borrowedForOthers: sum("DelegatedBorrow"),
+    repaidForOthers: sum("RepaidFor"),
+    interestPaid: loans.reduce((total, loan) => total + loan.interestPaid, 0n),
+    collateralDeposited: sum("CollateralDeposited"),
+    collateralWithdrawn: sum("CollateralWithdrawn"),
+    // Ether seized from the account by liquidators
+    collateralSeized: sum("Liquidated"),
+    loans,
+    entries,
+  };
+}
+
+/**
+ * Totals of the whole pool over the indexed blocks
+ * @param history History built by buildHistory
+ */
+export function poolSummary(history: LoanHistory): PoolSummary {
+  const summary: PoolSummary = {
+    fromBlock: history.fromBlock,
+    toBlock: history.toBlock,
+    lenders: 0,
+    borrowers: new Set(history.loans.map((loan) => loan.borrower)).size,
+    deposited: 0n,
+    withdrawn: 0n,
+    borrowed: 0n,
+    repaid: 0n,
+    liquidated: 0n,
+    interestPaid: 0n,
+    badDebt: 0n,
+    flashLoanFees: history.flashLoanFees,
+    loansOpened: history.loans.length,
+    loansClosed: 0,
+    activeLoans: 0,
+    outstandingPrincipal: 0n,
+  };
+
+  for (const entries of history.entries.values()) {
+    let lender = false;
+    for (const entry of entries) {
+      if (entry.event === "TokensDeposited") {
+        summary.deposited += entry.amount;
+        lender = true;
+      } else if (entry.event === "TokensWithdrawn") {
+        summary.withdrawn += entry.amount;
+      }
+    }
+    if (lender) {
+      summary.lenders++;
+    }
+  }
+
+  for (const loan of history.loans) {
+    summary.borrowed += loan.borrowed;
+    summary.repaid += loan.repaid;
+    summary.liquidated += loan.liquidated;
+    summary.interestPaid += loan.interestPaid;
+    summary.badDebt += loan.badDebt;
+    if (loan.status === "active") {
+      summary.activeLoans++;
+      summary.outstandingPrincipal += loan.principal;
+    } else {
+      summary.loansClosed++;
+    }
+  }
+  return summary;
+}
+
+/**
+ * Serializes a value as indented JSON, with bigints as strings
+ */
+export function toJson(value: unknown): string {
+  return JSON.stringify(
+    value,
+    (_, item) => (typeof item === "bigint" ? item.toString() : item),
+    2
+  );
+}
+
+/**
+ * Serializes rows as CSV, with a header from the keys of the first row
+ * @param rows Objects with the same keys, whose values are printed as is
+ */
+export function toCsv(rows: object[]): string {
+  if (rows.length === 0) {
+    return "";
+  }
+  const columns = Object.keys(rows[0]);
+  const escape = (value: unknown) => {
+    const text = value === undefined ? "" : String(value);
+    return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  };
+  return [
+    columns.join(","),
+    ...rows.map((row) =>
+      columns
+        .map((column) => escape((row as Record<string, unknown>)[column]))
+        .join(",")
+    ),
+  ].join("\n");
+}
@@ -0,0 +1,10 @@
+export * from "./errors";
+export * from "./interest";
+export * from "./collateral";
+export * from "./rateModel";
+export * from "./permit";
+export * from "./LendingClient";
+export * from "./keeper";
+export * from "./history";
+export * from "./indexer";
+export * from "./api";
@@ -0,0 +1,241 @@
+import fs from "fs";
+import path from "path";
+import type { Provider } from "ethers";
+import type { LendingPlatformWithCollateral } from "../typechain-types";
+import { IndexedEvent, LoanHistory, buildHistory } from "./history";
+
+// Number of recent block hashes kept to find where a reorg started
+const REORG_DEPTH = 64;
+// Blocks requested per getLogs call
+const DEFAULT_BATCH_SIZE = 2000;
+
+/**
+ * Everything the indexer keeps between runs
+ */
+export interface IndexerState {
+  platform: string;
+  fromBlock: number;
+  // Last indexed block, fromBlock - 1 before the first run
+  lastBlock: number;
+  // Hashes of recently indexed blocks as [number, hash], oldest first
+  checkpoints: [number, string][];
+  events: IndexedEvent[];
+}
+
+/**
+ * Where the indexer keeps its state
+ */
+export interface IndexerStore {
+  load(): Promise<IndexerState | undefined>;
+  save(state: IndexerState): Promise<void>;
+}
+
+/**
+ * Keeps the indexer state in memory, for tests and short-lived scripts
+ */
+export class MemoryStore implements IndexerStore {
+  private state?: IndexerState;
+
+  async load(): Promise<IndexerState | undefined> {
+    return this.state && structuredClone(this.state);
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    this.state = structuredClone(state);
+  }
+}
+
+/**
+ * Keeps the indexer state in a JSON file, created on the first save
+ */
+export class JsonFileStore implements IndexerStore {
+  constructor(readonly file: string) {}
+
+  async load(): Promise<IndexerState | undefined> {
+    if (!fs.existsSync(this.file)) {
+      return undefined;
+    }
+    return JSON.parse(await fs.promises.readFile(this.file, "utf8"));
+  }
+
+  async save(state: IndexerState): Promise<void> {
+    await fs.promises.mkdir(path.dirname(this.file), { recursive: true });
+    await fs.promises.writeFile(this.file, JSON.stringify(state, null, 2));
+  }
+}
+
+export interface IndexerOptions {
+  // Block to index from on the first run
+  fromBlock?: number;
+  batchSize?: number;
+}
+
+export interface IndexResult {
+  // Blocks indexed by this run; fromBlock > toBlock when there was nothing new
+  fromBlock: number;
+  toBlock: number;
+  added: number;
+  // Events dropped because their blocks were reorged out
+  removed: number;
+}
+
+/**
+ * Replays the platform logs into a store, resuming from the last indexed
+ * block. Loans are internal to the platform and deleted once repaid, so the
+ * events are the only record of past loans.
+ */
+export class LoanIndexer {
+  private readonly fromBlock: number;
+  private readonly batchSize: number;
+
+  /**
+   * @param platform Platform to index, connected to a provider or signer
+   * @param store Store of the indexed events
+   * @param options First block and getLogs batch size
+   */
+  constructor(
+    readonly platform: LendingPlatformWithCollateral,
+    readonly store: IndexerStore,
+    options: IndexerOptions = {}
+  ) {
+    this.fromBlock = options.fromBlock ?? 0;
+    this.batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  }
+
+  /**
+   * Indexes the blocks since the last run, after dropping the events of
+   * blocks that are no longer on the chain
+   * @param toBlock Last block to index (defaults to the latest)
+   */
+  async index(toBlock?: number): Promise<IndexResult> {
+    const provider = this.provider();
+    const address = await this.platform.getAddress();
+
+    const state = (await this.store.load()) ?? {
+      platform: address,
+      fromBlock: this.fromBlock,
+      lastBlock: this.fromBlock - 1,
+      checkpoints: [],
+      events: [],
+    };
+    if (state.platform.toLowerCase() !== address.toLowerCase()) {
+      throw new Error(`The store indexes ${state.platform}, not ${address}`);
+    }
+
+    const removed = await this.rollBack(state, provider);
+    const firstBlock = state.lastBlock + 1;
+    const lastBlock = toBlock ?? (await provider.getBlockNumber());
+    const eventCount = state.events.length;
+
+    for (let from = firstBlock; from <= lastBlock; from += this.batchSize) {
+      const to = Math.min(from + this.batchSize - 1, lastBlock);
+      const logs = await provider.getLogs({
+        address,
+        fromBlock: from,
+        toBlock: to,
+      });
+
+      const timestamps = new Map<number, number>();
+      for (const log of logs) {
+        const parsed = this.platform.interface.parseLog(log);
+        if (parsed === null) {
+          continue;
+        }
+        if (!timestamps.has(log.blockNumber)) {
+          const block = await provider.getBlock(log.blockNumber);
+          timestamps.set(log.blockNumber, block?.timestamp ?? 0);
+          state.checkpoints.push([log.blockNumber, log.blockHash]);
+        }
+        state.events.push({
+          blockNumber: log.blockNumber,
+          blockHash: log.blockHash,
+          transactionHash: log.transactionHash,
+          logIndex: log.index,
+          timestamp: timestamps.get(log.blockNumber)!,
+          name: parsed.name,
+          args: Object.fromEntries(
+            parsed.fragment.inputs.map((input, i) => [
+              input.name,
+              String(parsed.args[i]),
+            ])
+          ),
+        });
+      }
+      state.lastBlock = to;
+    }
+
+    // The last block is checked on the next run even if it had no events
+    const newest = state.checkpoints[state.checkpoints.length - 1];
+    if (lastBlock >= firstBlock && newest?.[0] !== lastBlock) {
+      const block = await provider.getBlock(lastBlock);
+      if (block?.hash) {
+        state.checkpoints.push([lastBlock, block.hash]);
+      }
+    }
+    state.checkpoints = state.checkpoints.slice(-REORG_DEPTH);
+    await this.store.save(state);
+
+    return {
+      fromBlock: firstBlock,
+      toBlock: lastBlock,
+      added: state.events.length - eventCount,
+      removed,
+    };
+  }
+
+  /**
+   * Rebuilds the loans and statements from the indexed events
+   */
+  async history(): Promise<LoanHistory> {
+    const state = await this.store.load();
+    if (state === undefined) {
+      return buildHistory([], this.fromBlock, this.fromBlock - 1);
+    }
+    return buildHistory(state.events, state.fromBlock, state.lastBlock);
+  }
+
+  /**
+   * Drops the indexed blocks after the newest checkpoint still on the chain,
+   * or everything if no checkpoint is
+   * @returns The number of events dropped
+   */
+  private async rollBack(
+    state: IndexerState,
+    provider: Provider
+  ): Promise<number> {
+    if (state.checkpoints.length === 0) {
+      return 0;
+    }
+
+    let keptBlock = state.fromBlock - 1;
+    for (let i = state.checkpoints.length - 1; i >= 0; i--) {
+      const [number, hash] = state.checkpoints[i];
+      const block = await provider.getBlock(number);
+      if (block?.hash === hash) {
+        keptBlock = number;
+        break;
+      }
+    }
+    if (keptBlock === state.lastBlock) {
+      return 0;
+    }
+
+    const eventCount = state.events.length;
+    state.events = state.events.filter(
+      (event) => event.blockNumber <= keptBlock
+    );
+    state.checkpoints = state.checkpoints.filter(
+      ([number]) => number <= keptBlock
+    );
+    state.lastBlock = keptBlock;
+    return eventCount - state.events.length;
+  }
+
+  private provider(): Provider {
+    const provider = this.platform.runner?.provider;
+    if (!provider) {
+      throw new Error("The platform must be connected to a provider");
+    }
+    return provider;
+  }
+}
@@ -0,0 +1,104 @@
+export const SECONDS_PER_YEAR = 365n * 24n * 60n * 60n;
+// Scale of interest rates, which are yearly percentages (5% is 5e18)
+export const RATE_PRECISION = 10n ** 18n;
+// Scale of the borrow index, which starts at 1
+export const BORROW_INDEX_PRECISION = 10n ** 27n;
+// Scale of the scaled loan amounts, 1e18 finer than the index
+const SCALED_AMOUNT_PRECISION = BORROW_INDEX_PRECISION * 10n ** 18n;
+
+/**
+ * Off-chain copy of LendingPlatform.getBorrowIndex: compounds the borrow
+ * index every second at a yearly percentage rate, rounded down at each step
+ * like the contract
+ * @param borrowIndex Borrow index to start from
+ * @param interestRate Yearly interest rate in percent, scaled by RATE_PRECISION
+ * @param duration Time the index compounds for (in seconds)
+ */
+export function compoundBorrowIndex(
+  borrowIndex: bigint,
+  interestRate: bigint,
+  duration: bigint
+): bigint {
+  let base =
+    BORROW_INDEX_PRECISION +
+    (interestRate * (BORROW_INDEX_PRECISION / RATE_PRECISION)) /
+      (SECONDS_PER_YEAR * 100n);
+  let index = borrowIndex;
+  for (let left = duration; left > 0n; left /= 2n) {
+    if (left % 2n === 1n) {
+      index = (index * base) / BORROW_INDEX_PRECISION;
+    }
+    if (left > 1n) {
+      base = (base * base) / BORROW_INDEX_PRECISION;
+    }
+  }
+  return index;
+}
+
+/**
+ * Off-chain copy of the scaled amount LoanBook.borrow adds to a loan: the
+ * amount divided by the borrow index, rounded up
+ * @param amount Amount of tokens borrowed
+ * @param borrowIndex Borrow index when the amount was borrowed
+ */
+export function toScaledAmount(amount: bigint, borrowIndex: bigint): bigint {
+  return (amount * SCALED_AMOUNT_PRECISION + borrowIndex - 1n) / borrowIndex;
+}
+
+/**
+ * Amount owed on a scaled loan amount at a borrow index, rounded down like
+ * LoanBook.amountOwed
+ * @param scaledAmount Scaled amount of the loan
+ * @param borrowIndex Borrow index to convert at
+ */
+export function toDebt(scaledAmount: bigint, borrowIndex: bigint): bigint {
+  return (scaledAmount * borrowIndex) / SCALED_AMOUNT_PRECISION;
+}
+
+/**
+ * Interest the contract accrues on an amount borrowed at a constant rate
+ * @param amount Amount of tokens borrowed
+ * @param interestRate Yearly interest rate in percent, scaled by RATE_PRECISION
+ * @param duration Time elapsed since the amount was borrowed (in seconds)
+ * @param borrowIndex Borrow index when the amount was borrowed, which only
+ * affects the rounding
+ */
+export function calculateInterest(
+  amount: bigint,
+  interestRate: bigint,
+  duration: bigint,
+  borrowIndex = BORROW_INDEX_PRECISION
+): bigint {
+  return (
+    toDebt(
+      toScaledAmount(amount, borrowIndex),
+      compoundBorrowIndex(borrowIndex, interestRate, duration)
+    ) - amount
+  );
+}
+
+/**
+ * Off-chain copy of LoanBook.penaltyInterest: interest at the penalty
+ * rate on the principal of a fixed-term loan, from the end of its grace
+ * period (or the last checkpoint, if later) until the given time
+ * @param loan Principal, checkpoint time and due date (0 when open-ended)
+ * @param penaltyRate Yearly penalty rate in percent, scaled by RATE_PRECISION
+ * @param gracePeriod Time after the due date before the penalty applies
+ * @param atTimestamp Time the penalty is computed at (in seconds)
+ */
+export function calculatePenaltyInterest(
+  loan: { amount: bigint; startTime: bigint; dueDate: bigint },
+  penaltyRate: bigint,
+  gracePeriod: bigint,
+  atTimestamp: bigint
+): bigint {
+  const penaltyStart = loan.dueDate + gracePeriod;
+  if (loan.dueDate === 0n || atTimestamp <= penaltyStart) {
+    return 0n;
+  }
+  const from = loan.startTime > penaltyStart ? loan.startTime : penaltyStart;
+  return (
+    (loan.amount * penaltyRate * (atTimestamp - from)) /
+    (SECONDS_PER_YEAR * 100n * RATE_PRECISION)
+  );
+}
@@ -0,0 +1,570 @@
+import { Log, Provider, Signer, ZeroAddress } from "ethers";
+import type { IERC20, LendingPlatformWithCollateral } from "../typechain-types";
+import {
+  CollateralMarket,
+  CollateralParams,
+  PRICE_PRECISION,
+  isCovered,
+  tokenValueInEther,
+} from "./collateral";
+import {
+  calculatePenaltyInterest,
+  compoundBorrowIndex,
+  toDebt,
+} from "./interest";
+import { LOAN_STATES, LoanState } from "./LendingClient";
+
+// Gas assumed for a liquidation that cannot be estimated, e.g. in dry-run
+// mode before the keeper has approved any tokens
+const DEFAULT_LIQUIDATION_GAS = 300000n;
+
+/**
+ * Active loan of a position, rebuilt from its LoanUpdated events
+ */
+export interface KeeperLoan {
+  loanId: bigint;
+  principal: bigint;
+  // Interest checkpointed at updatedAt
+  interest: bigint;
+  updatedAt: bigint;
+  // Debt divided by the borrow index, which it compounds with
+  scaledAmount: bigint;
+  // Read from the platform when the loan opens, 0 for open-ended loans
+  dueDate: bigint;
+}
+
+/**
+ * Open position of a borrower, rebuilt from the platform logs
+ */
+export interface KeeperPosition {
+  borrower: string;
+  // Active loans by loan id
+  loans: Map<bigint, KeeperLoan>;
+  collateralEther: bigint;
+  collateralTokens: Map<string, bigint>;
+}
+
+/**
+ * A liquidation the keeper can send, with its expected outcome
+ */
+export interface LiquidationCandidate {
+  borrower: string;
+  // Defaulted loans are liquidatable however well they are collateralized
+  state: LoanState;
+  debt: bigint;
+  // Zero address when Ether collateral is seized
+  collateralAsset: string;
+  repayAmount: bigint;
+  collateralSeized: bigint;
+  // Value of the seized collateral in lending tokens
+  seizedValue: bigint;
+  // Gas cost of the liquidation in lending tokens
+  gasCost: bigint;
+  profit: bigint;
+}
+
+export interface KeeperLogEntry {
+  event: string;
+  [field: string]: unknown;
+}
+
+export type KeeperLogger = (entry: KeeperLogEntry) => void;
+
+export interface KeeperOptions {
+  // Log the liquidations instead of sending them
+  dryRun?: boolean;
+  // Minimum expected profit in lending tokens, after gas
+  minProfit?: bigint;
+  // Block to rebuild the positions from
+  fromBlock?: number;
+  logger?: KeeperLogger;
+}
+
+/**
+ * Prints a log entry as one line of JSON, with bigints as strings
+ */
+export function jsonLogger(entry: KeeperLogEntry): void {
+  console.log(
+    JSON.stringify({ time: new Date().toISOString(), ...entry }, (_, value) =>
+      typeof value === "bigint" ? value.toString() : value
+    )
+  );
+}
+
+/**
+ * Watches a LendingPlatformWithCollateral and liquidates the positions whose
+ * collateral fell below the liquidation ratio. Positions are rebuilt from the
+ * platform logs, and their health is computed off-chain with the same math as
+ * the contract, so only liquidatable positions cost gas.
+ */
+export class LiquidationKeeper {
+  readonly positions = new Map<string, KeeperPosition>();
+  readonly platform: LendingPlatformWithCollateral;
+  readonly token: IERC20;
+  private readonly provider: Provider;
+  private readonly dryRun: boolean;
+  private readonly minProfit: bigint;
+  private readonly log: KeeperLogger;
+  private syncedBlock: number;
+  // Loans opened since the last sync, with no due date yet, and their
+  // borrowers
+  private readonly openedLoans = new Map<KeeperLoan, string>();
+  private running: Promise<void> = Promise.resolve();
+
+  /**
+   * @param platform Platform to watch
+   * @param token Token the platform lends, used to repay debts
+   * @param signer Account sending the liquidations and holding the tokens
+   * @param options Dry-run mode, profit threshold, first block and logger
+   */
+  constructor(
+    platform: LendingPlatformWithCollateral,
+    token: IERC20,
+    readonly signer: Signer,
+    options: KeeperOptions = {}
+  ) {
+    if (signer.provider === null) {
+      throw new Error("The keeper signer must be connected to a provider");
+    }
+    this.platform = platform.connect(signer);
+    this.token = token.connect(signer);
+    this.provider = signer.provider;
+    this.dryRun = options.dryRun ?? false;
+    this.minProfit = options.minProfit ?? 0n;
+    this.log = options.logger ?? jsonLogger;
+    this.syncedBlock = (options.fromBlock ?? 0) - 1;
+  }
+
+  /**
+   * Checks every new block until the returned function is called
+   * @returns Once blocks are being watched, a function that stops the keeper
+   * once the block being checked is done
+   */
+  async start(): Promise<() => Promise<void>> {
+    const listener = (blockNumber: number) => {
+      // Blocks are checked one at a time, in order
+      this.running = this.running
+        .then(() => this.runOnce(blockNumber))
+        .then(
+          () => undefined,
+          (error) =>
+            this.log({
+              event: "error",
+              block: blockNumber,
+              message: String(error),
+            })
+        );
+    };
+    await this.provider.on("block", listener);
+    this.log({ event: "started", dryRun: this.dryRun });
+
+    return async () => {
+      await this.provider.off("block", listener);
+      await this.running;
+      this.log({ event: "stopped" });
+    };
+  }
+
+  /**
+   * Updates the positions up to a block and liquidates the unhealthy ones
+   * @param blockNumber Block to check (defaults to the latest)
+   * @returns The liquidations found, whether or not they were sent
+   */
+  async runOnce(blockNumber?: number): Promise<LiquidationCandidate[]> {
+    const block = await this.provider.getBlock(blockNumber ?? "latest");
+    if (block === null) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    await this.sync(block.number);
+
+    const candidates = await this.findCandidates(BigInt(block.timestamp));
+    this.log({
+      event: "block",
+      block: block.number,
+      positions: this.openPositions().length,
+      liquidatable: candidates.length,
+    });
+
+    for (const candidate of candidates) {
+      await this.handle(candidate, block.number);
+    }
+    return candidates;
+  }
+
+  /**
+   * Applies the platform logs up to the given block to the positions
+   * @param toBlock Last block to include
+   */
+  async sync(toBlock: number): Promise<void> {
+    if (toBlock <= this.syncedBlock) {
+      return;
+    }
+    const logs = await this.provider.getLogs({
+      address: await this.platform.getAddress(),
+      fromBlock: this.syncedBlock + 1,
+      toBlock,
+    });
+    for (const log of logs) {
+      this.apply(log);
+    }
+
+    // The due date is not part of the logs, and stays the same until the
+    // loan is closed
+    for (const [loan, borrower] of this.openedLoans) {
+      loan.dueDate = (
+        await this.platform.getLoan(borrower, loan.loanId, {
+          blockTag: toBlock,
+        })
+      ).dueDate;
+    }
+    this.openedLoans.clear();
+    this.syncedBlock = toBlock;
+  }
+
+  /**
+   * Returns the positions with an active loan
+   */
+  openPositions(): KeeperPosition[] {
+    return [...this.positions.values()].filter(
+      (position) => position.loans.size > 0
+    );
+  }
+
+  /**
+   * Computes the health of every open position at the given time, like
+   * isLiquidatable, and quotes the liquidation of the unhealthy ones and of
+   * those with a loan in default
+   * @param timestamp Time the debts are computed at
+   */
+  async findCandidates(timestamp: bigint): Promise<LiquidationCandidate[]> {
+    const positions = this.openPositions();
+    if (positions.length === 0) {
+      return [];
+    }
+
+    const market = await this.readMarket();
+    const borrowIndex = compoundBorrowIndex(
+      await this.platform.borrowIndex(),
+      await this.platform.getInterestRate(),
+      timestamp - (await this.platform.lastAccrualTime())
+    );
+    const gracePeriod = await this.platform.gracePeriod();
+    const penaltyRate = await this.platform.penaltyRate();
+    const defaultPeriod = await this.platform.defaultPeriod();
+
+    const candidates: LiquidationCandidate[] = [];
+    for (const position of positions) {
+      // Same as amountOwed: the scaled amounts at the current borrow index,
+      // plus the penalty on overdue principal, and the state of the most
+      // overdue loan like loanState
+      let debt = 0n;
+      let state: LoanState = "current";
+      for (const loan of position.loans.values()) {
+        debt +=
+          toDebt(loan.scaledAmount, borrowIndex) +
+          calculatePenaltyInterest(
+            {
+              amount: loan.principal,
+              startTime: loan.updatedAt,
+              dueDate: loan.dueDate,
+            },
+            penaltyRate,
+            gracePeriod,
+            timestamp
+          );
+        const loanState = loanStateAt(loan.dueDate, defaultPeriod, timestamp);
+        if (LOAN_STATES.indexOf(loanState) > LOAN_STATES.indexOf(state)) {
+          state = loanState;
+        }
+      }
+      const healthy =
+        state !== "defaulted" &&
+        isCovered(
+          debt,
+          position.collateralEther,
+          position.collateralTokens,
+          market,
+          true
+        );
+      if (!healthy) {
+        candidates.push(await this.quote(position, state, debt, market));
+      }
+    }
+    return candidates;
+  }
+
+  private async handle(
+    candidate: LiquidationCandidate,
+    blockNumber: number
+  ): Promise<void> {
+    const entry = { block: blockNumber, ...candidate };
+
+    if (candidate.profit < this.minProfit) {
+      this.log({
+        event: "skipped",
+        reason: "below profit threshold",
+        minProfit: this.minProfit,
+        ...entry,
+      });
+      return;
+    }
+    if (this.dryRun) {
+      this.log({ event: "dry-run", ...entry });
+      return;
+    }
+
+    const liquidator = await this.signer.getAddress();
+    if ((await this.token.balanceOf(liquidator)) < candidate.repayAmount) {
+      this.log({ event: "skipped", reason: "insufficient balance", ...entry });
+      return;
+    }
+
+    try {
+      await this.ensureAllowance(candidate.repayAmount);
+      const tx = await this.sendLiquidation(candidate);
+      const receipt = await tx.wait();
+      const liquidated = receipt?.logs
+        .map((log) => this.platform.interface.parseLog(log))
+        .find((parsed) => parsed?.name === "Liquidated");
+      this.log({
+        event: "liquidated",
+        ...entry,
+        hash: receipt?.hash,
+        repaidAmount: liquidated?.args.repaidAmount,
+        collateralSeized: liquidated?.args.collateralSeized,
+        badDebt: liquidated?.args.badDebt,
+      });
+    } catch (error) {
+      this.log({
+        event: "liquidation failed",
+        ...entry,
+        message: error instanceof Error ? error.message : String(error),
+      });
+    }
+  }
+
+  /**
+   * Quotes the liquidation of the most valuable collateral asset of a
+   * position, following the close factor, bonus and cap of the contract.
+   * Defaulted loans can be repaid in full.
+   */
+  private async quote(
+    position: KeeperPosition,
+    state: LoanState,
+    debt: bigint,
+    market: CollateralMarket
+  ): Promise<LiquidationCandidate> {
+    const closeFactor = await this.platform.closeFactor();
+    const liquidationBonus = await this.platform.liquidationBonus();
+
+    let collateralAsset = ZeroAddress;
+    let collateral = position.collateralEther;
+    let params = market.ether;
+    for (const [asset, amount] of position.collateralTokens) {
+      const assetParams = market.assets.get(asset);
+      if (
+        assetParams !== undefined &&
+        amount * assetParams.price > collateral * params.price
+      ) {
+        collateralAsset = asset;
+        collateral = amount;
+        params = assetParams;
+      }
+    }
+
+    let repayAmount =
+      state === "defaulted" ? debt : (debt * closeFactor) / 100n;
+    let collateralSeized =
+      (tokenValueInEther(repayAmount, params.price) *
+        (100n + liquidationBonus)) /
+      100n;
+    if (collateralSeized > collateral) {
+      collateralSeized = collateral;
+      repayAmount =
+        (collateral * params.price * 100n) /
+        (PRICE_PRECISION * (100n + liquidationBonus));
+    }
+    const seizedValue = (collateralSeized * params.price) / PRICE_PRECISION;
+
+    const gas = await this.estimateGas(
+      position.borrower,
+      collateralAsset,
+      repayAmount
+    );
+    const feeData = await this.provider.getFeeData();
+    const gasPrice = feeData.gasPrice ?? feeData.maxFeePerGas ?? 0n;
+    const gasCost = (gas * gasPrice * market.ether.price) / PRICE_PRECISION;
+
+    return {
+      borrower: position.borrower,
+      state,
+      debt,
+      collateralAsset,
+      repayAmount,
+      collateralSeized,
+      seizedValue,
+      gasCost,
+      profit: seizedValue - repayAmount - gasCost,
+    };
+  }
+
+  private async estimateGas(
+    borrower: string,
+    collateralAsset: string,
+    repayAmount: bigint
+  ): Promise<bigint> {
+    try {
+      return collateralAsset === ZeroAddress
+        ? await this.platform.liquidate.estimateGas(borrower, repayAmount)
+        : await this.platform.liquidateCollateralToken.estimateGas(
+            borrower,
+            collateralAsset,
+            repayAmount
+          );
+    } catch {
+      return DEFAULT_LIQUIDATION_GAS;
+    }
+  }
+
+  private sendLiquidation(candidate: LiquidationCandidate) {
+    return candidate.collateralAsset === ZeroAddress
+      ? this.platform.liquidate(candidate.borrower, candidate.repayAmount)
+      : this.platform.liquidateCollateralToken(
+          candidate.borrower,
+          candidate.collateralAsset,
+          candidate.repayAmount
+        );
+  }
+
+  private async ensureAllowance(amount: bigint): Promise<void> {
+    const owner = await this.signer.getAddress();
+    const spender = await this.platform.getAddress();
+    if ((await this.token.allowance(owner, spender)) >= amount) {
+      return;
+    }
+    await (await this.token.approve(spender, amount)).wait();
+  }
+
+  /**
+   * Reads the prices and ratios of Ether and the listed collateral assets
+   */
+  private async readMarket(): Promise<CollateralMarket> {
+    const ether: CollateralParams = {
+      price: await this.platform.getPrice(),
+      collateralizationRatio: await this.platform.collateralizationRatio(),
+      liquidationRatio: await this.platform.liquidationRatio(),
+    };
+
+    const assets = new Map<string, CollateralParams>();
+    for (const asset of await this.platform.getCollateralAssets()) {
+      const params = await this.platform.collateralAssets(asset);
+      assets.set(asset, {
+        price: await this.platform.getAssetPrice(asset),
+        collateralizationRatio: params.collateralizationRatio,
+        liquidationRatio: params.liquidationRatio,
+      });
+    }
+    return { ether, assets };
+  }
+
+  private apply(log: Log): void {
+    const parsed = this.platform.interface.parseLog(log);
+    if (parsed === null) {
+      return;
+    }
+
+    const { args } = parsed;
+    switch (parsed.name) {
+      // Emitted with every change to a loan, with its state after the change
+      case "LoanUpdated": {
+        const { loans } = this.position(args.borrower);
+        let loan = loans.get(args.loanId);
+        if (args.principal + args.interest === 0n) {
+          if (loan !== undefined) {
+            this.openedLoans.delete(loan);
+            loans.delete(args.loanId);
+          }
+          break;
+        }
+        const update = {
+          principal: args.principal,
+          interest: args.interest,
+          updatedAt: args.timestamp,
+          scaledAmount: args.scaledAmount,
+        };
+        if (loan === undefined) {
+          loan = { loanId: args.loanId, dueDate: 0n, ...update };
+          loans.set(args.loanId, loan);
+          this.openedLoans.set(loan, args.borrower);
+        } else {
+          Object.assign(loan, update);
+        }
+        break;
+      }
+      case "CollateralDeposited":
+        this.position(args.user).collateralEther += args.amount;
+        break;
+      case "CollateralWithdrawn":
+        this.position(args.user).collateralEther -= args.amount;
+        break;
+      case "CollateralTokenDeposited":
+        this.addCollateralToken(args.user, args.asset, args.amount);
+        break;
+      case "CollateralTokenWithdrawn":
+        this.addCollateralToken(
+          args.user,
+          args.asset,
+          -(args.amount as bigint)
+        );
+        break;
+      case "Liquidated":
+        if (args.collateralAsset === ZeroAddress) {
+          this.position(args.borrower).collateralEther -= args.collateralSeized;
+        } else {
+          this.addCollateralToken(
+            args.borrower,
+            args.collateralAsset,
+            -(args.collateralSeized as bigint)
+          );
+        }
+        break;
+    }
+  }
+
+  private position(borrower: string): KeeperPosition {
+    let position = this.positions.get(borrower);
+    if (position === undefined) {
+      position = {
+        borrower,
+        loans: new Map(),
+        collateralEther: 0n,
+        collateralTokens: new Map(),
+      };
+      this.positions.set(borrower, position);
+    }
+    return position;
+  }
+
+  private addCollateralToken(user: string, asset: string, amount: bigint) {
+    const tokens = this.position(user).collateralTokens;
+    tokens.set(asset, (tokens.get(asset) ?? 0n) + amount);
+  }
+}
+
+/**
+ * Off-chain copy of the state of an open loan, the most overdue of which is
+ * LendingPlatform.loanState
+ * @param dueDate Due date of the loan, 0 when open-ended
+ * @param defaultPeriod Time after the due date after which a loan is in default
+ * @param timestamp Time the state is computed at (in seconds)
+ */
+function loanStateAt(
+  dueDate: bigint,
+  defaultPeriod: bigint,
+  timestamp: bigint
+): LoanState {
+  if (dueDate === 0n || timestamp <= dueDate) {
+    return "current";
+  }
+  return timestamp <= dueDate + defaultPeriod ? "late" : "defaulted";
+}
@@ -0,0 +1,68 @@
+import { Signature, Signer, TypedDataDomain } from "ethers";
+import type { MyToken } from "../typechain-types";
+
+// Lifetime of the permits signed by LendingClient and the tasks, in seconds
+export const PERMIT_DURATION = 3600n;
+
+// EIP-2612 Permit struct, as hashed by OpenZeppelin's ERC20Permit
+const PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+/**
+ * Signed EIP-2612 permit, split into the arguments of lendWithPermit and
+ * repayWithPermit
+ */
+export interface PermitSignature {
+  owner: string;
+  spender: string;
+  value: bigint;
+  nonce: bigint;
+  deadline: bigint;
+  v: number;
+  r: string;
+  s: string;
+}
+
+/**
+ * Signs a permit letting `spender` transfer `value` tokens of the signer.
+ * The EIP-712 domain is read from the token (ERC-5267), so the signature
+ * matches the name, version and chain the token was deployed with.
+ * @param token Token implementing EIP-2612, such as MyToken
+ * @param owner Holder of the tokens, who signs the permit
+ * @param spender Address allowed to spend the tokens, usually the platform
+ * @param value Allowance in base units
+ * @param deadline Timestamp (in seconds) after which the permit is rejected
+ * @param nonce Nonce to sign, the next unused nonce of the owner when omitted
+ */
+export async function signPermit(
+  token: MyToken,
+  owner: Signer,
+  spender: string,
+  value: bigint,
+  deadline: bigint,
+  nonce?: bigint
+): Promise<PermitSignature> {
+  const ownerAddress = await owner.getAddress();
+  const [, name, version, chainId, verifyingContract] =
+    await token.eip712Domain();
+  const domain: TypedDataDomain = { name, version, chainId, verifyingContract };
+  const message = {
+    owner: ownerAddress,
+    spender,
+    value,
+    nonce: nonce ?? (await token.nonces(ownerAddress)),
+    deadline,
+  };
+
+  const { v, r, s } = Signature.from(
+    await owner.signTypedData(domain, PERMIT_TYPES, message)
+  );
+  return { ...message, v, r, s };
+}
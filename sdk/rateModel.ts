@@ -0,0 +1,51 @@
+import { RATE_PRECISION } from "./interest";
+
+/**
+ * Parameters of a KinkedRateModel deployment, all scaled by RATE_PRECISION.
+ * Rates are yearly percentages and the kink is a utilization fraction.
+ */
+export interface KinkedRateModelParams {
+  baseRate: bigint;
+  slope1: bigint;
+  slope2: bigint;
+  kink: bigint;
+}
+
+/**
+ * Off-chain copy of KinkedRateModel.utilizationRate
+ * @param available Tokens available in the pool
+ * @param borrowed Tokens currently lent out
+ * @returns Utilization of the pool, scaled by RATE_PRECISION
+ */
+export function utilizationRate(available: bigint, borrowed: bigint): bigint {
+  if (borrowed === 0n) {
+    return 0n;
+  }
+  return (borrowed * RATE_PRECISION) / (available + borrowed);
+}
+
+/**
+ * Off-chain copy of KinkedRateModel.getBorrowRate, using the same integer
+ * math so the results match the contract exactly
+ * @param params Shape of the rate curve
+ * @param available Tokens available in the pool
+ * @param borrowed Tokens currently lent out
+ * @returns Yearly interest rate in percent, scaled by RATE_PRECISION
+ */
+export function borrowRate(
+  params: KinkedRateModelParams,
+  available: bigint,
+  borrowed: bigint
+): bigint {
+  const { baseRate, slope1, slope2, kink } = params;
+  const utilization = utilizationRate(available, borrowed);
+
+  if (utilization <= kink) {
+    return baseRate + (slope1 * utilization) / kink;
+  }
+  return (
+    baseRate +
+    slope1 +
+    (slope2 * (utilization - kink)) / (RATE_PRECISION - kink)
+  );
+}
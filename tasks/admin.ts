@@ -0,0 +1,392 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ZeroAddress } from "ethers";
+import type { LendingPlatformWithCollateral } from "../typechain-types";
+import UpgradeLendingPlatformModule from "../ignition/modules/UpgradeLendingPlatform";
+import UpgradeLendingPlatformWithCollateralModule from "../ignition/modules/UpgradeLendingPlatformWithCollateral";
+import {
+  PLATFORM_UPGRADE_OPTIONS,
+  PlatformContractName,
+  getImplementationFactory,
+  getPlatformFactory,
+  loadDeployment,
+} from "../scripts/deployment";
+import {
+  ContractArgs,
+  lendingTask,
+  printEvents,
+  printRows,
+  resolveContracts,
+} from "./utils";
+
+const SECONDS_PER_DAY = 86400n;
+
+/**
+ * Arguments of the tasks that check the storage layout of a platform
+ */
+interface UpgradeArgs extends ContractArgs {
+  contract?: string;
+}
+
+/**
+ * Connects to the platform like resolveContracts and finds the name of its
+ * contract: --contract, else the contract of the Ignition deployment, else
+ * LendingPlatformWithCollateral for a platform given with --platform
+ * @param hre Hardhat runtime environment
+ * @param args Optional platform address and contract name
+ */
+async function resolvePlatform(
+  hre: HardhatRuntimeEnvironment,
+  args: UpgradeArgs
+) {
+  const { lendingPlatform, signer } = await resolveContracts(hre, args);
+
+  let contractName = args.contract;
+  if (contractName === undefined) {
+    contractName =
+      args.platform === undefined
+        ? (await loadDeployment(hre)).contractName
+        : "LendingPlatformWithCollateral";
+  }
+  if (
+    contractName !== "LendingPlatform" &&
+    contractName !== "LendingPlatformWithCollateral"
+  ) {
+    throw new Error(`Unknown platform contract ${contractName}`);
+  }
+  return {
+    lendingPlatform,
+    signer,
+    contractName: contractName as PlatformContractName,
+  };
+}
+
+/**
+ * Finds the call queued under the given id from the ChangeQueued events
+ * @param lendingPlatform Platform the change was queued on
+ * @param id Id printed by the queue task
+ */
+async function findQueuedCall(
+  lendingPlatform: LendingPlatformWithCollateral,
+  id: string
+): Promise<string> {
+  const queued = await lendingPlatform.queryFilter(
+    lendingPlatform.filters.ChangeQueued(id)
+  );
+  if (queued.length === 0) {
+    throw new Error(`No change queued with id ${id}`);
+  }
+  return queued[queued.length - 1].args.data;
+}
+
+lendingTask(
+  task("pause", "Pauses lending and borrowing (owner only)")
+).setAction(async (args: ContractArgs, hre) => {
+  const { lendingPlatform } = await resolveContracts(hre, args);
+
+  const tx = await lendingPlatform.pause();
+  await printEvents(tx, lendingPlatform.interface);
+});
+
+lendingTask(
+  task("unpause", "Resumes lending and borrowing (owner only)")
+).setAction(async (args: ContractArgs, hre) => {
+  const { lendingPlatform } = await resolveContracts(hre, args);
+
+  const tx = await lendingPlatform.unpause();
+  await printEvents(tx, lendingPlatform.interface);
+});
+
+lendingTask(
+  task("queue-rate-model", "Queues a new interest rate model (owner only)")
+)
+  .addParam("model", "Address of the new rate model")
+  .setAction(async (args: ContractArgs & { model: string }, hre) => {
+    const { lendingPlatform } = await resolveContracts(hre, args);
+
+    const data = lendingPlatform.interface.encodeFunctionData("setRateModel", [
+      args.model,
+    ]);
+    const tx = await lendingPlatform.queueChange(data);
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(
+  task(
+    "queue-ratios",
+    "Queues new collateralization and liquidation ratios (owner only)"
+  )
+)
+  .addParam("collateralization", "Collateralization ratio in percent")
+  .addParam("liquidation", "Liquidation ratio in percent")
+  .setAction(
+    async (
+      args: ContractArgs & { collateralization: string; liquidation: string },
+      hre
+    ) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      const data = lendingPlatform.interface.encodeFunctionData("setRatios", [
+        BigInt(args.collateralization),
+        BigInt(args.liquidation),
+      ]);
+      const tx = await lendingPlatform.queueChange(data);
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(
+  task("queue-flash-loan-fee", "Queues a new flash loan fee (owner only)")
+)
+  .addParam("fee", "Fee in basis points (e.g. 9 for 0.09%)")
+  .setAction(async (args: ContractArgs & { fee: string }, hre) => {
+    const { lendingPlatform } = await resolveContracts(hre, args);
+
+    const data = lendingPlatform.interface.encodeFunctionData(
+      "setFlashLoanFee",
+      [BigInt(args.fee)]
+    );
+    const tx = await lendingPlatform.queueChange(data);
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(
+  task(
+    "queue-loan-term",
+    "Queues offering or withdrawing a loan term (owner only)"
+  )
+)
+  .addParam("days", "Loan term in days", undefined, types.int)
+  .addFlag("withdraw", "Stop offering the term instead of offering it")
+  .setAction(
+    async (args: ContractArgs & { days: number; withdraw: boolean }, hre) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      const data = lendingPlatform.interface.encodeFunctionData("setLoanTerm", [
+        BigInt(args.days) * SECONDS_PER_DAY,
+        !args.withdraw,
+      ]);
+      const tx = await lendingPlatform.queueChange(data);
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(
+  task(
+    "queue-late-payment-terms",
+    "Queues a new grace period, penalty rate and default period (owner only)"
+  )
+)
+  .addParam("graceDays", "Days after the due date before the penalty applies")
+  .addParam("penaltyRate", "Yearly penalty rate in percent (e.g. 10)")
+  .addParam("defaultDays", "Days after the due date before a loan defaults")
+  .setAction(
+    async (
+      args: ContractArgs & {
+        graceDays: string;
+        penaltyRate: string;
+        defaultDays: string;
+      },
+      hre
+    ) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      const data = lendingPlatform.interface.encodeFunctionData(
+        "setLatePaymentTerms",
+        [
+          BigInt(args.graceDays) * SECONDS_PER_DAY,
+          hre.ethers.parseEther(args.penaltyRate),
+          BigInt(args.defaultDays) * SECONDS_PER_DAY,
+        ]
+      );
+      const tx = await lendingPlatform.queueChange(data);
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(
+  task(
+    "queue-collateral-asset",
+    "Queues listing an ERC-20 collateral token or new parameters for it (owner only)"
+  )
+)
+  .addParam("asset", "Address of the collateral token")
+  .addParam("collateralization", "Collateralization ratio in percent")
+  .addParam("liquidation", "Liquidation ratio in percent")
+  .addParam(
+    "oracle",
+    "Price oracle reporting lending tokens per collateral token"
+  )
+  .setAction(
+    async (
+      args: ContractArgs & {
+        asset: string;
+        collateralization: string;
+        liquidation: string;
+        oracle: string;
+      },
+      hre
+    ) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      const data = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [
+          args.asset,
+          BigInt(args.collateralization),
+          BigInt(args.liquidation),
+          args.oracle,
+        ]
+      );
+      const tx = await lendingPlatform.queueChange(data);
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(
+  task("execute-change", "Executes a queued change once its delay has passed")
+)
+  .addParam("id", "Id of the queued change")
+  .setAction(async (args: ContractArgs & { id: string }, hre) => {
+    const { lendingPlatform } = await resolveContracts(hre, args);
+
+    const data = await findQueuedCall(lendingPlatform, args.id);
+    const tx = await lendingPlatform.executeChange(data);
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(task("cancel-change", "Cancels a queued change (owner only)"))
+  .addParam("id", "Id of the queued change")
+  .setAction(async (args: ContractArgs & { id: string }, hre) => {
+    const { lendingPlatform } = await resolveContracts(hre, args);
+
+    const tx = await lendingPlatform.cancelChange(args.id);
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(
+  task("queued-changes", "Prints the changes waiting in the timelock")
+).setAction(async (args: ContractArgs, hre) => {
+  const { lendingPlatform } = await resolveContracts(hre, args);
+
+  const rows: [string, string][] = [];
+  const seen = new Set<string>();
+  const queued = await lendingPlatform.queryFilter(
+    lendingPlatform.filters.ChangeQueued()
+  );
+  // Executed and cancelled changes are no longer in queuedChanges
+  for (const event of queued) {
+    const { id, data } = event.args;
+    if (seen.has(id)) {
+      continue;
+    }
+    seen.add(id);
+
+    const executableAt = await lendingPlatform.queuedChanges(id);
+    if (executableAt === 0n) {
+      continue;
+    }
+    const call = lendingPlatform.interface.parseTransaction({ data });
+    const description =
+      call === null ? data : `${call.name}(${call.args.join(", ")})`;
+    rows.push([
+      id,
+      `${description} executable at ${new Date(
+        Number(executableAt) * 1000
+      ).toISOString()}`,
+    ]);
+  }
+
+  if (rows.length === 0) {
+    console.log("No queued changes");
+    return;
+  }
+  printRows(rows);
+});
+
+lendingTask(
+  task(
+    "register-platform",
+    "Records the storage layout of the deployed platform, which upgrade-platform checks new versions against. Run it right after deploying the platform."
+  )
+)
+  .addOptionalParam(
+    "contract",
+    "Platform contract (defaults to the one of the Ignition deployment)"
+  )
+  .setAction(async (args: UpgradeArgs, hre) => {
+    const { lendingPlatform, contractName } = await resolvePlatform(hre, args);
+    const platform = await lendingPlatform.getAddress();
+
+    await hre.upgrades.forceImport(
+      platform,
+      await getImplementationFactory(
+        hre,
+        contractName,
+        await hre.upgrades.erc1967.getImplementationAddress(platform)
+      ),
+      PLATFORM_UPGRADE_OPTIONS
+    );
+    console.log(`Registered ${contractName} at ${platform}`);
+  });
+
+lendingTask(
+  task(
+    "upgrade-platform",
+    "Checks the storage layout of the current code against the deployed platform, then deploys it and queues the upgrade to it (owner only)"
+  )
+)
+  .addOptionalParam(
+    "contract",
+    "Platform contract (defaults to the one of the Ignition deployment)"
+  )
+  .setAction(async (args: UpgradeArgs, hre) => {
+    const { lendingPlatform, signer, contractName } = await resolvePlatform(
+      hre,
+      args
+    );
+    const platform = await lendingPlatform.getAddress();
+
+    // Rejects versions that would read the state of the proxy from the wrong
+    // slots, before anything is deployed or queued. Only the storage layout
+    // of the factory is read, so the libraries it links to do not matter.
+    await hre.upgrades.validateUpgrade(
+      platform,
+      await getPlatformFactory(hre, contractName, {
+        ChangeQueue: ZeroAddress,
+        LoanBook: ZeroAddress,
+      }),
+      PLATFORM_UPGRADE_OPTIONS
+    );
+
+    const upgradeModule =
+      contractName === "LendingPlatform"
+        ? UpgradeLendingPlatformModule
+        : UpgradeLendingPlatformWithCollateralModule;
+    const { implementation } = await hre.ignition.deploy(
+      upgradeModule as typeof UpgradeLendingPlatformWithCollateralModule,
+      {
+        parameters: { [upgradeModule.id]: { platform } },
+        defaultSender: signer.address,
+      }
+    );
+    const implementationAddress = await implementation.getAddress();
+
+    // Record the layout of the new version, which the next upgrade is
+    // checked against once this one is executed
+    await hre.upgrades.forceImport(
+      implementationAddress,
+      await getImplementationFactory(hre, contractName, implementationAddress),
+      PLATFORM_UPGRADE_OPTIONS
+    );
+
+    const queued = await lendingPlatform.queryFilter(
+      lendingPlatform.filters.ChangeQueued()
+    );
+    const { id, executableAt } = queued[queued.length - 1].args;
+    printRows([
+      ["Implementation", implementationAddress],
+      ["Change id", id],
+      ["Executable at", new Date(Number(executableAt) * 1000).toISOString()],
+    ]);
+  });
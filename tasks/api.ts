@@ -0,0 +1,35 @@
+import { task, types } from "hardhat/config";
+import { ContractArgs, lendingTask, resolveContracts } from "./utils";
+import { createApiServer } from "../sdk/api";
+
+lendingTask(
+  task("serve-api", "Serves pool and position data as JSON over HTTP")
+)
+  .addOptionalParam("port", "Port to listen on", 3000, types.int)
+  .addOptionalParam("host", "Interface to listen on", "127.0.0.1")
+  .addOptionalParam(
+    "fromBlock",
+    "Block to find the borrowers of /liquidatable from",
+    0,
+    types.int
+  )
+  .setAction(
+    async (
+      args: ContractArgs & { port: number; host: string; fromBlock: number },
+      hre
+    ) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      const server = createApiServer(lendingPlatform, {
+        fromBlock: args.fromBlock,
+      });
+      await new Promise<void>((resolve) =>
+        server.listen(args.port, args.host, resolve)
+      );
+      console.log(`Serving the API on http://${args.host}:${args.port}`);
+
+      // Runs until interrupted
+      await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+      await new Promise((resolve) => server.close(resolve));
+    }
+  );
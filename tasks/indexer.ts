@@ -0,0 +1,99 @@
+import path from "path";
+import { task, types } from "hardhat/config";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import {
+  ContractArgs,
+  OutputArgs,
+  lendingTask,
+  printRows,
+  resolveContracts,
+  writeExport,
+} from "./utils";
+import { JsonFileStore, LoanIndexer } from "../sdk/indexer";
+import { accountStatement, poolSummary } from "../sdk/history";
+
+interface IndexArgs extends ContractArgs {
+  store?: string;
+  fromBlock: number;
+}
+
+interface ExportArgs extends IndexArgs, OutputArgs {}
+
+/**
+ * Adds the parameters of the tasks reading the event index
+ * @param definition Task definition to extend
+ */
+function indexTask(definition: ConfigurableTaskDefinition) {
+  return lendingTask(definition)
+    .addOptionalParam(
+      "store",
+      "Index file (defaults to indexer/<network>-<platform>.json)"
+    )
+    .addOptionalParam(
+      "fromBlock",
+      "Block to index from on the first run",
+      0,
+      types.int
+    );
+}
+
+/**
+ * Brings the index of the platform up to the latest block
+ * @param hre Hardhat runtime environment
+ * @param args Contract, store and first block arguments
+ */
+async function updateIndex(hre: HardhatRuntimeEnvironment, args: IndexArgs) {
+  const { lendingPlatform, signer } = await resolveContracts(hre, args);
+  const file =
+    args.store ??
+    path.join(
+      hre.config.paths.root,
+      "indexer",
+      `${hre.network.name}-${await lendingPlatform.getAddress()}.json`
+    );
+  const indexer = new LoanIndexer(lendingPlatform, new JsonFileStore(file), {
+    fromBlock: args.fromBlock,
+  });
+  const result = await indexer.index();
+  return { indexer, result, file, signer };
+}
+
+indexTask(
+  task("index", "Indexes the platform events since the last run")
+).setAction(async (args: IndexArgs, hre) => {
+  const { result, file } = await updateIndex(hre, args);
+
+  printRows([
+    ["Store", file],
+    ["Blocks", `${result.fromBlock} to ${result.toBlock}`],
+    ["New events", result.added.toString()],
+    ["Removed by reorgs", result.removed.toString()],
+  ]);
+});
+
+indexTask(task("export-statement", "Exports the loan history of an account"))
+  .addOptionalParam("account", "Account address (defaults to the signer)")
+  .addOptionalParam("format", "json or csv", "json")
+  .addOptionalParam("out", "File to write (defaults to printing it)")
+  .setAction(async (args: ExportArgs & { account?: string }, hre) => {
+    const { indexer, signer } = await updateIndex(hre, args);
+
+    const statement = accountStatement(
+      await indexer.history(),
+      args.account ?? signer.address
+    );
+    await writeExport(args, statement, statement.entries);
+  });
+
+indexTask(task("export-summary", "Exports the pool totals over all loans"))
+  .addOptionalParam("format", "json or csv", "json")
+  .addOptionalParam("out", "File to write (defaults to printing it)")
+  .setAction(async (args: ExportArgs, hre) => {
+    const { indexer } = await updateIndex(hre, args);
+
+    const summary = poolSummary(await indexer.history());
+    await writeExport(args, summary, [summary]);
+  });
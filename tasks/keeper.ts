@@ -0,0 +1,59 @@
+import { task, types } from "hardhat/config";
+import {
+  ContractArgs,
+  lendingTask,
+  parseTokenAmount,
+  resolveContracts,
+} from "./utils";
+import { LiquidationKeeper } from "../sdk/keeper";
+
+lendingTask(
+  task(
+    "keeper",
+    "Liquidates unhealthy positions on every new block, logging JSON lines"
+  )
+)
+  .addFlag("dryRun", "Log the liquidations without sending them")
+  .addFlag("once", "Check the latest block once and exit")
+  .addOptionalParam(
+    "minProfit",
+    "Minimum expected profit in tokens after gas (e.g. 0.5)",
+    "0"
+  )
+  .addOptionalParam(
+    "fromBlock",
+    "Block to rebuild the positions from",
+    0,
+    types.int
+  )
+  .setAction(
+    async (
+      args: ContractArgs & {
+        dryRun: boolean;
+        once: boolean;
+        minProfit: string;
+        fromBlock: number;
+      },
+      hre
+    ) => {
+      const { myToken, lendingPlatform, signer } = await resolveContracts(
+        hre,
+        args
+      );
+      const keeper = new LiquidationKeeper(lendingPlatform, myToken, signer, {
+        dryRun: args.dryRun,
+        minProfit: await parseTokenAmount(myToken, args.minProfit),
+        fromBlock: args.fromBlock,
+      });
+
+      if (args.once) {
+        await keeper.runOnce();
+        return;
+      }
+
+      // Runs until interrupted, finishing the block being checked
+      const stop = await keeper.start();
+      await new Promise<void>((resolve) => process.once("SIGINT", resolve));
+      await stop();
+    }
+  );
@@ -0,0 +1,528 @@
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import {
+  ContractArgs,
+  formatTokenAmount,
+  lendingTask,
+  parseTokenAmount,
+  printEvents,
+  printRows,
+  resolveContracts,
+} from "./utils";
+import {
+  LOAN_STATES,
+  REPAY_QUOTE_BUFFER,
+  quoteLoanRepayment,
+  readLoans,
+} from "../sdk/LendingClient";
+import { PERMIT_DURATION, signPermit } from "../sdk/permit";
+
+const SECONDS_PER_DAY = 86400n;
+
+interface PermitArgs extends ContractArgs {
+  amount?: string;
+  permit: boolean;
+}
+
+interface RepayArgs extends PermitArgs {
+  loan?: number;
+}
+
+/**
+ * Returns the deadline of a permit signed now
+ */
+async function permitDeadline(hre: HardhatRuntimeEnvironment) {
+  const latest = await hre.ethers.provider.getBlock("latest");
+  return BigInt(latest!.timestamp) + PERMIT_DURATION;
+}
+
+lendingTask(task("mint", "Mints whole MyTokens to an account (owner only)"))
+  .addParam("to", "Account receiving the tokens")
+  .addParam("amount", "Whole number of tokens to mint", undefined, types.int)
+  .setAction(
+    async (args: ContractArgs & { to: string; amount: number }, hre) => {
+      const { myToken } = await resolveContracts(hre, args);
+      const tx = await myToken.mint(args.to, args.amount);
+      await printEvents(tx, myToken.interface);
+    }
+  );
+
+lendingTask(task("lend", "Approves and lends tokens to the platform"))
+  .addParam("amount", "Amount of tokens to lend (e.g. 100.5)")
+  .addFlag("permit", "Approve with a signed permit in the same transaction")
+  .setAction(async (args: PermitArgs & { amount: string }, hre) => {
+    const { myToken, lendingPlatform, signer } = await resolveContracts(
+      hre,
+      args
+    );
+    const lpAddress = await lendingPlatform.getAddress();
+    const amount = await parseTokenAmount(myToken, args.amount);
+
+    if (args.permit) {
+      const { deadline, v, r, s } = await signPermit(
+        myToken,
+        signer,
+        lpAddress,
+        amount,
+        await permitDeadline(hre)
+      );
+      const tx = await lendingPlatform.lendWithPermit(
+        amount,
+        deadline,
+        v,
+        r,
+        s
+      );
+      await printEvents(tx, lendingPlatform.interface);
+      return;
+    }
+
+    await (await myToken.approve(lpAddress, amount)).wait();
+    const tx = await lendingPlatform.lend(amount);
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(task("withdraw", "Withdraws lent tokens by burning pool shares"))
+  .addParam("amount", "Amount of tokens to withdraw (e.g. 25)")
+  .setAction(async (args: ContractArgs & { amount: string }, hre) => {
+    const { myToken, lendingPlatform, signer } = await resolveContracts(
+      hre,
+      args
+    );
+    const amount = await parseTokenAmount(myToken, args.amount);
+
+    const tx = await lendingPlatform.withdraw(
+      amount,
+      signer.address,
+      signer.address
+    );
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(task("redeem", "Redeems pool shares for the tokens they are worth"))
+  .addOptionalParam("shares", "Amount of shares to redeem (defaults to all)")
+  .setAction(async (args: ContractArgs & { shares?: string }, hre) => {
+    const { lendingPlatform, signer } = await resolveContracts(hre, args);
+    const shares =
+      args.shares === undefined
+        ? await lendingPlatform.balanceOf(signer.address)
+        : hre.ethers.parseUnits(args.shares, await lendingPlatform.decimals());
+
+    const tx = await lendingPlatform.redeem(
+      shares,
+      signer.address,
+      signer.address
+    );
+    await printEvents(tx, lendingPlatform.interface);
+  });
+
+lendingTask(task("borrow", "Borrows tokens from the platform"))
+  .addParam("amount", "Amount of tokens to borrow (e.g. 50)")
+  .addOptionalParam(
+    "term",
+    "Loan term in days, one of the offered terms (defaults to open-ended)",
+    undefined,
+    types.int
+  )
+  .setAction(
+    async (args: ContractArgs & { amount: string; term?: number }, hre) => {
+      const { myToken, lendingPlatform } = await resolveContracts(hre, args);
+      const amount = await parseTokenAmount(myToken, args.amount);
+
+      const tx =
+        args.term === undefined
+          ? await lendingPlatform.borrow(amount)
+          : await lendingPlatform.borrowWithTerm(
+              amount,
+              BigInt(args.term) * SECONDS_PER_DAY
+            );
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(task("repay", "Approves and repays the active loans"))
+  .addOptionalParam(
+    "amount",
+    "Amount of tokens to repay, interest first (defaults to the whole debt)"
+  )
+  .addOptionalParam(
+    "loan",
+    "Id of the loan to repay (defaults to all the loans, in id order)",
+    undefined,
+    types.int
+  )
+  .addFlag("permit", "Approve with a signed permit in the same transaction")
+  .setAction(async (args: RepayArgs, hre) => {
+    if (args.permit && args.loan !== undefined) {
+      throw new Error("--permit repays all the loans and cannot take --loan");
+    }
+    const { myToken, lendingPlatform, signer } = await resolveContracts(
+      hre,
+      args
+    );
+    const lpAddress = await lendingPlatform.getAddress();
+
+    let allowance: bigint;
+    if (args.amount !== undefined) {
+      allowance = await parseTokenAmount(myToken, args.amount);
+    } else {
+      const loans = (await readLoans(lendingPlatform, signer.address)).filter(
+        (loan) => args.loan === undefined || loan.loanId === BigInt(args.loan)
+      );
+      if (loans.length === 0) {
+        throw new Error(`${signer.address} has no loan to repay`);
+      }
+
+      const latest = await hre.ethers.provider.getBlock("latest");
+      const quote = await quoteLoanRepayment(
+        lendingPlatform,
+        loans,
+        BigInt(latest!.timestamp) + REPAY_QUOTE_BUFFER
+      );
+      allowance = quote.total;
+      console.log(
+        `Approving ${await formatTokenAmount(myToken, allowance)} tokens`
+      );
+    }
+
+    if (args.permit) {
+      // repayWithPermit caps the amount at the debt, like repayPartial
+      const { deadline, v, r, s } = await signPermit(
+        myToken,
+        signer,
+        lpAddress,
+        allowance,
+        await permitDeadline(hre)
+      );
+      const tx = await lendingPlatform.repayWithPermit(
+        allowance,
+        deadline,
+        v,
+        r,
+        s
+      );
+      await printEvents(tx, lendingPlatform.interface, myToken.interface);
+      return;
+    }
+
+    await (await myToken.approve(lpAddress, allowance)).wait();
+    let tx;
+    if (args.loan !== undefined) {
+      tx = await lendingPlatform.repayLoan(args.loan, allowance);
+    } else if (args.amount === undefined) {
+      tx = await lendingPlatform.repay();
+    } else {
+      tx = await lendingPlatform.repayPartial(allowance);
+    }
+    await printEvents(tx, lendingPlatform.interface, myToken.interface);
+  });
+
+lendingTask(
+  task("deposit-collateral", "Deposits Ether or an ERC-20 token as collateral")
+)
+  .addParam("amount", "Amount of Ether or collateral tokens (e.g. 0.5)")
+  .addOptionalParam("asset", "Listed ERC-20 collateral token to deposit")
+  .setAction(
+    async (args: ContractArgs & { amount: string; asset?: string }, hre) => {
+      const { lendingPlatform, signer } = await resolveContracts(hre, args);
+
+      if (args.asset === undefined) {
+        const tx = await lendingPlatform.depositCollateral({
+          value: hre.ethers.parseEther(args.amount),
+        });
+        await printEvents(tx, lendingPlatform.interface);
+        return;
+      }
+
+      const asset = await hre.ethers.getContractAt(
+        "IERC20Metadata",
+        args.asset,
+        signer
+      );
+      const amount = await parseTokenAmount(asset, args.amount);
+      await (
+        await asset.approve(await lendingPlatform.getAddress(), amount)
+      ).wait();
+      const tx = await lendingPlatform.depositCollateralToken(
+        args.asset,
+        amount
+      );
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(
+  task("withdraw-collateral", "Withdraws deposited Ether or ERC-20 collateral")
+)
+  .addParam("amount", "Amount of Ether or collateral tokens (e.g. 0.25)")
+  .addOptionalParam("asset", "ERC-20 collateral token to withdraw")
+  .setAction(
+    async (args: ContractArgs & { amount: string; asset?: string }, hre) => {
+      const { lendingPlatform } = await resolveContracts(hre, args);
+
+      if (args.asset === undefined) {
+        const tx = await lendingPlatform.withdrawCollateral(
+          hre.ethers.parseEther(args.amount)
+        );
+        await printEvents(tx, lendingPlatform.interface);
+        return;
+      }
+
+      const asset = await hre.ethers.getContractAt(
+        "IERC20Metadata",
+        args.asset
+      );
+      const tx = await lendingPlatform.withdrawCollateralToken(
+        args.asset,
+        await parseTokenAmount(asset, args.amount)
+      );
+      await printEvents(tx, lendingPlatform.interface);
+    }
+  );
+
+lendingTask(task("liquidate", "Liquidates an undercollateralized borrower"))
+  .addParam("user", "Address of the borrower to liquidate")
+  .addParam(
+    "amount",
+    "Amount of tokens to repay, capped at the close factor share of the debt"
+  )
+  .addOptionalParam(
+    "asset",
+    "ERC-20 collateral token to seize instead of Ether"
+  )
+  .setAction(
+    async (
+      args: ContractArgs & { user: string; amount: string; asset?: string },
+      hre
+    ) => {
+      const { myToken, lendingPlatform } = await resolveContracts(hre, args);
+      const amount = await parseTokenAmount(myToken, args.amount);
+
+      await (
+        await myToken.approve(await lendingPlatform.getAddress(), amount)
+      ).wait();
+      const tx =
+        args.asset === undefined
+          ? await lendingPlatform.liquidate(args.user, amount)
+          : await lendingPlatform.liquidateCollateralToken(
+              args.user,
+              args.asset,
+              amount
+            );
+      await printEvents(tx, lendingPlatform.interface, myToken.interface);
+    }
+  );
+
+lendingTask(task("position", "Prints the balances and loan of an account"))
+  .addOptionalParam("account", "Account to inspect (defaults to the signer)")
+  .setAction(async (args: ContractArgs & { account?: string }, hre) => {
+    const { myToken, lendingPlatform, signer } = await resolveContracts(
+      hre,
+      args
+    );
+    const account = args.account ?? signer.address;
+
+    const rows: [string, string][] = [
+      ["Account", account],
+      [
+        "Tokens",
+        await formatTokenAmount(myToken, await myToken.balanceOf(account)),
+      ],
+      [
+        "Pool shares",
+        hre.ethers.formatUnits(
+          await lendingPlatform.balanceOf(account),
+          await lendingPlatform.decimals()
+        ),
+      ],
+      [
+        "Lender balance",
+        await formatTokenAmount(
+          myToken,
+          await lendingPlatform.getLenderBalance(account)
+        ),
+      ],
+      [
+        "Withdrawable",
+        await formatTokenAmount(
+          myToken,
+          await lendingPlatform.maxWithdraw(account)
+        ),
+      ],
+    ];
+
+    // The plain LendingPlatform has no collateral, so these calls revert there
+    const collateral = await lendingPlatform
+      .collateralEther(account)
+      .catch(() => undefined);
+    if (collateral !== undefined) {
+      rows.push(["Collateral", `${hre.ethers.formatEther(collateral)} ETH`]);
+      for (const assetAddress of await lendingPlatform.getCollateralAssets()) {
+        const amount = await lendingPlatform.collateralTokens(
+          account,
+          assetAddress
+        );
+        if (amount === 0n) {
+          continue;
+        }
+        const asset = await hre.ethers.getContractAt(
+          "IERC20Metadata",
+          assetAddress
+        );
+        rows.push([
+          "Collateral",
+          `${await formatTokenAmount(asset, amount)} ${await asset.symbol()}`,
+        ]);
+      }
+      rows.push([
+        "Borrowing capacity",
+        await formatTokenAmount(
+          myToken,
+          await lendingPlatform.getBorrowingCapacity(account)
+        ),
+      ]);
+    }
+
+    const loans = await readLoans(lendingPlatform, account);
+    if (loans.length === 0) {
+      rows.push(["Loan", "none"]);
+    } else {
+      const owed = await lendingPlatform.getAmountOwed(account);
+      let principal = 0n;
+      for (const loan of loans) {
+        const since = new Date(Number(loan.startTime) * 1000);
+        rows.push([
+          `Loan ${loan.loanId}`,
+          `${await formatTokenAmount(
+            myToken,
+            loan.amount
+          )} tokens (updated ${since.toISOString()})`,
+        ]);
+        if (loan.dueDate > 0n) {
+          rows.push([
+            `Due ${loan.loanId}`,
+            new Date(Number(loan.dueDate) * 1000).toISOString(),
+          ]);
+        }
+        principal += loan.amount;
+      }
+      rows.push([
+        "Interest owed",
+        await formatTokenAmount(myToken, owed - principal),
+      ]);
+      rows.push([
+        "Loan state",
+        LOAN_STATES[Number(await lendingPlatform.loanState(account))],
+      ]);
+      if (collateral !== undefined) {
+        const required = await lendingPlatform.requiredCollateralForBorrowing(
+          owed
+        );
+        rows.push([
+          "Required collateral",
+          `${hre.ethers.formatEther(required)} ETH`,
+        ]);
+        rows.push([
+          "Health factor",
+          hre.ethers.formatUnits(await lendingPlatform.healthFactor(account)),
+        ]);
+      }
+    }
+
+    printRows(rows);
+  });
+
+lendingTask(
+  task("pool-status", "Prints the state of the lending pool")
+).setAction(async (args: ContractArgs, hre) => {
+  const { myToken, lendingPlatform } = await resolveContracts(hre, args);
+
+  const rows: [string, string][] = [
+    ["Platform", await lendingPlatform.getAddress()],
+    [
+      "Token balance",
+      await formatTokenAmount(myToken, await lendingPlatform.getTokenBalance()),
+    ],
+    [
+      "Total assets",
+      await formatTokenAmount(myToken, await lendingPlatform.totalAssets()),
+    ],
+    [
+      "Total borrowed",
+      await formatTokenAmount(
+        myToken,
+        await lendingPlatform.getTotalBorrowed()
+      ),
+    ],
+    [
+      "Utilization",
+      `${hre.ethers.formatUnits(await lendingPlatform.getUtilization(), 16)}%`,
+    ],
+    [
+      "Interest rate",
+      `${hre.ethers.formatEther(await lendingPlatform.getInterestRate())}%`,
+    ],
+    [
+      "Flash loan fee",
+      `${hre.ethers.formatUnits(await lendingPlatform.flashLoanFee(), 2)}%`,
+    ],
+    [
+      "Loan terms",
+      `${(await lendingPlatform.getLoanTerms())
+        .map((term) => term / SECONDS_PER_DAY)
+        .join(", ")} days`,
+    ],
+    [
+      "Late payments",
+      `${
+        (await lendingPlatform.gracePeriod()) / SECONDS_PER_DAY
+      } days grace, ` +
+        `${hre.ethers.formatEther(await lendingPlatform.penaltyRate())}% ` +
+        `penalty, default after ${
+          (await lendingPlatform.defaultPeriod()) / SECONDS_PER_DAY
+        } days`,
+    ],
+    ["Owner", await lendingPlatform.owner()],
+    ["Paused", (await lendingPlatform.paused()) ? "yes" : "no"],
+  ];
+
+  // The plain LendingPlatform has no collateral, so these calls revert there
+  const collateralizationRatio = await lendingPlatform
+    .collateralizationRatio()
+    .catch(() => undefined);
+  if (collateralizationRatio !== undefined) {
+    rows.push(["Collateralization ratio", `${collateralizationRatio}%`]);
+    rows.push([
+      "Liquidation ratio",
+      `${await lendingPlatform.liquidationRatio()}%`,
+    ]);
+    rows.push(["Close factor", `${await lendingPlatform.closeFactor()}%`]);
+    rows.push([
+      "Liquidation bonus",
+      `${await lendingPlatform.liquidationBonus()}%`,
+    ]);
+
+    const priceOracle = await lendingPlatform.priceOracle();
+    const oracle = await hre.ethers.getContractAt("IPriceOracle", priceOracle);
+    const [price, updatedAt] = await oracle.latestPrice();
+    const latest = await hre.ethers.provider.getBlock("latest");
+    rows.push(["Price oracle", priceOracle]);
+    rows.push([
+      "ETH price",
+      `${hre.ethers.formatEther(price)} tokens (updated ${
+        BigInt(latest!.timestamp) - updatedAt
+      }s ago)`,
+    ]);
+    rows.push(["Max price age", `${await lendingPlatform.maxPriceAge()}s`]);
+
+    for (const asset of await lendingPlatform.getCollateralAssets()) {
+      const params = await lendingPlatform.collateralAssets(asset);
+      rows.push([
+        "Collateral asset",
+        `${asset} (${params.collateralizationRatio}% / ${params.liquidationRatio}%, oracle ${params.priceOracle})`,
+      ]);
+    }
+  }
+
+  printRows(rows);
+});
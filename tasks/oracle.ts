@@ -0,0 +1,33 @@
+import { task } from "hardhat/config";
+import {
+  ContractArgs,
+  lendingTask,
+  printEvents,
+  resolveContracts,
+} from "./utils";
+
+lendingTask(
+  task("set-price", "Pushes a new ETH price to the platform's mock oracle")
+)
+  .addParam("price", "Lending tokens per Ether (e.g. 1850.5)")
+  .addOptionalParam(
+    "oracle",
+    "MockPriceOracle address (defaults to the platform's oracle)"
+  )
+  .setAction(
+    async (args: ContractArgs & { price: string; oracle?: string }, hre) => {
+      const { lendingPlatform, signer } = await resolveContracts(hre, args);
+
+      const oracleAddress =
+        args.oracle ?? (await lendingPlatform.priceOracle());
+      const priceOracle = await hre.ethers.getContractAt(
+        "MockPriceOracle",
+        oracleAddress,
+        signer
+      );
+
+      // Oracle prices share the 18 decimals of PRICE_PRECISION
+      const tx = await priceOracle.setPrice(hre.ethers.parseEther(args.price));
+      await printEvents(tx, priceOracle.interface);
+    }
+  );
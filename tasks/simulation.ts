@@ -0,0 +1,75 @@
+import fs from "fs";
+import { task, types } from "hardhat/config";
+import { OutputArgs, writeExport } from "./utils";
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  SimulationOverrides,
+  SimulationResult,
+  mergeConfig,
+  runSimulation,
+} from "../scripts/simulation";
+
+interface SimulateArgs extends OutputArgs {
+  scenarios?: string;
+  seed?: number;
+  summary: boolean;
+}
+
+task(
+  "simulate",
+  "Simulates lenders, borrowers and liquidators on a fresh LendingPlatformWithCollateral"
+)
+  .addOptionalParam(
+    "scenarios",
+    "JSON file with a scenario, or an array of scenarios to compare, overriding the defaults"
+  )
+  .addOptionalParam(
+    "seed",
+    "Seed of every scenario, instead of their own",
+    undefined,
+    types.int
+  )
+  .addFlag("summary", "Export one row per scenario instead of one per epoch")
+  .addOptionalParam("format", "json or csv", "json")
+  .addOptionalParam("out", "File to write (defaults to printing it)")
+  .setAction(async (args: SimulateArgs, hre) => {
+    let scenarios: SimulationOverrides[] = [{}];
+    if (args.scenarios !== undefined) {
+      const parsed = JSON.parse(
+        await fs.promises.readFile(args.scenarios, "utf8")
+      );
+      scenarios = Array.isArray(parsed) ? parsed : [parsed];
+    }
+
+    const results: SimulationResult[] = [];
+    for (const [index, scenario] of scenarios.entries()) {
+      // Scenarios without a name are numbered
+      const name =
+        scenarios.length > 1
+          ? `scenario-${index + 1}`
+          : DEFAULT_SIMULATION_CONFIG.name;
+      const config = mergeConfig(
+        { ...DEFAULT_SIMULATION_CONFIG, name },
+        scenario
+      );
+      config.seed = args.seed ?? config.seed;
+      results.push(await runSimulation(hre, config));
+    }
+
+    if (args.summary) {
+      const summaries = results.map((result) => result.summary);
+      await writeExport(args, summaries, summaries);
+      return;
+    }
+    // The CSV has one row per epoch of every scenario
+    await writeExport(
+      args,
+      results,
+      results.flatMap((result) =>
+        result.epochs.map((record) => ({
+          scenario: result.config.name,
+          ...record,
+        }))
+      )
+    );
+  });
@@ -0,0 +1,211 @@
+import fs from "fs";
+import {
+  ConfigurableTaskDefinition,
+  HardhatRuntimeEnvironment,
+} from "hardhat/types";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  ContractTransactionResponse,
+  Interface,
+  formatUnits,
+  parseUnits,
+} from "ethers";
+import type {
+  IERC20Metadata,
+  MyToken,
+  LendingPlatformWithCollateral,
+} from "../typechain-types";
+import { loadDeployment } from "../scripts/deployment";
+import { toCsv, toJson } from "../sdk/history";
+
+/**
+ * Arguments shared by every lending task to locate the contracts and signer
+ */
+export interface ContractArgs {
+  platform?: string;
+  token?: string;
+  signer: string;
+}
+
+/**
+ * Arguments of the tasks exporting JSON or CSV
+ */
+export interface OutputArgs {
+  format: string;
+  out?: string;
+}
+
+export interface LendingContracts {
+  myToken: MyToken;
+  lendingPlatform: LendingPlatformWithCollateral;
+  signer: HardhatEthersSigner;
+}
+
+/**
+ * Adds the parameters every lending task uses to find the contracts and signer
+ * @param definition Task definition to extend
+ */
+export function lendingTask(definition: ConfigurableTaskDefinition) {
+  return definition
+    .addOptionalParam(
+      "platform",
+      "Lending platform address (defaults to the Ignition deployment)"
+    )
+    .addOptionalParam(
+      "token",
+      "MyToken address (defaults to the Ignition deployment)"
+    )
+    .addOptionalParam("signer", "Signer account index or address", "0");
+}
+
+/**
+ * Picks a signer by account index ("1") or by address ("0x...")
+ * @param hre Hardhat runtime environment
+ * @param signer Index or address of one of the configured accounts
+ */
+export async function resolveSigner(
+  hre: HardhatRuntimeEnvironment,
+  signer: string
+): Promise<HardhatEthersSigner> {
+  const signers = await hre.ethers.getSigners();
+
+  if (hre.ethers.isAddress(signer)) {
+    const match = signers.find(
+      (s) => s.address.toLowerCase() === signer.toLowerCase()
+    );
+    if (match === undefined) {
+      throw new Error(`Account ${signer} is not configured on this network`);
+    }
+    return match;
+  }
+
+  const index = Number(signer);
+  if (!Number.isInteger(index) || signers[index] === undefined) {
+    throw new Error(`No signer at index ${signer}`);
+  }
+  return signers[index];
+}
+
+/**
+ * Connects to the token and platform, either at the given addresses or at
+ * the addresses recorded by the last Ignition deployment on this network
+ * @param hre Hardhat runtime environment
+ * @param args Optional contract addresses and the signer to connect with
+ */
+export async function resolveContracts(
+  hre: HardhatRuntimeEnvironment,
+  args: ContractArgs
+): Promise<LendingContracts> {
+  const signer = await resolveSigner(hre, args.signer);
+
+  let platformAddress = args.platform;
+  let tokenAddress = args.token;
+  if (platformAddress === undefined || tokenAddress === undefined) {
+    const deployment = await loadDeployment(hre);
+    platformAddress ??= await deployment.lendingPlatform.getAddress();
+    tokenAddress ??= await deployment.myToken.getAddress();
+  }
+
+  const myToken = await hre.ethers.getContractAt("MyToken", tokenAddress);
+  const lendingPlatform = await hre.ethers.getContractAt(
+    "LendingPlatformWithCollateral",
+    platformAddress
+  );
+
+  return {
+    myToken: myToken.connect(signer),
+    lendingPlatform: lendingPlatform.connect(signer),
+    signer,
+  };
+}
+
+/**
+ * Converts a human-readable token amount ("12.5") into base units
+ * @param token Token whose decimals() are used for the conversion
+ * @param amount Decimal amount of tokens
+ */
+export async function parseTokenAmount(
+  token: Pick<IERC20Metadata, "decimals">,
+  amount: string
+): Promise<bigint> {
+  return parseUnits(amount, await token.decimals());
+}
+
+/**
+ * Converts base units back into a human-readable token amount
+ * @param token Token whose decimals() are used for the conversion
+ * @param amount Amount of tokens in base units
+ */
+export async function formatTokenAmount(
+  token: Pick<IERC20Metadata, "decimals">,
+  amount: bigint
+): Promise<string> {
+  return formatUnits(amount, await token.decimals());
+}
+
+/**
+ * Waits for the transaction and prints every event it emitted from the
+ * given contracts
+ * @param tx Transaction to wait for
+ * @param interfaces Interfaces used to decode the receipt logs
+ */
+export async function printEvents(
+  tx: ContractTransactionResponse,
+  ...interfaces: Interface[]
+): Promise<void> {
+  const receipt = await tx.wait();
+  if (receipt === null) {
+    throw new Error("Transaction failed");
+  }
+
+  console.log(
+    `Transaction ${receipt.hash} mined in block ${receipt.blockNumber}`
+  );
+  for (const log of receipt.logs) {
+    for (const iface of interfaces) {
+      const parsed = iface.parseLog(log);
+      if (parsed === null) {
+        continue;
+      }
+      const args = parsed.fragment.inputs
+        .map((input, i) => `${input.name}=${parsed.args[i].toString()}`)
+        .join(", ");
+      console.log(`  ${parsed.name}(${args})`);
+      break;
+    }
+  }
+}
+
+/**
+ * Prints label/value pairs as an aligned two-column table
+ * @param rows Label and value of every row
+ */
+export function printRows(rows: [string, string][]): void {
+  const width = Math.max(...rows.map(([label]) => label.length)) + 1;
+  for (const [label, value] of rows) {
+    console.log(`${`${label}:`.padEnd(width)} ${value}`);
+  }
+}
+
+/**
+ * Prints an export, or writes it to a file when --out is given
+ * @param args Format and output file
+ * @param json Value exported as JSON
+ * @param rows Rows exported as CSV
+ */
+export async function writeExport(
+  args: OutputArgs,
+  json: unknown,
+  rows: object[]
+): Promise<void> {
+  if (args.format !== "json" && args.format !== "csv") {
+    throw new Error(`Unknown format ${args.format}, expected json or csv`);
+  }
+  const output = args.format === "json" ? toJson(json) : toCsv(rows);
+  if (args.out === undefined) {
+    console.log(output);
+    return;
+  }
+  await fs.promises.writeFile(args.out, output + "\n");
+  console.log(`Wrote ${args.out}`);
+}
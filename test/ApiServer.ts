@@ -0,0 +1,268 @@
+import http from "http";
+import { AddressInfo } from "net";
+import hre from "hardhat";
+import {
+  loadFixture,
+  time,
+  setBalance,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { LendingPlatformWithCollateral } from "../typechain-types";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+import { ApiServerOptions, calculateInterest, createApiServer } from "../sdk";
+
+describe("API server", function () {
+  async function deployTokenFixture() {
+    const tokensToMint = 1000;
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+
+    // The owner lends 800 tokens and addr1 borrows 100 against 0.08 ETH
+    await myToken.approve(lendingPlatform, hre.ethers.parseEther("800"));
+    await lendingPlatform.lend(hre.ethers.parseEther("800"));
+    await lendingPlatform
+      .connect(addr1)
+      .depositCollateral({ value: hre.ethers.parseEther("0.08") });
+    await lendingPlatform.connect(addr1).borrow(hre.ethers.parseEther("100"));
+
+    return { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 };
+  }
+
+  let server: http.Server | undefined;
+
+  afterEach(async function () {
+    await new Promise((resolve) => server?.close(resolve));
+    server = undefined;
+  });
+
+  // Serves the API of the platform on a free port and returns a GET helper
+  async function serve(
+    lendingPlatform: LendingPlatformWithCollateral,
+    options: ApiServerOptions = {}
+  ) {
+    server = createApiServer(lendingPlatform, options);
+    await new Promise<void>((resolve) =>
+      server!.listen(0, "127.0.0.1", resolve)
+    );
+    const { port } = server.address() as AddressInfo;
+
+    return async (path: string) => {
+      const response = await fetch(`http://127.0.0.1:${port}${path}`);
+      return { status: response.status, body: await response.json() };
+    };
+  }
+
+  describe("Pool", function () {
+    it("Should report the pool balances and parameters", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(
+        deployTokenFixture
+      );
+      const get = await serve(lendingPlatform);
+
+      const { status, body } = await get("/pool");
+
+      expect(status).to.equal(200);
+      expect(body).to.deep.include({
+        address: await lendingPlatform.getAddress(),
+        token: await myToken.getAddress(),
+        tokenBalance: hre.ethers.parseEther("700").toString(),
+        totalBorrowed: hre.ethers.parseEther("100").toString(),
+        utilization: hre.ethers.parseEther("0.125").toString(),
+        interestRate: (await lendingPlatform.getInterestRate()).toString(),
+        price: hre.ethers.parseEther("2000").toString(),
+        collateralizationRatio: "150",
+        liquidationRatio: "110",
+        paused: false,
+        collateralAssets: [],
+      });
+    });
+
+    it("Should report a null price while it is stale", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+      await time.increase(time.duration.hours(2));
+
+      const { status, body } = await get("/pool");
+
+      expect(status).to.equal(200);
+      expect(body.price).to.equal(null);
+    });
+  });
+
+  describe("Accounts", function () {
+    it("Should report the position of a borrower", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+
+      const { status, body } = await get(`/accounts/${addr1.address}`);
+
+      const loan = await lendingPlatform.getLoan(addr1.address, 0);
+      expect(status).to.equal(200);
+      expect(body).to.deep.include({
+        address: addr1.address,
+        shares: "0",
+        loans: [
+          {
+            loanId: "0",
+            principal: hre.ethers.parseEther("100").toString(),
+            interest: "0",
+            startTime: loan.startTime.toString(),
+            dueDate: "0",
+          },
+        ],
+        collateralEther: hre.ethers.parseEther("0.08").toString(),
+        collateralTokens: {},
+        healthFactor: (
+          await lendingPlatform.healthFactor(addr1.address)
+        ).toString(),
+        liquidatable: false,
+      });
+    });
+
+    it("Should report the shares of a lender", async function () {
+      const { lendingPlatform, owner } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+
+      // Addresses are accepted in any case
+      const { body } = await get(`/accounts/${owner.address.toLowerCase()}`);
+
+      expect(body).to.deep.include({
+        address: owner.address,
+        shares: hre.ethers.parseEther("800").toString(),
+        withdrawable: hre.ethers.parseEther("700").toString(),
+        loans: [],
+        amountOwed: "0",
+        healthFactor: null,
+      });
+    });
+
+    it("Should quote a repayment at a given timestamp", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+      const loan = await lendingPlatform.getLoan(addr1.address, 0);
+      const atTimestamp = loan.startTime + BigInt(time.duration.days(90));
+
+      const { status, body } = await get(
+        `/accounts/${addr1.address}/quote?timestamp=${atTimestamp}`
+      );
+
+      const interestRate = await lendingPlatform.getInterestRate();
+      const interest = calculateInterest(
+        loan.amount,
+        interestRate,
+        atTimestamp - loan.startTime,
+        await lendingPlatform.borrowIndex()
+      );
+      expect(status).to.equal(200);
+      expect(body).to.deep.equal({
+        borrower: addr1.address,
+        principal: loan.amount.toString(),
+        interest: interest.toString(),
+        total: (loan.amount + interest).toString(),
+        interestRate: interestRate.toString(),
+        atTimestamp: atTimestamp.toString(),
+      });
+    });
+
+    it("Should reject invalid quotes", async function () {
+      const { lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const get = await serve(lendingPlatform);
+
+      expect(await get(`/accounts/${owner.address}/quote`)).to.deep.equal({
+        status: 404,
+        body: { error: `${owner.address} has no active loan` },
+      });
+      expect(
+        (await get(`/accounts/${addr1.address}/quote?timestamp=soon`)).status
+      ).to.equal(400);
+      expect(
+        (await get(`/accounts/${addr1.address}/quote?timestamp=1`)).status
+      ).to.equal(400);
+    });
+  });
+
+  describe("Liquidations", function () {
+    it("Should list the liquidatable accounts", async function () {
+      const { priceOracle, lendingPlatform, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const get = await serve(lendingPlatform);
+      expect((await get("/liquidatable")).body).to.deep.equal([]);
+
+      // A fixed-term loan next to the open-ended one, listed once
+      await lendingPlatform
+        .connect(addr1)
+        .borrowWithTerm(hre.ethers.parseEther("5"), time.duration.days(30));
+      // 105 tokens / 1200 * 110% = 0.0963 ETH > 0.08 ETH deposited
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      const { status, body } = await get("/liquidatable");
+
+      expect(status).to.equal(200);
+      expect(body).to.have.length(1);
+      expect(body[0]).to.deep.include({
+        address: addr1.address,
+        collateralEther: hre.ethers.parseEther("0.08").toString(),
+      });
+      expect(BigInt(body[0].healthFactor)).to.be.lessThan(
+        hre.ethers.parseEther("1")
+      );
+    });
+
+    it("Should find the borrowers from the given block on", async function () {
+      const { priceOracle, lendingPlatform, addr2 } = await loadFixture(
+        deployTokenFixture
+      );
+      // The loan of addr1 was opened before the server's first block
+      const get = await serve(lendingPlatform, {
+        fromBlock: (await hre.ethers.provider.getBlockNumber()) + 1,
+      });
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      expect((await get("/liquidatable")).body).to.deep.equal([]);
+
+      // Loans opened since are picked up by the next request
+      await setBalance(addr2.address, hre.ethers.parseEther("2"));
+      await lendingPlatform
+        .connect(addr2)
+        .depositCollateral({ value: hre.ethers.parseEther("0.08") });
+      await lendingPlatform.connect(addr2).borrow(hre.ethers.parseEther("60"));
+      // 60 tokens / 800 * 110% = 0.0825 ETH > 0.08 ETH deposited
+      await priceOracle.setPrice(hre.ethers.parseEther("800"));
+      const { body } = await get("/liquidatable");
+
+      expect(
+        body.map((account: { address: string }) => account.address)
+      ).to.deep.equal([addr2.address]);
+    });
+
+    it("Should answer 503 while the price is stale", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+      await time.increase(time.duration.hours(2));
+
+      expect(await get("/liquidatable")).to.deep.equal({
+        status: 503,
+        body: { error: "Stale price" },
+      });
+    });
+  });
+
+  describe("Errors", function () {
+    it("Should answer 404 for unknown routes and 400 for bad addresses", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const get = await serve(lendingPlatform);
+
+      expect((await get("/loans")).status).to.equal(404);
+      expect(await get("/accounts/0x1234")).to.deep.equal({
+        status: 400,
+        body: { error: "Invalid address 0x1234" },
+      });
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import hre from "hardhat";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { expect } from "chai";
+import MyTokenModule from "../ignition/modules/MyToken";
+import LendingPlatformModule from "../ignition/modules/LendingPlatform";
+import LendingPlatformWithCollateralModule from "../ignition/modules/LendingPlatformWithCollateral";
+import SeededLendingPlatformModule from "../ignition/modules/SeededLendingPlatform";
+import SeededLendingPlatformWithCollateralModule from "../ignition/modules/SeededLendingPlatformWithCollateral";
+import { readDeployment } from "../scripts/deployment";
+
+describe("Ignition modules", function () {
+  describe("Deployment", function () {
+    it("Should deploy MyToken with the initial supply parameter", async function () {
+      const [owner] = await hre.ethers.getSigners();
+      const { myToken } = await hre.ignition.deploy(MyTokenModule, {
+        parameters: { MyTokenModule: { initialSupply: 500 } },
+      });
+
+      expect(await myToken.balanceOf(owner.address)).to.equal(
+        hre.ethers.parseEther("500")
+      );
+    });
+
+    it("Should wire LendingPlatform to the deployed token", async function () {
+      const { myToken, lendingPlatform } = await hre.ignition.deploy(
+        LendingPlatformModule,
+        {
+          parameters: {
+            KinkedRateModelModule: { baseRate: hre.ethers.parseEther("7") },
+          },
+        }
+      );
+
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("7")
+      );
+      expect(await lendingPlatform.getTokenBalance()).to.equal(0);
+      expect(await myToken.getAddress()).to.be.properAddress;
+    });
+
+    it("Should deploy LendingPlatformWithCollateral with default ratios", async function () {
+      const { priceOracle, lendingPlatform } = await hre.ignition.deploy(
+        LendingPlatformWithCollateralModule
+      );
+
+      expect(await lendingPlatform.priceOracle()).to.equal(
+        await priceOracle.getAddress()
+      );
+      expect(await lendingPlatform.getPrice()).to.equal(
+        hre.ethers.parseEther("2000")
+      );
+      expect(await lendingPlatform.maxPriceAge()).to.equal(3600);
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("5")
+      );
+      expect(await lendingPlatform.collateralizationRatio()).to.equal(150);
+      expect(await lendingPlatform.liquidationRatio()).to.equal(110);
+      expect(await lendingPlatform.closeFactor()).to.equal(50);
+      expect(await lendingPlatform.liquidationBonus()).to.equal(5);
+    });
+  });
+
+  describe("Seeding", function () {
+    it("Should seed the pool and fund test accounts", async function () {
+      const [, addr1, addr2, addr3] = await hre.ethers.getSigners();
+      const seedAmount = hre.ethers.parseEther("250");
+      const { myToken, lendingPlatform } = await hre.ignition.deploy(
+        SeededLendingPlatformModule,
+        {
+          parameters: {
+            SeededLendingPlatformModule: { seedAmount, fundingAmount: 40 },
+          },
+        }
+      );
+
+      expect(await lendingPlatform.getTokenBalance()).to.equal(seedAmount);
+      for (const account of [addr1, addr2, addr3]) {
+        expect(await myToken.balanceOf(account.address)).to.equal(
+          hre.ethers.parseEther("40")
+        );
+      }
+    });
+
+    it("Should seed the collateral platform", async function () {
+      const { lendingPlatform } = await hre.ignition.deploy(
+        SeededLendingPlatformWithCollateralModule
+      );
+
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        hre.ethers.parseEther("500")
+      );
+    });
+  });
+
+  describe("Deployed addresses", function () {
+    it("Should read the platform and token addresses written by Ignition", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-"));
+      fs.writeFileSync(
+        path.join(dir, "deployed_addresses.json"),
+        JSON.stringify({
+          "MyTokenModule#MyToken": "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+          "LendingPlatformWithCollateralModule#LendingPlatformWithCollateral":
+            "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+        })
+      );
+
+      expect(readDeployment(dir)).to.deep.equal({
+        myToken: "0x5FbDB2315678afecb367f032d93F642f64180aa3",
+        lendingPlatform: "0xe7f1725E7734CE288F8367e1Bb143E90bb3F0512",
+        contractName: "LendingPlatformWithCollateral",
+      });
+    });
+
+    it("Should fail when nothing has been deployed", async function () {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "deployment-"));
+      expect(() => readDeployment(dir)).to.throw("No Ignition deployment");
+    });
+  });
+});
@@ -0,0 +1,145 @@
+import hre from "hardhat";
+import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { KinkedRateModel } from "../typechain-types";
+import {
+  KinkedRateModelParams,
+  RATE_PRECISION,
+  borrowRate,
+  utilizationRate,
+} from "../sdk";
+
+describe("KinkedRateModel contract", function () {
+  // 5% when idle, rising to 20% at 80% utilization and to 80% when fully lent out
+  const params: KinkedRateModelParams = {
+    baseRate: hre.ethers.parseEther("5"),
+    slope1: hre.ethers.parseEther("15"),
+    slope2: hre.ethers.parseEther("60"),
+    kink: hre.ethers.parseEther("0.8"),
+  };
+
+  async function deployModel(curve: KinkedRateModelParams) {
+    const KinkedRateModelFactory = await hre.ethers.getContractFactory(
+      "KinkedRateModel"
+    );
+    const rateModel: KinkedRateModel = await KinkedRateModelFactory.deploy(
+      curve.baseRate,
+      curve.slope1,
+      curve.slope2,
+      curve.kink
+    );
+    await rateModel.waitForDeployment();
+    return rateModel;
+  }
+
+  async function deployModelFixture() {
+    return { rateModel: await deployModel(params) };
+  }
+
+  // Deterministic pseudo-random pool sizes so failures can be reproduced
+  function* poolSamples(count: number, seed: bigint) {
+    let state = seed;
+    for (let i = 0; i < count; i++) {
+      state = (state * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+      const available = state % hre.ethers.parseEther("1000000");
+      state = (state * 6364136223846793005n + 1442695040888963407n) % 2n ** 64n;
+      const borrowed = state % hre.ethers.parseEther("1000000");
+      yield { available, borrowed };
+    }
+  }
+
+  describe("Deployment", function () {
+    it("Should store the shape of the curve", async function () {
+      const { rateModel } = await loadFixture(deployModelFixture);
+
+      expect(await rateModel.baseRate()).to.equal(params.baseRate);
+      expect(await rateModel.slope1()).to.equal(params.slope1);
+      expect(await rateModel.slope2()).to.equal(params.slope2);
+      expect(await rateModel.kink()).to.equal(params.kink);
+    });
+
+    it("Should fail with a kink outside (0, 100%)", async function () {
+      const KinkedRateModelFactory = await hre.ethers.getContractFactory(
+        "KinkedRateModel"
+      );
+
+      await expect(
+        KinkedRateModelFactory.deploy(1, 1, 1, 0)
+      ).to.be.revertedWith("Invalid kink");
+      await expect(
+        KinkedRateModelFactory.deploy(1, 1, 1, RATE_PRECISION)
+      ).to.be.revertedWith("Invalid kink");
+    });
+  });
+
+  describe("Rates", function () {
+    it("Should charge the base rate on an idle pool", async function () {
+      const { rateModel } = await loadFixture(deployModelFixture);
+
+      expect(await rateModel.getBorrowRate(0, 0)).to.equal(params.baseRate);
+      expect(
+        await rateModel.getBorrowRate(hre.ethers.parseEther("100"), 0)
+      ).to.equal(params.baseRate);
+    });
+
+    it("Should reach base + slope1 at the kink and all slopes when fully lent out", async function () {
+      const { rateModel } = await loadFixture(deployModelFixture);
+
+      expect(await rateModel.getBorrowRate(20, 80)).to.equal(
+        hre.ethers.parseEther("20")
+      );
+      expect(await rateModel.getBorrowRate(0, 100)).to.equal(
+        hre.ethers.parseEther("80")
+      );
+    });
+
+    it("Should match the off-chain curve at every whole percent of utilization", async function () {
+      const { rateModel } = await loadFixture(deployModelFixture);
+      const poolSize = hre.ethers.parseEther("1000");
+
+      for (let percent = 0n; percent <= 100n; percent++) {
+        const borrowed = (poolSize * percent) / 100n;
+        const available = poolSize - borrowed;
+
+        expect(await rateModel.utilizationRate(available, borrowed)).to.equal(
+          utilizationRate(available, borrowed)
+        );
+        expect(
+          await rateModel.getBorrowRate(available, borrowed),
+          `utilization ${percent}%`
+        ).to.equal(borrowRate(params, available, borrowed));
+      }
+    });
+
+    it("Should match the off-chain curve for random pools and curves", async function () {
+      const curves: KinkedRateModelParams[] = [
+        params,
+        {
+          baseRate: 0n,
+          slope1: hre.ethers.parseEther("4"),
+          slope2: hre.ethers.parseEther("300"),
+          kink: hre.ethers.parseEther("0.9"),
+        },
+        {
+          baseRate: hre.ethers.parseEther("2.5"),
+          slope1: hre.ethers.parseEther("7.77"),
+          slope2: hre.ethers.parseEther("33.3"),
+          kink: hre.ethers.parseEther("0.333"),
+        },
+      ];
+
+      for (const [index, curve] of curves.entries()) {
+        const rateModel = await deployModel(curve);
+        for (const { available, borrowed } of poolSamples(
+          50,
+          BigInt(index + 1)
+        )) {
+          expect(
+            await rateModel.getBorrowRate(available, borrowed),
+            `curve ${index}, available ${available}, borrowed ${borrowed}`
+          ).to.equal(borrowRate(curve, available, borrowed));
+        }
+      }
+    });
+  });
+});
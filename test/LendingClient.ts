@@ -0,0 +1,490 @@
+import hre from "hardhat";
+import {
+  loadFixture,
+  time,
+  setBalance,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { MyToken, MockPriceOracle } from "../typechain-types";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+import {
+  InsufficientAllowanceError,
+  InsufficientFundsError,
+  LendingClient,
+  LendingError,
+  NoActiveLoanError,
+  NotEnoughCollateralError,
+  InsufficientLiquidityError,
+  PausedError,
+  calculateInterest,
+  toScaledAmount,
+} from "../sdk";
+
+describe("LendingClient", function () {
+  async function deployTokenFixture() {
+    const tokensToMint = 1000;
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+
+    const lpAddress = await lendingPlatform.getAddress();
+    const tokenAddress = await myToken.getAddress();
+    const ownerClient = new LendingClient(lpAddress, tokenAddress, owner);
+    const borrowerClient = new LendingClient(lpAddress, tokenAddress, addr1);
+
+    return {
+      myToken,
+      priceOracle,
+      lendingPlatform,
+      owner,
+      addr1,
+      addr2,
+      ownerClient,
+      borrowerClient,
+    };
+  }
+
+  describe("Transactions", function () {
+    it("Should approve and lend in one call", async function () {
+      const { lendingPlatform, owner, ownerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = hre.ethers.parseEther("100");
+
+      const result = await ownerClient.lend(amount);
+
+      expect(result.lender).to.equal(owner.address);
+      expect(result.amount).to.equal(amount);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(amount);
+    });
+
+    it("Should report and withdraw a lender position", async function () {
+      const { owner, ownerClient } = await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+
+      const result = await ownerClient.withdraw(hre.ethers.parseEther("40"));
+
+      expect(result.lender).to.equal(owner.address);
+      expect(result.amount).to.equal(hre.ethers.parseEther("40"));
+      expect(await ownerClient.getLenderPosition(owner.address)).to.deep.equal({
+        lender: owner.address,
+        shares: hre.ethers.parseEther("60"),
+        balance: hre.ethers.parseEther("60"),
+        withdrawable: hre.ethers.parseEther("60"),
+      });
+    });
+
+    it("Should return the loan details when borrowing", async function () {
+      const { lendingPlatform, addr1, ownerClient, borrowerClient } =
+        await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+
+      const result = await borrowerClient.borrow(hre.ethers.parseEther("50"));
+
+      expect(result.borrower).to.equal(addr1.address);
+      expect(result.amount).to.equal(hre.ethers.parseEther("50"));
+      expect(await borrowerClient.getLoan(addr1.address)).to.deep.equal({
+        borrower: addr1.address,
+        loanId: 0n,
+        amount: result.amount,
+        interest: 0n,
+        startTime: result.startTime,
+        dueDate: 0n,
+        scaledAmount: toScaledAmount(
+          result.amount,
+          await lendingPlatform.borrowIndex()
+        ),
+      });
+    });
+
+    it("Should borrow for a term and quote the penalty once overdue", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        ownerClient,
+        borrowerClient,
+      } = await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await myToken
+        .connect(owner)
+        .transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const { startTime, loanId } = await borrowerClient.borrowWithTerm(
+        hre.ethers.parseEther("50"),
+        BigInt(time.duration.days(30))
+      );
+      expect(loanId).to.equal(1);
+      const loan = await borrowerClient.getLoan(addr1.address, loanId);
+      expect(loan!.dueDate).to.equal(
+        startTime + BigInt(time.duration.days(30))
+      );
+      expect(await borrowerClient.getLoanState(addr1.address)).to.equal(
+        "current"
+      );
+
+      // Approve beforehand, so the repayment is mined at the quoted time
+      await myToken
+        .connect(addr1)
+        .approve(lendingPlatform, hre.ethers.MaxUint256);
+
+      // 20 days past the due date, so 13 days past the grace period
+      const repayAt = loan!.dueDate + BigInt(time.duration.days(20));
+      await time.increaseTo(repayAt - 1n);
+      expect(await borrowerClient.getLoanState(addr1.address)).to.equal("late");
+      const quote = await borrowerClient.quoteRepayment(addr1.address, repayAt);
+      await time.setNextBlockTimestamp(repayAt);
+      const result = await borrowerClient.repay(quote.total);
+
+      expect(result.amount).to.equal(quote.total);
+      expect(result.closed).to.equal(true);
+    });
+
+    it("Should keep concurrent loans apart and repay one of them", async function () {
+      const { myToken, owner, addr1, ownerClient, borrowerClient } =
+        await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await myToken
+        .connect(owner)
+        .transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      await borrowerClient.borrow(hre.ethers.parseEther("20"));
+      const term = await borrowerClient.borrowWithTerm(
+        hre.ethers.parseEther("30"),
+        BigInt(time.duration.days(30))
+      );
+      await time.increase(time.duration.days(10));
+
+      const loans = await borrowerClient.getLoans(addr1.address);
+      expect(loans.map((loan) => loan.loanId)).to.deep.equal([0n, 1n]);
+      expect(loans.map((loan) => loan.amount)).to.deep.equal([
+        hre.ethers.parseEther("20"),
+        hre.ethers.parseEther("30"),
+      ]);
+      const now = BigInt(await time.latest());
+      const total = await borrowerClient.quoteRepayment(addr1.address, now);
+      const [open, fixed] = await Promise.all(
+        loans.map((loan) =>
+          borrowerClient.quoteRepayment(addr1.address, now, [loan])
+        )
+      );
+      expect(total.total).to.equal(open.total + fixed.total);
+
+      const result = await borrowerClient.repayLoan(term.loanId);
+
+      expect(result.principal).to.equal(hre.ethers.parseEther("30"));
+      expect(result.closed).to.equal(true);
+      expect(result.loans).to.have.length(1);
+      expect(result.loans[0].loanId).to.equal(1);
+      // The open-ended loan is left, with its interest checkpointed
+      const [left] = await borrowerClient.getLoans(addr1.address);
+      expect(left.loanId).to.equal(0);
+      expect(result.remainingDebt).to.equal(left.amount + left.interest);
+    });
+
+    it("Should quote the exact amount repay() transfers", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        ownerClient,
+        borrowerClient,
+      } = await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      const { startTime } = await borrowerClient.borrow(
+        hre.ethers.parseEther("50")
+      );
+      const borrowIndex = await lendingPlatform.borrowIndex();
+      await myToken
+        .connect(owner)
+        .transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const repayAt = startTime + BigInt(time.duration.days(180));
+      const quote = await borrowerClient.quoteRepayment(addr1.address, repayAt);
+      await myToken
+        .connect(addr1)
+        .approve(await lendingPlatform.getAddress(), quote.total);
+      await time.setNextBlockTimestamp(repayAt);
+
+      await expect(
+        lendingPlatform.connect(addr1).repay()
+      ).to.changeTokenBalance(myToken, addr1, -quote.total);
+      expect(quote.interest).to.equal(
+        calculateInterest(
+          hre.ethers.parseEther("50"),
+          // 50% utilization: 5% + 15% * 0.5 / 0.8
+          hre.ethers.parseEther("14.375"),
+          BigInt(time.duration.days(180)),
+          borrowIndex
+        )
+      );
+    });
+
+    it("Should approve the amount owed and repay in one call", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        ownerClient,
+        borrowerClient,
+      } = await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await borrowerClient.borrow(hre.ethers.parseEther("50"));
+      await time.increase(time.duration.days(180));
+      await myToken
+        .connect(owner)
+        .transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const result = await borrowerClient.repay();
+
+      expect(result.principal).to.equal(hre.ethers.parseEther("50"));
+      expect(result.interest).to.be.greaterThan(0);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        hre.ethers.parseEther("100") + result.interest
+      );
+      expect(await borrowerClient.getLoan(addr1.address)).to.be.undefined;
+    });
+
+    it("Should borrow as a delegate and repay for the borrower", async function () {
+      const { lendingPlatform, addr1, addr2, ownerClient, borrowerClient } =
+        await loadFixture(deployTokenFixture);
+      const delegateClient = new LendingClient(
+        await lendingPlatform.getAddress(),
+        await ownerClient.token.getAddress(),
+        addr2
+      );
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await borrowerClient.approveDelegation(
+        addr2.address,
+        hre.ethers.parseEther("50")
+      );
+
+      const borrowed = await delegateClient.borrowFor(
+        addr1.address,
+        hre.ethers.parseEther("50")
+      );
+      expect(borrowed.borrower).to.equal(addr1.address);
+      await time.increase(time.duration.days(30));
+      const repaid = await ownerClient.repayFor(addr1.address);
+
+      expect(repaid.borrower).to.equal(addr1.address);
+      expect(repaid.principal).to.equal(hre.ethers.parseEther("50"));
+      expect(repaid.closed).to.equal(true);
+      expect(await borrowerClient.getLoan(addr1.address)).to.be.undefined;
+      await expect(
+        delegateClient.borrowFor(addr1.address, 1n)
+      ).to.be.rejectedWith(InsufficientAllowanceError);
+    });
+
+    it("Should lend and repay with permits instead of approvals", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        ownerClient,
+        borrowerClient,
+      } = await loadFixture(deployTokenFixture);
+      await ownerClient.lendWithPermit(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await borrowerClient.borrow(hre.ethers.parseEther("50"));
+      await time.increase(time.duration.days(30));
+      await myToken
+        .connect(owner)
+        .transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const result = await borrowerClient.repayWithPermit();
+
+      expect(result.closed).to.equal(true);
+      expect(result.principal).to.equal(hre.ethers.parseEther("50"));
+      // Each action signed one permit and sent no approval
+      expect(await myToken.nonces(owner.address)).to.equal(1);
+      expect(await myToken.nonces(addr1.address)).to.equal(1);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        hre.ethers.parseEther("100") + result.interest
+      );
+    });
+
+    it("Should repay part of a loan and quote the rest", async function () {
+      const { addr1, ownerClient, borrowerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await borrowerClient.borrow(hre.ethers.parseEther("50"));
+      await time.increase(time.duration.days(180));
+
+      const partial = await borrowerClient.repay(hre.ethers.parseEther("1"));
+
+      // 180 days at 14.375% on 50 tokens is more than 1 token of interest
+      expect(partial.principal).to.equal(0);
+      expect(partial.interest).to.equal(hre.ethers.parseEther("1"));
+      expect(partial.closed).to.equal(false);
+      const loan = await borrowerClient.getLoan(addr1.address);
+      expect(loan!.amount).to.equal(hre.ethers.parseEther("50"));
+      expect(loan!.startTime).to.equal(partial.timestamp);
+      const quote = await borrowerClient.quoteRepayment(
+        addr1.address,
+        partial.timestamp
+      );
+      expect(quote.total).to.equal(partial.remainingDebt);
+    });
+
+    it("Should approve and deposit ERC-20 collateral", async function () {
+      const { lendingPlatform, addr1, borrowerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      const myTokenFactory = await hre.ethers.getContractFactory("MyToken");
+      const MockPriceOracleFactory = await hre.ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+      const asset: MyToken = await myTokenFactory.deploy(100);
+      const oracle = await MockPriceOracleFactory.deploy(
+        hre.ethers.parseEther("2")
+      );
+      const setAsset = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [await asset.getAddress(), 150, 120, await oracle.getAddress()]
+      );
+      await lendingPlatform.queueChange(setAsset);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      await lendingPlatform.executeChange(setAsset);
+      await asset.transfer(addr1.address, hre.ethers.parseEther("100"));
+
+      const deposit = await borrowerClient.depositCollateralToken(
+        await asset.getAddress(),
+        hre.ethers.parseEther("100")
+      );
+      const withdrawal = await borrowerClient.withdrawCollateralToken(
+        await asset.getAddress(),
+        hre.ethers.parseEther("30")
+      );
+
+      expect(deposit.user).to.equal(addr1.address);
+      expect(deposit.asset).to.equal(await asset.getAddress());
+      expect(deposit.amount).to.equal(hre.ethers.parseEther("100"));
+      expect(withdrawal.amount).to.equal(hre.ethers.parseEther("30"));
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, asset)
+      ).to.equal(hre.ethers.parseEther("70"));
+    });
+
+    it("Should liquidate and track the debt left", async function () {
+      const {
+        priceOracle,
+        lendingPlatform,
+        owner,
+        addr1,
+        ownerClient,
+        borrowerClient,
+      } = await loadFixture(deployTokenFixture);
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("0.04"));
+      await borrowerClient.borrow(hre.ethers.parseEther("50"));
+      // 0.04 ETH * 1200 = 48 tokens < 110% of the debt
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+
+      const result = await ownerClient.liquidate(
+        addr1.address,
+        hre.ethers.parseEther("100")
+      );
+
+      expect(result.borrower).to.equal(addr1.address);
+      expect(result.liquidator).to.equal(owner.address);
+      expect(result.collateralAsset).to.equal(hre.ethers.ZeroAddress);
+      expect(result.badDebt).to.equal(0);
+      expect(result.repaidAmount + result.remainingDebt).to.be.greaterThan(
+        hre.ethers.parseEther("50")
+      );
+      // The repayment paid the accrued interest first
+      const block = await hre.ethers.provider.getBlock(result.blockNumber);
+      expect(await borrowerClient.getLoan(addr1.address)).to.deep.equal({
+        borrower: addr1.address,
+        loanId: 0n,
+        amount: result.remainingDebt,
+        interest: 0n,
+        startTime: BigInt(block!.timestamp),
+        dueDate: 0n,
+        scaledAmount: (await lendingPlatform.getLoan(addr1.address, 0))
+          .scaledAmount,
+      });
+
+      const repayment = await borrowerClient.repay();
+      expect(repayment.principal).to.equal(result.remainingDebt);
+      expect(await borrowerClient.getLoan(addr1.address)).to.be.undefined;
+    });
+  });
+
+  describe("Errors", function () {
+    it("Should raise InsufficientFundsError", async function () {
+      const { ownerClient, borrowerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      await ownerClient.lend(hre.ethers.parseEther("10"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+
+      const error = await borrowerClient
+        .borrow(hre.ethers.parseEther("50"))
+        .catch((e) => e);
+      expect(error).to.be.instanceOf(InsufficientFundsError);
+      expect(error).to.be.instanceOf(LendingError);
+      expect(error.reason).to.equal("Insufficient funds");
+    });
+
+    it("Should raise NotEnoughCollateralError", async function () {
+      const { ownerClient, borrowerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+
+      await expect(
+        borrowerClient.borrow(hre.ethers.parseEther("50"))
+      ).to.be.rejectedWith(NotEnoughCollateralError);
+    });
+
+    it("Should raise InsufficientLiquidityError", async function () {
+      const { ownerClient, borrowerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      await ownerClient.lend(hre.ethers.parseEther("100"));
+      await borrowerClient.depositCollateral(hre.ethers.parseEther("1"));
+      await borrowerClient.borrow(hre.ethers.parseEther("80"));
+
+      await expect(ownerClient.redeem()).to.be.rejectedWith(
+        InsufficientLiquidityError
+      );
+    });
+
+    it("Should raise PausedError while the platform is paused", async function () {
+      const { lendingPlatform, ownerClient } = await loadFixture(
+        deployTokenFixture
+      );
+      await lendingPlatform.pause();
+
+      await expect(
+        ownerClient.lend(hre.ethers.parseEther("100"))
+      ).to.be.rejectedWith(PausedError);
+    });
+
+    it("Should raise NoActiveLoanError when quoting without a loan", async function () {
+      const { addr2, ownerClient } = await loadFixture(deployTokenFixture);
+
+      await expect(
+        ownerClient.quoteRepayment(addr2.address, 0n)
+      ).to.be.rejectedWith(NoActiveLoanError);
+    });
+  });
+});
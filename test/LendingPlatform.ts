@@ -4,7 +4,27 @@ import {
   time,
 } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
-import { MyToken, LendingPlatform } from "../typechain-types";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  KinkedRateModelParams,
+  borrowRate,
+  calculateInterest,
+  calculatePenaltyInterest,
+  compoundBorrowIndex,
+  RATE_PRECISION,
+  SECONDS_PER_YEAR,
+  signPermit,
+  toDebt,
+  toScaledAmount,
+  utilizationRate,
+} from "../sdk";
+import {
+  MyToken,
+  LendingPlatform,
+  MockFlashBorrower,
+} from "../typechain-types";
+import { deployLendingPlatform, deployMarket } from "./fixtures";
 
 describe("LendingPlatform contract", function () {
   async function deployTokenFixture() {
@@ -12,20 +32,10 @@ describe("LendingPlatform contract", function () {
     const tokensToMint = 1000;
     const [owner, addr1, addr2] = await hre.ethers.getSigners();
 
-    const myTokenFactory = await hre.ethers.getContractFactory("MyToken");
-    const LendingPlatformFactory = await hre.ethers.getContractFactory(
-      "LendingPlatform"
-    );
-
-    const myToken: MyToken = await myTokenFactory.deploy(tokensToMint);
-    await myToken.waitForDeployment();
-
-    const interestRate = 5;
-    const lendingPlatform: LendingPlatform =
-      await LendingPlatformFactory.deploy(myToken, interestRate);
-    await lendingPlatform.waitForDeployment();
+    const { myToken, rateModel } = await deployMarket(tokensToMint);
+    const lendingPlatform = await deployLendingPlatform(myToken, rateModel);
 
-    return { myToken, lendingPlatform, owner, addr1, addr2 };
+    return { myToken, rateModel, lendingPlatform, owner, addr1, addr2 };
   }
 
   async function convertTokenAmount(amount: number, token: MyToken) {
@@ -42,7 +52,9 @@ describe("LendingPlatform contract", function () {
 
     it("Should initialize with the correct interest rate", async function () {
       const { lendingPlatform } = await loadFixture(deployTokenFixture);
-      expect(await lendingPlatform.getInterestRate()).to.equal(5);
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("5")
+      );
     });
   });
 
@@ -51,7 +63,7 @@ describe("LendingPlatform contract", function () {
       const { myToken, lendingPlatform, owner } = await loadFixture(
         deployTokenFixture
       );
-      
+
       const lpAddress = await lendingPlatform.getAddress();
       const tokenAmount = await convertTokenAmount(100, myToken);
       await myToken.approve(lpAddress, tokenAmount);
@@ -89,21 +101,52 @@ describe("LendingPlatform contract", function () {
       );
     });
 
-    it("Should fail to start second loan before repaying the first", async function () {
+    it("Should add to an active loan", async function () {
       const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
         deployTokenFixture
       );
 
       const lpAddress = await lendingPlatform.getAddress();
       const lendTokenAmount = await convertTokenAmount(100, myToken);
-      const borrowTokenAmount = await convertTokenAmount(50, myToken);
+      const borrowTokenAmount = await convertTokenAmount(25, myToken);
       await myToken.approve(lpAddress, lendTokenAmount);
       await lendingPlatform.connect(owner).lend(lendTokenAmount);
       await lendingPlatform.connect(addr1).borrow(borrowTokenAmount);
 
       await expect(
         lendingPlatform.connect(addr1).borrow(borrowTokenAmount)
-      ).to.revertedWith("Loan already active");
+      ).to.emit(lendingPlatform, "LoanInitiated");
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(
+        borrowTokenAmount * 2n
+      );
+      expect(await myToken.balanceOf(addr1.address)).to.equal(
+        borrowTokenAmount * 2n
+      );
+    });
+
+    it("Should reject borrowing zero tokens", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+
+      await expect(lendingPlatform.connect(addr1).borrow(0)).to.revertedWith(
+        "Must borrow a positive amount"
+      );
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(25, myToken));
+      await expect(
+        lendingPlatform.connect(addr1).increaseLoan(0, 0)
+      ).to.revertedWith("Must borrow a positive amount");
     });
 
     it("Should fail if you try and borrow more than the available balance", async function () {
@@ -172,4 +215,1774 @@ describe("LendingPlatform contract", function () {
       console.log("New balance: ", newBalance.toString());
     });
   });
+
+  describe("Lender shares", function () {
+    async function twoLendersFixture() {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+      await myToken.transfer(
+        addr2.address,
+        await convertTokenAmount(200, myToken)
+      );
+
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+      await myToken.connect(addr2).approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(addr2).lend(lendTokenAmount);
+
+      return { myToken, lendingPlatform, owner, addr1, addr2, lpAddress };
+    }
+
+    async function borrowAndRepay(
+      myToken: MyToken,
+      lendingPlatform: LendingPlatform,
+      borrower: HardhatEthersSigner,
+      amount: bigint
+    ) {
+      const lpAddress = await lendingPlatform.getAddress();
+      await lendingPlatform.connect(borrower).borrow(amount);
+      await time.increase(time.duration.days(180));
+
+      // give the borrower enough MyToken outside of the Lending Platform to pay the interest
+      await myToken.transfer(
+        borrower.address,
+        await convertTokenAmount(10, myToken)
+      );
+      await myToken.connect(borrower).approve(lpAddress, amount * 2n);
+      await lendingPlatform.connect(borrower).repay();
+    }
+
+    it("Should mint shares one to one for the first lenders", async function () {
+      const { myToken, lendingPlatform, owner, addr2 } = await loadFixture(
+        twoLendersFixture
+      );
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+
+      expect(await lendingPlatform.balanceOf(owner.address)).to.equal(
+        lendTokenAmount
+      );
+      expect(await lendingPlatform.balanceOf(addr2.address)).to.equal(
+        lendTokenAmount
+      );
+      expect(await lendingPlatform.totalAssets()).to.equal(
+        lendTokenAmount * 2n
+      );
+    });
+
+    it("Should share the interest of repaid loans between lenders", async function () {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(twoLendersFixture);
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+
+      await borrowAndRepay(
+        myToken,
+        lendingPlatform,
+        addr1,
+        await convertTokenAmount(50, myToken)
+      );
+
+      const interest =
+        (await lendingPlatform.getTokenBalance()) - lendTokenAmount * 2n;
+      expect(interest).to.be.greaterThan(0);
+      expect(await lendingPlatform.getLenderBalance(owner.address)).to.equal(
+        await lendingPlatform.getLenderBalance(addr2.address)
+      );
+      expect(
+        await lendingPlatform.getLenderBalance(owner.address)
+      ).to.be.closeTo(lendTokenAmount + interest / 2n, 1);
+    });
+
+    it("Should count the interest accrued on open loans in the shares", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        twoLendersFixture
+      );
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+      const shares = await lendingPlatform.balanceOf(owner.address);
+
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      await time.increase(time.duration.days(180));
+
+      // The interest counts before it is repaid
+      const interest =
+        (await lendingPlatform.getAmountOwed(addr1.address)) -
+        (await convertTokenAmount(50, myToken));
+      expect(interest).to.be.greaterThan(0);
+      expect(await lendingPlatform.totalAssets()).to.be.closeTo(
+        lendTokenAmount * 2n + interest,
+        1
+      );
+      expect(await lendingPlatform.convertToAssets(shares)).to.be.closeTo(
+        lendTokenAmount + interest / 2n,
+        1
+      );
+    });
+
+    it("Should give later lenders fewer shares once interest is earned", async function () {
+      const { myToken, lendingPlatform, addr1, addr2, lpAddress } =
+        await loadFixture(twoLendersFixture);
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+
+      await borrowAndRepay(
+        myToken,
+        lendingPlatform,
+        addr1,
+        await convertTokenAmount(50, myToken)
+      );
+
+      await myToken.connect(addr2).approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(addr2).lend(lendTokenAmount);
+
+      expect(await lendingPlatform.balanceOf(addr2.address)).to.be.lessThan(
+        lendTokenAmount * 2n
+      );
+    });
+
+    it("Should limit withdrawals to the tokens not lent out", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        twoLendersFixture
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(180, myToken));
+
+      const available = await convertTokenAmount(20, myToken);
+      expect(await lendingPlatform.maxWithdraw(owner.address)).to.equal(
+        available
+      );
+      expect(await lendingPlatform.maxRedeem(owner.address)).to.equal(
+        available
+      );
+
+      await expect(
+        lendingPlatform
+          .connect(owner)
+          .withdraw(
+            await convertTokenAmount(50, myToken),
+            owner.address,
+            owner.address
+          )
+      ).to.be.revertedWithCustomError(
+        lendingPlatform,
+        "ERC4626ExceededMaxWithdraw"
+      );
+
+      await expect(
+        lendingPlatform
+          .connect(owner)
+          .withdraw(available, owner.address, owner.address)
+      )
+        .to.emit(lendingPlatform, "TokensWithdrawn")
+        .withArgs(owner.address, available);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(0);
+    });
+
+    it("Should redeem all shares for the tokens lent plus interest", async function () {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(twoLendersFixture);
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+
+      await borrowAndRepay(
+        myToken,
+        lendingPlatform,
+        addr1,
+        await convertTokenAmount(50, myToken)
+      );
+
+      const ownerShares = await lendingPlatform.balanceOf(owner.address);
+      const ownerAssets = await lendingPlatform.getLenderBalance(owner.address);
+      await expect(
+        lendingPlatform
+          .connect(owner)
+          .redeem(ownerShares, owner.address, owner.address)
+      ).to.changeTokenBalance(myToken, owner, ownerAssets);
+
+      const addr2Shares = await lendingPlatform.balanceOf(addr2.address);
+      await lendingPlatform
+        .connect(addr2)
+        .redeem(addr2Shares, addr2.address, addr2.address);
+
+      expect(ownerAssets).to.be.greaterThan(lendTokenAmount);
+      expect(await lendingPlatform.totalSupply()).to.equal(0);
+      expect(await lendingPlatform.getTokenBalance()).to.be.lessThanOrEqual(1);
+    });
+  });
+
+  describe("Interest rate model", function () {
+    const params: KinkedRateModelParams = {
+      baseRate: hre.ethers.parseEther("5"),
+      slope1: hre.ethers.parseEther("15"),
+      slope2: hre.ethers.parseEther("60"),
+      kink: hre.ethers.parseEther("0.8"),
+    };
+
+    it("Should follow the utilization of the pool", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(1000, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+
+      // Borrow the pool out in steps, adding to the same loan each time
+      for (let step = 0; step < 10; step++) {
+        await lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(95, myToken));
+
+        const available = await lendingPlatform.getTokenBalance();
+        const borrowed = await lendingPlatform.getTotalBorrowed();
+        expect(await lendingPlatform.getUtilization()).to.equal(
+          utilizationRate(available, borrowed)
+        );
+        expect(await lendingPlatform.getInterestRate()).to.equal(
+          borrowRate(params, available, borrowed)
+        );
+      }
+
+      // 950 of 1000 tokens lent out is above the kink
+      expect(await lendingPlatform.getUtilization()).to.equal(
+        hre.ethers.parseEther("0.95")
+      );
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("65")
+      );
+    });
+
+    it("Should charge interest at the rate set before the repayment", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+      const borrowTokenAmount = await convertTokenAmount(90, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+      await lendingPlatform.connect(addr1).borrow(borrowTokenAmount);
+      await time.increase(time.duration.days(30));
+
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(10, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, lendTokenAmount);
+      const rate = await lendingPlatform.getInterestRate();
+      const borrowIndex = await lendingPlatform.borrowIndex();
+      const startTime = (
+        await lendingPlatform.queryFilter(
+          lendingPlatform.filters.LoanInitiated(addr1.address)
+        )
+      )[0].args.startTime;
+      const repayTime = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(repayTime);
+
+      await expect(
+        lendingPlatform.connect(addr1).repay()
+      ).to.changeTokenBalance(
+        myToken,
+        addr1,
+        -(
+          borrowTokenAmount +
+          calculateInterest(
+            borrowTokenAmount,
+            rate,
+            BigInt(repayTime) - startTime,
+            borrowIndex
+          )
+        )
+      );
+      expect(await lendingPlatform.getInterestRate()).to.equal(params.baseRate);
+    });
+  });
+
+  describe("Partial repayments", function () {
+    // addr1 borrows 50 of the 100 tokens lent, at 14.375% for 50% utilization
+    async function loanFixture() {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(100, myToken);
+      const borrowTokenAmount = await convertTokenAmount(50, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+      await lendingPlatform.connect(addr1).borrow(borrowTokenAmount);
+      const startTime = BigInt(await time.latest());
+      const rate = await lendingPlatform.getInterestRate();
+      const borrowIndex = await lendingPlatform.borrowIndex();
+
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(50, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+      return {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      };
+    }
+
+    it("Should pay the accrued interest before the principal", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      } = await loadFixture(loanFixture);
+      const repayTime = startTime + BigInt(time.duration.days(180));
+      const interest = calculateInterest(
+        borrowTokenAmount,
+        rate,
+        repayTime - startTime,
+        borrowIndex
+      );
+      const repayAmount = await convertTokenAmount(10, myToken);
+      await time.setNextBlockTimestamp(repayTime);
+
+      await expect(lendingPlatform.connect(addr1).repayPartial(repayAmount))
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(
+          addr1.address,
+          0,
+          repayAmount,
+          interest,
+          borrowTokenAmount + interest - repayAmount,
+          false,
+          repayTime
+        )
+        .and.to.emit(lendingPlatform, "LoanUpdated")
+        .withArgs(
+          addr1.address,
+          0,
+          borrowTokenAmount - (repayAmount - interest),
+          0,
+          anyValue,
+          repayTime
+        );
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(
+        borrowTokenAmount - (repayAmount - interest)
+      );
+      expect(await lendingPlatform.getAmountOwed(addr1.address)).to.equal(
+        borrowTokenAmount + interest - repayAmount
+      );
+    });
+
+    it("Should keep the interest a repayment does not cover", async function () {
+      const {
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      } = await loadFixture(loanFixture);
+      const repayTime = startTime + BigInt(time.duration.days(180));
+      const interest = calculateInterest(
+        borrowTokenAmount,
+        rate,
+        repayTime - startTime,
+        borrowIndex
+      );
+      await time.setNextBlockTimestamp(repayTime);
+
+      await expect(lendingPlatform.connect(addr1).repayPartial(1000))
+        .to.emit(lendingPlatform, "LoanUpdated")
+        .withArgs(
+          addr1.address,
+          0,
+          borrowTokenAmount,
+          interest - 1000n,
+          anyValue,
+          repayTime
+        );
+      expect(await lendingPlatform.getAmountOwed(addr1.address)).to.equal(
+        borrowTokenAmount + interest - 1000n
+      );
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(
+        borrowTokenAmount
+      );
+    });
+
+    it("Should expose the loan and the amount owed", async function () {
+      const {
+        lendingPlatform,
+        owner,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      } = await loadFixture(loanFixture);
+      await time.increase(time.duration.days(180));
+
+      const loan = await lendingPlatform.getLoan(addr1.address, 0);
+      expect(loan.amount).to.equal(borrowTokenAmount);
+      expect(loan.startTime).to.equal(startTime);
+      expect(loan.borrower).to.equal(addr1.address);
+      expect(loan.active).to.equal(true);
+      expect(loan.interest).to.equal(0);
+      expect(await lendingPlatform.getAmountOwed(addr1.address)).to.equal(
+        borrowTokenAmount +
+          calculateInterest(
+            borrowTokenAmount,
+            rate,
+            BigInt(await time.latest()) - startTime,
+            borrowIndex
+          )
+      );
+
+      expect((await lendingPlatform.getLoan(owner.address, 0)).active).to.equal(
+        false
+      );
+      expect(await lendingPlatform.getAmountOwed(owner.address)).to.equal(0);
+    });
+
+    it("Should close the loan with a final repayment", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      } = await loadFixture(loanFixture);
+      const firstTime = startTime + BigInt(time.duration.days(30));
+      await time.setNextBlockTimestamp(firstTime);
+      await lendingPlatform
+        .connect(addr1)
+        .repayPartial(await convertTokenAmount(20, myToken));
+
+      // The rest of the principal accrues interest from the first repayment on
+      const firstInterest = calculateInterest(
+        borrowTokenAmount,
+        rate,
+        firstTime - startTime,
+        borrowIndex
+      );
+      const principal =
+        borrowTokenAmount -
+        ((await convertTokenAmount(20, myToken)) - firstInterest);
+      const finalTime = firstTime + BigInt(time.duration.days(60));
+      const { scaledAmount } = await lendingPlatform.getLoan(addr1.address, 0);
+      const debt = toDebt(
+        scaledAmount,
+        compoundBorrowIndex(
+          await lendingPlatform.borrowIndex(),
+          await lendingPlatform.getInterestRate(),
+          finalTime - firstTime
+        )
+      );
+      await time.setNextBlockTimestamp(finalTime);
+
+      // Amounts above the debt are capped
+      const tx = lendingPlatform
+        .connect(addr1)
+        .repayPartial(await convertTokenAmount(100, myToken));
+      await expect(tx)
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(addr1.address, 0, debt, debt - principal, 0, true, finalTime);
+      await expect(tx).to.changeTokenBalance(myToken, addr1, -debt);
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(0);
+      await expect(lendingPlatform.connect(addr1).repay()).to.revertedWith(
+        "No active loan"
+      );
+    });
+
+    it("Should checkpoint the interest when adding to a loan", async function () {
+      const {
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        rate,
+        borrowIndex,
+      } = await loadFixture(loanFixture);
+      const topUpTime = startTime + BigInt(time.duration.days(90));
+      const interest = calculateInterest(
+        borrowTokenAmount,
+        rate,
+        topUpTime - startTime,
+        borrowIndex
+      );
+      const topUpIndex = compoundBorrowIndex(
+        borrowIndex,
+        rate,
+        topUpTime - startTime
+      );
+      const topUpAmount = hre.ethers.parseEther("10");
+      // The amount added is scaled by the index at the time it is borrowed
+      const scaledAmount =
+        toScaledAmount(borrowTokenAmount, borrowIndex) +
+        toScaledAmount(topUpAmount, topUpIndex);
+      await time.setNextBlockTimestamp(topUpTime);
+
+      await expect(lendingPlatform.connect(addr1).borrow(topUpAmount))
+        .to.emit(lendingPlatform, "LoanUpdated")
+        .withArgs(
+          addr1.address,
+          0,
+          borrowTokenAmount + topUpAmount,
+          interest,
+          scaledAmount,
+          topUpTime
+        );
+
+      // The interest accrued so far compounds with the new principal
+      const newRate = await lendingPlatform.getInterestRate();
+      const repayTime = topUpTime + BigInt(time.duration.days(90));
+      const debt = toDebt(
+        scaledAmount,
+        compoundBorrowIndex(topUpIndex, newRate, repayTime - topUpTime)
+      );
+      await time.setNextBlockTimestamp(repayTime);
+      await expect(lendingPlatform.connect(addr1).repay())
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(
+          addr1.address,
+          0,
+          debt,
+          debt - borrowTokenAmount - topUpAmount,
+          0,
+          true,
+          repayTime
+        );
+    });
+
+    it("Should reject a repayment of zero", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(loanFixture);
+
+      await expect(
+        lendingPlatform.connect(addr1).repayPartial(0)
+      ).to.revertedWith("Must repay a positive amount");
+    });
+  });
+
+  describe("Compounding interest", function () {
+    // Scale of the reference debts, far finer than the contract's
+    const REFERENCE_PRECISION = 10n ** 60n;
+
+    // High-precision reference: the debt times (1 + rate per second) ^ duration,
+    // with debts scaled by REFERENCE_PRECISION
+    function compoundReference(debt: bigint, rate: bigint, duration: bigint) {
+      let base =
+        REFERENCE_PRECISION +
+        (rate * REFERENCE_PRECISION) /
+          (100n * SECONDS_PER_YEAR * RATE_PRECISION);
+      for (let left = duration; left > 0n; left /= 2n) {
+        if (left % 2n === 1n) {
+          debt = (debt * base) / REFERENCE_PRECISION;
+        }
+        base = (base * base) / REFERENCE_PRECISION;
+      }
+      return debt;
+    }
+
+    // Reference debt of an amount borrowed through periods at different rates
+    function referenceDebt(
+      amount: bigint,
+      periods: { rate: bigint; duration: bigint }[]
+    ) {
+      return periods.reduce(
+        (debt, { rate, duration }) => compoundReference(debt, rate, duration),
+        amount * REFERENCE_PRECISION
+      );
+    }
+
+    // Tolerance: the contract rounds the debt down to a wei, and rounding the
+    // rate per second to 27 decimals costs less than one part in 1e18 more
+    function expectCloseToReference(debt: bigint, reference: bigint) {
+      const tolerance = REFERENCE_PRECISION + reference / 10n ** 18n;
+      const error = debt * REFERENCE_PRECISION - reference;
+      expect(error < 0n ? -error : error).to.be.at.most(tolerance);
+    }
+
+    // addr1 borrows from the 1000 tokens lent by the owner
+    async function borrowFixture(amount: bigint) {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lendTokenAmount = await convertTokenAmount(1000, myToken);
+      await myToken.approve(lendingPlatform, lendTokenAmount);
+      await lendingPlatform.lend(lendTokenAmount);
+      await lendingPlatform.connect(addr1).borrow(amount);
+      return {
+        myToken,
+        lendingPlatform,
+        addr1,
+        addr2,
+        startTime: BigInt(await time.latest()),
+        rate: await lendingPlatform.getInterestRate(),
+      };
+    }
+
+    it("Should match a high-precision reference over many durations and amounts", async function () {
+      const amounts = [
+        1n,
+        999n,
+        10n ** 9n,
+        hre.ethers.parseEther("1"),
+        hre.ethers.parseEther("123.456789"),
+        hre.ethers.parseEther("800"),
+        hre.ethers.parseEther("1000"),
+      ];
+      const durations = [
+        1,
+        12,
+        time.duration.hours(1),
+        time.duration.days(1),
+        time.duration.days(30),
+        time.duration.years(1),
+        time.duration.years(5),
+      ].map(BigInt);
+
+      for (const amount of amounts) {
+        const { lendingPlatform, addr1, startTime, rate } = await borrowFixture(
+          amount
+        );
+        for (const duration of durations) {
+          await time.increaseTo(startTime + duration);
+          expectCloseToReference(
+            await lendingPlatform.getAmountOwed(addr1.address),
+            referenceDebt(amount, [{ rate, duration }])
+          );
+        }
+      }
+    });
+
+    it("Should keep the debt correct across rate changes", async function () {
+      const amount = hre.ethers.parseEther("400");
+      const { lendingPlatform, addr1, addr2, startTime, rate } =
+        await borrowFixture(amount);
+
+      // Another loan raises the utilization, and so the rate, after 90 days
+      const changeTime = startTime + BigInt(time.duration.days(90));
+      await time.setNextBlockTimestamp(changeTime);
+      await lendingPlatform.connect(addr2).borrow(hre.ethers.parseEther("450"));
+      const newRate = await lendingPlatform.getInterestRate();
+      expect(newRate).to.be.greaterThan(rate);
+
+      const endTime = changeTime + BigInt(time.duration.days(270));
+      await time.increaseTo(endTime);
+      expectCloseToReference(
+        await lendingPlatform.getAmountOwed(addr1.address),
+        referenceDebt(amount, [
+          { rate, duration: changeTime - startTime },
+          { rate: newRate, duration: endTime - changeTime },
+        ])
+      );
+    });
+
+    it("Should keep the interest accrued between checkpoints", async function () {
+      // 10000 wei accrue 1.37 wei a day at 5%, which simple interest
+      // checkpointed every day would round down to 1
+      const amount = 10000n;
+      const { myToken, lendingPlatform, addr1, startTime, rate } =
+        await borrowFixture(amount);
+      await myToken.connect(addr1).approve(lendingPlatform, amount);
+
+      let reference = amount * REFERENCE_PRECISION;
+      let currentRate = rate;
+      for (let day = 1; day <= 30; day++) {
+        // Repaying a wei checkpoints the interest
+        await time.setNextBlockTimestamp(
+          startTime + BigInt(time.duration.days(day))
+        );
+        await lendingPlatform.connect(addr1).repayPartial(1);
+        reference =
+          compoundReference(
+            reference,
+            currentRate,
+            BigInt(time.duration.days(1))
+          ) - REFERENCE_PRECISION;
+        currentRate = await lendingPlatform.getInterestRate();
+      }
+
+      expectCloseToReference(
+        await lendingPlatform.getAmountOwed(addr1.address),
+        reference
+      );
+    });
+  });
+
+  describe("Fixed-term loans", function () {
+    // addr1 borrows 50 tokens for 90 days and can repay them with interest
+    async function termLoanFixture() {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+      const lpAddress = await lendingPlatform.getAddress();
+      const borrowTokenAmount = await convertTokenAmount(50, myToken);
+      const term = BigInt(time.duration.days(90));
+      await myToken.approve(lpAddress, await convertTokenAmount(100, myToken));
+      await lendingPlatform.lend(await convertTokenAmount(100, myToken));
+      await lendingPlatform
+        .connect(addr1)
+        .borrowWithTerm(borrowTokenAmount, term);
+      const startTime = BigInt(await time.latest());
+      const rate = await lendingPlatform.getInterestRate();
+      const borrowIndex = await lendingPlatform.borrowIndex();
+
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(50, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+      return {
+        myToken,
+        lendingPlatform,
+        owner,
+        addr1,
+        addr2,
+        borrowTokenAmount,
+        dueDate: startTime + term,
+        startTime,
+        rate,
+        borrowIndex,
+      };
+    }
+
+    it("Should offer 30, 90 and 180 day terms", async function () {
+      const { myToken, lendingPlatform, addr2 } = await loadFixture(
+        termLoanFixture
+      );
+
+      expect(await lendingPlatform.getLoanTerms()).to.deep.equal([
+        BigInt(time.duration.days(30)),
+        BigInt(time.duration.days(90)),
+        BigInt(time.duration.days(180)),
+      ]);
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowWithTerm(
+            await convertTokenAmount(10, myToken),
+            time.duration.days(60)
+          )
+      ).to.revertedWith("Unsupported loan term");
+    });
+
+    it("Should reject a fixed-term loan of zero", async function () {
+      const { myToken, lendingPlatform, addr2 } = await loadFixture(
+        termLoanFixture
+      );
+
+      await expect(
+        lendingPlatform.connect(addr2).borrowWithTerm(0, time.duration.days(30))
+      ).to.revertedWith("Must borrow a positive amount");
+      expect((await lendingPlatform.getLoan(addr2.address, 1)).active).to.equal(
+        false
+      );
+
+      // No zero loan falls into default and blocks later borrows
+      await time.increase(time.duration.days(90));
+      expect(await lendingPlatform.loanState(addr2.address)).to.equal(0);
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrow(await convertTokenAmount(10, myToken))
+      ).to.emit(lendingPlatform, "LoanInitiated");
+    });
+
+    it("Should store the due date on the loan", async function () {
+      const { myToken, lendingPlatform, addr1, startTime, dueDate } =
+        await loadFixture(termLoanFixture);
+
+      const loan = await lendingPlatform.getLoan(addr1.address, 1);
+      expect(loan.startTime).to.equal(startTime);
+      expect(loan.dueDate).to.equal(dueDate);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(1);
+
+      // Adding to the loan keeps its due date
+      await lendingPlatform
+        .connect(addr1)
+        .increaseLoan(1, await convertTokenAmount(10, myToken));
+      const increased = await lendingPlatform.getLoan(addr1.address, 1);
+      expect(increased.amount).to.equal(await convertTokenAmount(60, myToken));
+      expect(increased.dueDate).to.equal(dueDate);
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .increaseLoan(2, await convertTokenAmount(10, myToken))
+      ).to.revertedWith("No active loan");
+    });
+
+    it("Should take fixed-term loans next to the open-ended loan", async function () {
+      const { myToken, lendingPlatform, addr1, borrowTokenAmount } =
+        await loadFixture(termLoanFixture);
+      const amount = await convertTokenAmount(5, myToken);
+      const term = time.duration.days(30);
+
+      await lendingPlatform.connect(addr1).borrow(amount);
+      await expect(lendingPlatform.connect(addr1).borrowWithTerm(amount, term))
+        .to.emit(lendingPlatform, "LoanInitiated")
+        .withArgs(addr1.address, 2, amount, anyValue);
+      const shortDueDate = BigInt(await time.latest()) + BigInt(term);
+      await lendingPlatform.connect(addr1).borrowWithTerm(amount, term);
+      await expect(
+        lendingPlatform.connect(addr1).borrowWithTerm(amount, term)
+      ).to.revertedWith("Too many loans");
+
+      // Each loan keeps its own principal and due date
+      const loans = await Promise.all(
+        [0, 1, 2, 3].map((id) => lendingPlatform.getLoan(addr1.address, id))
+      );
+      expect(loans.map((loan) => loan.amount)).to.deep.equal([
+        amount,
+        borrowTokenAmount,
+        amount,
+        amount,
+      ]);
+      expect(loans[0].dueDate).to.equal(0);
+      expect(loans[2].dueDate).to.equal(shortDueDate);
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(
+        borrowTokenAmount + 3n * amount
+      );
+
+      // The state is that of the most overdue loan
+      await time.increaseTo(shortDueDate + 1n);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(2);
+      await expect(
+        lendingPlatform.connect(addr1).borrow(amount)
+      ).to.revertedWith("Loan overdue");
+
+      // Repaying the overdue loans brings the borrower back to current and
+      // frees their ids
+      await expect(
+        lendingPlatform.connect(addr1).repayLoan(2, hre.ethers.MaxUint256)
+      )
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(addr1.address, 2, anyValue, anyValue, 0, true, anyValue);
+      await lendingPlatform.connect(addr1).repayLoan(3, hre.ethers.MaxUint256);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(1);
+      expect((await lendingPlatform.getLoan(addr1.address, 1)).active).to.equal(
+        true
+      );
+      expect(
+        await lendingPlatform
+          .connect(addr1)
+          .borrowWithTerm.staticCall(amount, term)
+      ).to.equal(2);
+      await expect(
+        lendingPlatform.connect(addr1).repayLoan(3, amount)
+      ).to.revertedWith("No active loan");
+    });
+
+    it("Should repay all the loans in loan id order", async function () {
+      const { myToken, lendingPlatform, addr1, borrowTokenAmount } =
+        await loadFixture(termLoanFixture);
+      const amount = await convertTokenAmount(5, myToken);
+      await lendingPlatform.connect(addr1).borrow(amount);
+      await time.increase(time.duration.days(10));
+
+      // The open-ended loan 0 is repaid first, then the fixed-term loan 1
+      const tx = lendingPlatform
+        .connect(addr1)
+        .repayPartial(await convertTokenAmount(10, myToken));
+      await expect(tx)
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(addr1.address, 0, anyValue, anyValue, 0, true, anyValue);
+      const [, repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      expect(repaid.args.loanId).to.equal(1);
+      expect(repaid.args.closed).to.equal(false);
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+      expect(
+        (await lendingPlatform.getLoan(addr1.address, 1)).amount
+      ).to.be.lessThan(borrowTokenAmount);
+
+      await lendingPlatform.connect(addr1).repay();
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(0);
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(0);
+    });
+
+    it("Should walk a loan through the on-time, late and defaulted states", async function () {
+      const { myToken, lendingPlatform, addr1, dueDate } = await loadFixture(
+        termLoanFixture
+      );
+      const gracePeriod = await lendingPlatform.gracePeriod();
+      const defaultPeriod = await lendingPlatform.defaultPeriod();
+
+      await time.increaseTo(dueDate);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(1);
+
+      await time.increase(1);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(2);
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(10, myToken))
+      ).to.revertedWith("Loan overdue");
+
+      await time.increaseTo(dueDate + defaultPeriod);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(2);
+      expect(gracePeriod).to.be.lessThan(defaultPeriod);
+
+      await time.increase(1);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(3);
+
+      await lendingPlatform.connect(addr1).repay();
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(0);
+    });
+
+    it("Should charge the penalty rate once the grace period is over", async function () {
+      const {
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        dueDate,
+        rate,
+        borrowIndex,
+      } = await loadFixture(termLoanFixture);
+      const gracePeriod = await lendingPlatform.gracePeriod();
+      const penaltyRate = await lendingPlatform.penaltyRate();
+
+      // No penalty is due until the grace period is over
+      await time.increaseTo(dueDate + gracePeriod);
+      expect(await lendingPlatform.getAmountOwed(addr1.address)).to.equal(
+        borrowTokenAmount +
+          calculateInterest(
+            borrowTokenAmount,
+            rate,
+            dueDate + gracePeriod - startTime,
+            borrowIndex
+          )
+      );
+
+      const repayTime = dueDate + gracePeriod + BigInt(time.duration.days(20));
+      const interest = calculateInterest(
+        borrowTokenAmount,
+        rate,
+        repayTime - startTime,
+        borrowIndex
+      );
+      const penalty = calculatePenaltyInterest(
+        { amount: borrowTokenAmount, startTime, dueDate },
+        penaltyRate,
+        gracePeriod,
+        repayTime
+      );
+      // 20 days at 10% a year on 50 tokens
+      expect(penalty).to.equal((borrowTokenAmount * 10n * 20n) / (365n * 100n));
+      await time.setNextBlockTimestamp(repayTime);
+
+      await expect(lendingPlatform.connect(addr1).repay())
+        .to.emit(lendingPlatform, "LoanRepaid")
+        .withArgs(
+          addr1.address,
+          1,
+          borrowTokenAmount + interest + penalty,
+          interest + penalty,
+          0,
+          true,
+          repayTime
+        );
+    });
+
+    it("Should not charge the penalty twice after a checkpoint", async function () {
+      const {
+        myToken,
+        lendingPlatform,
+        addr1,
+        borrowTokenAmount,
+        startTime,
+        dueDate,
+        rate,
+        borrowIndex,
+      } = await loadFixture(termLoanFixture);
+      const gracePeriod = await lendingPlatform.gracePeriod();
+      const penaltyRate = await lendingPlatform.penaltyRate();
+      const partialTime =
+        dueDate + gracePeriod + BigInt(time.duration.days(10));
+      const repayTime = partialTime + BigInt(time.duration.days(10));
+      const loan = { amount: borrowTokenAmount, startTime, dueDate };
+
+      // Repaying part of the debt checkpoints the interest and the penalty
+      await time.setNextBlockTimestamp(partialTime);
+      const partial = await convertTokenAmount(1, myToken);
+      await lendingPlatform.connect(addr1).repayPartial(partial);
+      const checkpointed =
+        calculateInterest(
+          borrowTokenAmount,
+          rate,
+          partialTime - startTime,
+          borrowIndex
+        ) +
+        calculatePenaltyInterest(loan, penaltyRate, gracePeriod, partialTime) -
+        partial;
+      const updated = await lendingPlatform.getLoan(addr1.address, 1);
+      expect(updated.interest).to.equal(checkpointed);
+
+      // The partial repayment changed the utilization, and so the rate
+      const newRate = await lendingPlatform.getInterestRate();
+      const partialIndex = await lendingPlatform.borrowIndex();
+      await time.setNextBlockTimestamp(repayTime);
+      await lendingPlatform.connect(addr1).repay();
+      const [, repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      expect(repaid.args.amount).to.equal(
+        toDebt(
+          updated.scaledAmount,
+          compoundBorrowIndex(partialIndex, newRate, repayTime - partialTime)
+        ) +
+          calculatePenaltyInterest(
+            { ...loan, startTime: partialTime },
+            penaltyRate,
+            gracePeriod,
+            repayTime
+          )
+      );
+    });
+  });
+
+  describe("Permits", function () {
+    // Signs a permit for the platform valid for an hour
+    async function permitFor(
+      myToken: MyToken,
+      lendingPlatform: LendingPlatform,
+      signer: HardhatEthersSigner,
+      value: bigint
+    ) {
+      return signPermit(
+        myToken,
+        signer,
+        await lendingPlatform.getAddress(),
+        value,
+        BigInt((await time.latest()) + time.duration.hours(1))
+      );
+    }
+
+    it("Should lend with a permit in a single transaction", async function () {
+      const { myToken, lendingPlatform, owner } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = await convertTokenAmount(100, myToken);
+      const { deadline, v, r, s } = await permitFor(
+        myToken,
+        lendingPlatform,
+        owner,
+        amount
+      );
+
+      await expect(lendingPlatform.lendWithPermit(amount, deadline, v, r, s))
+        .to.emit(lendingPlatform, "TokensDeposited")
+        .withArgs(owner.address, amount);
+
+      expect(await lendingPlatform.balanceOf(owner.address)).to.equal(amount);
+      expect(await myToken.allowance(owner, lendingPlatform)).to.equal(0);
+      expect(await myToken.nonces(owner.address)).to.equal(1);
+    });
+
+    it("Should repay with a permit in a single transaction", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      await myToken.approve(lendingPlatform, hre.ethers.MaxUint256);
+      await lendingPlatform.lend(await convertTokenAmount(100, myToken));
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(10, myToken)
+      );
+      await time.increase(time.duration.days(30));
+
+      // The permit covers more than the debt, which is repaid in full
+      const value = await convertTokenAmount(55, myToken);
+      const { deadline, v, r, s } = await permitFor(
+        myToken,
+        lendingPlatform,
+        addr1,
+        value
+      );
+      const tx = lendingPlatform
+        .connect(addr1)
+        .repayWithPermit(value, deadline, v, r, s);
+
+      await expect(tx).to.emit(lendingPlatform, "LoanRepaid");
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      expect(repaid.args.closed).to.equal(true);
+      expect(await myToken.allowance(addr1, lendingPlatform)).to.equal(
+        value - repaid.args.amount
+      );
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+    });
+
+    it("Should lend when the permit was already submitted", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = await convertTokenAmount(100, myToken);
+      const { deadline, v, r, s } = await permitFor(
+        myToken,
+        lendingPlatform,
+        owner,
+        amount
+      );
+      // Another account submits the permit to the token first
+      await myToken
+        .connect(addr1)
+        .permit(owner, lendingPlatform, amount, deadline, v, r, s);
+
+      await expect(lendingPlatform.lendWithPermit(amount, deadline, v, r, s))
+        .to.emit(lendingPlatform, "TokensDeposited")
+        .withArgs(owner.address, amount);
+      expect(await lendingPlatform.balanceOf(owner.address)).to.equal(amount);
+      expect(await myToken.nonces(owner.address)).to.equal(1);
+    });
+
+    it("Should reject an expired permit", async function () {
+      const { myToken, lendingPlatform, owner } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = await convertTokenAmount(100, myToken);
+      const deadline = BigInt(await time.latest());
+      const { v, r, s } = await signPermit(
+        myToken,
+        owner,
+        await lendingPlatform.getAddress(),
+        amount,
+        deadline
+      );
+
+      // The permit is skipped, so there is no allowance for the transfer
+      await expect(
+        lendingPlatform.lendWithPermit(amount, deadline, v, r, s)
+      ).to.be.revertedWithCustomError(myToken, "ERC20InsufficientAllowance");
+    });
+
+    it("Should reject a permit signed by another account", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = await convertTokenAmount(100, myToken);
+      // addr1 signs a permit for its own tokens, which the owner submits, so
+      // the signature recovers an unrelated address for the owner's permit
+      const { deadline, v, r, s } = await permitFor(
+        myToken,
+        lendingPlatform,
+        addr1,
+        amount
+      );
+
+      await expect(
+        lendingPlatform.lendWithPermit(amount, deadline, v, r, s)
+      ).to.be.revertedWithCustomError(myToken, "ERC20InsufficientAllowance");
+    });
+
+    it("Should reject a replayed permit", async function () {
+      const { myToken, lendingPlatform, owner } = await loadFixture(
+        deployTokenFixture
+      );
+      const amount = await convertTokenAmount(100, myToken);
+      const { deadline, v, r, s } = await permitFor(
+        myToken,
+        lendingPlatform,
+        owner,
+        amount
+      );
+      await lendingPlatform.lendWithPermit(amount, deadline, v, r, s);
+
+      // The nonce was used and the allowance spent, so nothing is lent again
+      await expect(
+        lendingPlatform.lendWithPermit(amount, deadline, v, r, s)
+      ).to.be.revertedWithCustomError(myToken, "ERC20InsufficientAllowance");
+      expect(await lendingPlatform.getTokenBalance()).to.equal(amount);
+    });
+  });
+
+  describe("Credit delegation", function () {
+    // The owner lends 100 tokens
+    async function poolFixture() {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+      await myToken.approve(lendingPlatform, hre.ethers.MaxUint256);
+      await lendingPlatform.lend(await convertTokenAmount(100, myToken));
+      return { myToken, lendingPlatform, owner, addr1, addr2 };
+    }
+
+    it("Should record a delegated borrow against the delegator", async function () {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        poolFixture
+      );
+      const allowance = await convertTokenAmount(60, myToken);
+      await expect(
+        lendingPlatform.connect(addr1).approveDelegation(addr2, allowance)
+      )
+        .to.emit(lendingPlatform, "BorrowAllowanceUpdated")
+        .withArgs(addr1.address, addr2.address, allowance);
+
+      const amount = await convertTokenAmount(40, myToken);
+      const tx = lendingPlatform.connect(addr2).borrowFor(addr1, amount);
+
+      await expect(tx)
+        .to.emit(lendingPlatform, "DelegatedBorrow")
+        .withArgs(addr1.address, addr2.address, amount);
+      await expect(tx)
+        .to.emit(lendingPlatform, "LoanInitiated")
+        .withArgs(addr1.address, 0, amount, anyValue);
+      await expect(tx).to.changeTokenBalances(
+        myToken,
+        [addr2, lendingPlatform],
+        [amount, -amount]
+      );
+      const loan = await lendingPlatform.getLoan(addr1.address, 0);
+      expect(loan.borrower).to.equal(addr1.address);
+      expect(loan.amount).to.equal(amount);
+      expect((await lendingPlatform.getLoan(addr2.address, 0)).active).to.equal(
+        false
+      );
+      expect(await lendingPlatform.borrowAllowance(addr1, addr2)).to.equal(
+        allowance - amount
+      );
+    });
+
+    it("Should reject borrows beyond the allowance", async function () {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(poolFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .approveDelegation(addr2, await convertTokenAmount(10, myToken));
+
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowFor(addr1, await convertTokenAmount(11, myToken))
+      ).to.revertedWith("Borrow allowance exceeded");
+      // The allowance is only for the approved delegate
+      await expect(
+        lendingPlatform
+          .connect(owner)
+          .borrowFor(addr1, await convertTokenAmount(1, myToken))
+      ).to.revertedWith("Borrow allowance exceeded");
+    });
+
+    it("Should reject the zero address and the caller as delegates", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(poolFixture);
+
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .approveDelegation(hre.ethers.ZeroAddress, 1)
+      ).to.revertedWith("Invalid delegate");
+      await expect(
+        lendingPlatform.connect(addr1).approveDelegation(addr1, 1)
+      ).to.revertedWith("Invalid delegate");
+    });
+
+    it("Should let anyone repay a loan for its borrower", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        poolFixture
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      await time.increase(time.duration.days(30));
+
+      const tx = lendingPlatform.repayFor(addr1);
+
+      await expect(tx)
+        .to.emit(lendingPlatform, "RepaidFor")
+        .withArgs(addr1.address, owner.address, anyValue);
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      expect(repaid.args.closed).to.equal(true);
+      expect(repaid.args.amount).to.be.greaterThan(
+        await convertTokenAmount(50, myToken)
+      );
+      await expect(tx).to.changeTokenBalances(
+        myToken,
+        [owner, addr1],
+        [-repaid.args.amount, 0]
+      );
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+      await expect(lendingPlatform.repayFor(addr1)).to.revertedWith(
+        "No active loan"
+      );
+    });
+  });
+
+  describe("Flash loans", function () {
+    // The pool holds 900 tokens and the borrower 1 token to pay fees with
+    async function flashLoanFixture() {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(900, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+
+      const MockFlashBorrowerFactory = await hre.ethers.getContractFactory(
+        "MockFlashBorrower"
+      );
+      const borrower: MockFlashBorrower = await MockFlashBorrowerFactory.deploy(
+        lendingPlatform
+      );
+      await borrower.waitForDeployment();
+      await myToken.transfer(borrower, await convertTokenAmount(1, myToken));
+
+      return { myToken, lendingPlatform, owner, addr1, borrower };
+    }
+
+    it("Should lend the available tokens for a fee", async function () {
+      const { myToken, lendingPlatform, addr1 } = await loadFixture(
+        flashLoanFixture
+      );
+      const amount = await convertTokenAmount(500, myToken);
+
+      expect(await lendingPlatform.maxFlashLoan(myToken)).to.equal(
+        await convertTokenAmount(900, myToken)
+      );
+      expect(await lendingPlatform.maxFlashLoan(addr1.address)).to.equal(0);
+      // 0.09% of 500 tokens
+      expect(await lendingPlatform.flashFee(myToken, amount)).to.equal(
+        hre.ethers.parseEther("0.45")
+      );
+      await expect(
+        lendingPlatform.flashFee(addr1.address, amount)
+      ).to.revertedWith("Unsupported flash loan token");
+    });
+
+    it("Should credit the fee to the pool", async function () {
+      const { myToken, lendingPlatform, borrower } = await loadFixture(
+        flashLoanFixture
+      );
+      const amount = await convertTokenAmount(900, myToken);
+      const fee = hre.ethers.parseEther("0.81");
+
+      const tx = borrower.flashBorrow(myToken, amount);
+
+      await expect(tx)
+        .to.emit(lendingPlatform, "FlashLoan")
+        .withArgs(await borrower.getAddress(), amount, fee);
+      await expect(tx).to.changeTokenBalances(
+        myToken,
+        [borrower, lendingPlatform],
+        [-fee, fee]
+      );
+      expect(await borrower.balanceDuringLoan()).to.equal(
+        amount + (await convertTokenAmount(1, myToken))
+      );
+      expect(await lendingPlatform.getTokenBalance()).to.equal(amount + fee);
+      expect(await lendingPlatform.totalAssets()).to.equal(amount + fee);
+    });
+
+    it("Should reject loans larger than the available tokens", async function () {
+      const { myToken, lendingPlatform, addr1, borrower } = await loadFixture(
+        flashLoanFixture
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+
+      await expect(
+        borrower.flashBorrow(myToken, await convertTokenAmount(801, myToken))
+      ).to.revertedWith("Insufficient funds");
+      await expect(borrower.flashBorrow(addr1.address, 1)).to.revertedWith(
+        "Unsupported flash loan token"
+      );
+    });
+
+    it("Should revert when the borrower underpays", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(flashLoanFixture);
+      const MockUnderpayingFlashBorrowerFactory =
+        await hre.ethers.getContractFactory("MockUnderpayingFlashBorrower");
+      const borrower = await MockUnderpayingFlashBorrowerFactory.deploy(
+        lendingPlatform
+      );
+      await myToken.transfer(borrower, await convertTokenAmount(1, myToken));
+
+      await expect(
+        borrower.flashBorrow(myToken, await convertTokenAmount(100, myToken))
+      ).to.be.revertedWithCustomError(myToken, "ERC20InsufficientAllowance");
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        await convertTokenAmount(900, myToken)
+      );
+    });
+
+    it("Should block borrow and repay during the callback", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(flashLoanFixture);
+      const MockReentrantFlashBorrowerFactory =
+        await hre.ethers.getContractFactory("MockReentrantFlashBorrower");
+      const amount = await convertTokenAmount(100, myToken);
+
+      // Action.Borrow and Action.Repay
+      for (const action of [0, 1]) {
+        const borrower = await MockReentrantFlashBorrowerFactory.deploy(
+          lendingPlatform,
+          action
+        );
+        await expect(
+          borrower.flashBorrow(myToken, amount)
+        ).to.be.revertedWithCustomError(
+          lendingPlatform,
+          "ReentrancyGuardReentrantCall"
+        );
+      }
+    });
+
+    it("Should stop flash loans while paused", async function () {
+      const { myToken, lendingPlatform, borrower } = await loadFixture(
+        flashLoanFixture
+      );
+      await lendingPlatform.pause();
+
+      expect(await lendingPlatform.maxFlashLoan(myToken)).to.equal(0);
+      await expect(
+        borrower.flashBorrow(myToken, 1)
+      ).to.be.revertedWithCustomError(lendingPlatform, "EnforcedPause");
+    });
+
+    it("Should change the fee through the timelock", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(flashLoanFixture);
+      const setFee = (fee: number) =>
+        lendingPlatform.interface.encodeFunctionData("setFlashLoanFee", [fee]);
+      await lendingPlatform.queueChange(setFee(30));
+      await lendingPlatform.queueChange(setFee(101));
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+
+      await expect(lendingPlatform.executeChange(setFee(30)))
+        .to.emit(lendingPlatform, "FlashLoanFeeUpdated")
+        .withArgs(30);
+      expect(
+        await lendingPlatform.flashFee(
+          myToken,
+          await convertTokenAmount(100, myToken)
+        )
+      ).to.equal(hre.ethers.parseEther("0.3"));
+      await expect(lendingPlatform.executeChange(setFee(101))).to.revertedWith(
+        "Flash loan fee too high"
+      );
+    });
+  });
+
+  describe("Admin controls", function () {
+    // A flat 10% model to switch to
+    async function newRateModelFixture() {
+      const contracts = await loadFixture(deployTokenFixture);
+      const KinkedRateModelFactory = await hre.ethers.getContractFactory(
+        "KinkedRateModel"
+      );
+      const newRateModel = await KinkedRateModelFactory.deploy(
+        hre.ethers.parseEther("10"),
+        0,
+        0,
+        hre.ethers.parseEther("0.8")
+      );
+      await newRateModel.waitForDeployment();
+      const setRateModel =
+        contracts.lendingPlatform.interface.encodeFunctionData("setRateModel", [
+          await newRateModel.getAddress(),
+        ]);
+      const id = hre.ethers.keccak256(setRateModel);
+      return { ...contracts, newRateModel, setRateModel, id };
+    }
+
+    it("Should be owned by the deployer", async function () {
+      const { lendingPlatform, owner } = await loadFixture(deployTokenFixture);
+      expect(await lendingPlatform.owner()).to.equal(owner.address);
+    });
+
+    it("Should block lending and borrowing while paused", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const tokenAmount = await convertTokenAmount(100, myToken);
+      await myToken.approve(lpAddress, tokenAmount);
+
+      await expect(lendingPlatform.pause())
+        .to.emit(lendingPlatform, "Paused")
+        .withArgs(owner.address);
+      expect(await lendingPlatform.maxDeposit(owner.address)).to.equal(0);
+      expect(await lendingPlatform.maxMint(owner.address)).to.equal(0);
+
+      await expect(
+        lendingPlatform.lend(tokenAmount)
+      ).to.be.revertedWithCustomError(lendingPlatform, "EnforcedPause");
+      // The ERC-4626 entry points check maxDeposit and maxMint first
+      await expect(
+        lendingPlatform.deposit(tokenAmount, owner.address)
+      ).to.be.revertedWithCustomError(
+        lendingPlatform,
+        "ERC4626ExceededMaxDeposit"
+      );
+      await expect(
+        lendingPlatform.mint(tokenAmount, owner.address)
+      ).to.be.revertedWithCustomError(
+        lendingPlatform,
+        "ERC4626ExceededMaxMint"
+      );
+      await expect(
+        lendingPlatform.connect(addr1).borrow(1)
+      ).to.be.revertedWithCustomError(lendingPlatform, "EnforcedPause");
+
+      await lendingPlatform.unpause();
+      expect(await lendingPlatform.maxDeposit(owner.address)).to.equal(
+        hre.ethers.MaxUint256
+      );
+      await expect(lendingPlatform.lend(tokenAmount)).to.emit(
+        lendingPlatform,
+        "TokensDeposited"
+      );
+    });
+
+    it("Should allow repayments and withdrawals while paused", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      await myToken.approve(lpAddress, await convertTokenAmount(100, myToken));
+      await lendingPlatform.lend(await convertTokenAmount(100, myToken));
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(10, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+
+      await lendingPlatform.pause();
+
+      await expect(lendingPlatform.connect(addr1).repay()).to.emit(
+        lendingPlatform,
+        "LoanRepaid"
+      );
+      await expect(
+        lendingPlatform.redeem(
+          await lendingPlatform.balanceOf(owner.address),
+          owner.address,
+          owner.address
+        )
+      ).to.emit(lendingPlatform, "TokensWithdrawn");
+    });
+
+    it("Should only let the owner pause and queue changes", async function () {
+      const { lendingPlatform, addr1, setRateModel } = await loadFixture(
+        newRateModelFixture
+      );
+
+      await expect(lendingPlatform.connect(addr1).pause())
+        .to.be.revertedWithCustomError(
+          lendingPlatform,
+          "OwnableUnauthorizedAccount"
+        )
+        .withArgs(addr1.address);
+      await expect(
+        lendingPlatform.connect(addr1).queueChange(setRateModel)
+      ).to.be.revertedWithCustomError(
+        lendingPlatform,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+
+    it("Should switch the rate model once the timelock expires", async function () {
+      const { lendingPlatform, rateModel, newRateModel, setRateModel, id } =
+        await loadFixture(newRateModelFixture);
+
+      const queuedAt = (await time.latest()) + 1;
+      await time.setNextBlockTimestamp(queuedAt);
+      const executableAt =
+        BigInt(queuedAt) + (await lendingPlatform.TIMELOCK_DELAY());
+      await expect(lendingPlatform.queueChange(setRateModel))
+        .to.emit(lendingPlatform, "ChangeQueued")
+        .withArgs(id, setRateModel, executableAt);
+      expect(await lendingPlatform.queuedChanges(id)).to.equal(executableAt);
+
+      await expect(lendingPlatform.executeChange(setRateModel)).to.revertedWith(
+        "Timelock not expired"
+      );
+
+      await time.increaseTo(executableAt);
+      await expect(lendingPlatform.executeChange(setRateModel))
+        .to.emit(lendingPlatform, "RateModelUpdated")
+        .withArgs(await rateModel.getAddress(), await newRateModel.getAddress())
+        .and.to.emit(lendingPlatform, "ChangeExecuted")
+        .withArgs(id, setRateModel);
+
+      expect(await lendingPlatform.getRateModel()).to.equal(
+        await newRateModel.getAddress()
+      );
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("10")
+      );
+      expect(await lendingPlatform.queuedChanges(id)).to.equal(0);
+      await expect(lendingPlatform.executeChange(setRateModel)).to.revertedWith(
+        "Change not queued"
+      );
+    });
+
+    it("Should cancel a queued change", async function () {
+      const { lendingPlatform, rateModel, setRateModel, id } =
+        await loadFixture(newRateModelFixture);
+      await lendingPlatform.queueChange(setRateModel);
+      await expect(lendingPlatform.queueChange(setRateModel)).to.revertedWith(
+        "Change already queued"
+      );
+
+      await expect(lendingPlatform.cancelChange(id))
+        .to.emit(lendingPlatform, "ChangeCancelled")
+        .withArgs(id);
+
+      await time.increase(time.duration.days(3));
+      await expect(lendingPlatform.executeChange(setRateModel)).to.revertedWith(
+        "Change not queued"
+      );
+      await expect(lendingPlatform.cancelChange(id)).to.revertedWith(
+        "Change not queued"
+      );
+      expect(await lendingPlatform.getRateModel()).to.equal(
+        await rateModel.getAddress()
+      );
+    });
+
+    it("Should only change parameters through the timelock", async function () {
+      const { lendingPlatform, newRateModel } = await loadFixture(
+        newRateModelFixture
+      );
+
+      await expect(lendingPlatform.setRateModel(newRateModel)).to.revertedWith(
+        "Only through the timelock"
+      );
+      await expect(
+        lendingPlatform.queueChange(
+          lendingPlatform.interface.encodeFunctionData("pause")
+        )
+      ).to.revertedWith("Unknown change");
+      await expect(lendingPlatform.queueChange("0x")).to.revertedWith(
+        "Unknown change"
+      );
+    });
+
+    it("Should revert with the setter's reason when a change is invalid", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const setRateModel = lendingPlatform.interface.encodeFunctionData(
+        "setRateModel",
+        [hre.ethers.ZeroAddress]
+      );
+      await lendingPlatform.queueChange(setRateModel);
+      await time.increase(time.duration.days(2));
+
+      await expect(lendingPlatform.executeChange(setRateModel)).to.revertedWith(
+        "Invalid rate model"
+      );
+    });
+
+    it("Should change the loan terms through the timelock", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const changes = [
+        lendingPlatform.interface.encodeFunctionData("setLoanTerm", [
+          time.duration.days(60),
+          true,
+        ]),
+        lendingPlatform.interface.encodeFunctionData("setLoanTerm", [
+          time.duration.days(30),
+          false,
+        ]),
+        lendingPlatform.interface.encodeFunctionData("setLatePaymentTerms", [
+          time.duration.days(3),
+          hre.ethers.parseEther("20"),
+          time.duration.days(14),
+        ]),
+      ];
+      for (const change of changes) {
+        await lendingPlatform.queueChange(change);
+      }
+      await time.increase(time.duration.days(2));
+
+      await expect(lendingPlatform.executeChange(changes[0]))
+        .to.emit(lendingPlatform, "LoanTermUpdated")
+        .withArgs(time.duration.days(60), true);
+      await expect(lendingPlatform.executeChange(changes[1]))
+        .to.emit(lendingPlatform, "LoanTermUpdated")
+        .withArgs(time.duration.days(30), false);
+      await expect(lendingPlatform.executeChange(changes[2]))
+        .to.emit(lendingPlatform, "LatePaymentTermsUpdated")
+        .withArgs(
+          time.duration.days(3),
+          hre.ethers.parseEther("20"),
+          time.duration.days(14)
+        );
+
+      // The last term takes the place of the withdrawn one
+      expect(await lendingPlatform.getLoanTerms()).to.deep.equal([
+        BigInt(time.duration.days(60)),
+        BigInt(time.duration.days(90)),
+        BigInt(time.duration.days(180)),
+      ]);
+      expect(await lendingPlatform.loanTerms(time.duration.days(30))).to.equal(
+        false
+      );
+      expect(await lendingPlatform.penaltyRate()).to.equal(
+        hre.ethers.parseEther("20")
+      );
+    });
+
+    it("Should reject invalid loan terms", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const changes: [string, string][] = [
+        [
+          lendingPlatform.interface.encodeFunctionData("setLoanTerm", [
+            time.duration.years(2),
+            true,
+          ]),
+          "Invalid loan term",
+        ],
+        [
+          lendingPlatform.interface.encodeFunctionData("setLatePaymentTerms", [
+            time.duration.days(30),
+            hre.ethers.parseEther("10"),
+            time.duration.days(7),
+          ]),
+          "Grace period longer than default period",
+        ],
+        [
+          lendingPlatform.interface.encodeFunctionData("setLatePaymentTerms", [
+            time.duration.days(7),
+            hre.ethers.parseEther("101"),
+            time.duration.days(30),
+          ]),
+          "Penalty rate too high",
+        ],
+      ];
+      for (const [change] of changes) {
+        await lendingPlatform.queueChange(change);
+      }
+      await time.increase(time.duration.days(2));
+
+      for (const [change, reason] of changes) {
+        await expect(lendingPlatform.executeChange(change)).to.revertedWith(
+          reason
+        );
+      }
+    });
+  });
 });
@@ -5,26 +5,25 @@ import {
   setBalance,
 } from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
-import { MyToken, LendingPlatformWithCollateral } from "../typechain-types";
+import { anyValue } from "@nomicfoundation/hardhat-chai-matchers/withArgs";
+import {
+  MyToken,
+  MockPriceOracle,
+  LendingPlatformWithCollateral,
+} from "../typechain-types";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+import { calculateInterest, signPermit } from "../sdk";
 
 describe("LendingPlatformWithCollateral contract", function () {
   async function deployTokenFixture() {
     const tokensToMint = 1000;
     const [owner, addr1, addr2] = await hre.ethers.getSigners();
 
-    const myTokenFactory = await hre.ethers.getContractFactory("MyToken");
-    const LendingPlatformWithCollateralFactory =
-      await hre.ethers.getContractFactory("LendingPlatformWithCollateral");
-
-    const myToken: MyToken = await myTokenFactory.deploy(tokensToMint);
-    await myToken.waitForDeployment();
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
 
-    const interestRate = 5;
-    const lendingPlatform: LendingPlatformWithCollateral =
-      await LendingPlatformWithCollateralFactory.deploy(myToken, interestRate);
-    await lendingPlatform.waitForDeployment();
-
-    return { myToken, lendingPlatform, owner, addr1, addr2 };
+    return { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 };
   }
 
   async function convertTokenAmount(amount: number, token: MyToken) {
@@ -40,7 +39,27 @@ describe("LendingPlatformWithCollateral contract", function () {
 
     it("Should initialize with the correct interest rate", async function () {
       const { lendingPlatform } = await loadFixture(deployTokenFixture);
-      expect(await lendingPlatform.getInterestRate()).to.equal(5);
+      expect(await lendingPlatform.getInterestRate()).to.equal(
+        hre.ethers.parseEther("5")
+      );
+    });
+
+    it("Should reject invalid liquidation parameters", async function () {
+      const { myToken, priceOracle, lendingPlatform } = await loadFixture(
+        deployTokenFixture
+      );
+      const rateModel = await lendingPlatform.getRateModel();
+      const deploy = (closeFactor: number, liquidationBonus: number) =>
+        deployLendingPlatformWithCollateral(
+          { myToken, rateModel, priceOracle },
+          closeFactor,
+          liquidationBonus
+        );
+
+      await expect(deploy(0, 5)).to.revertedWith("Invalid close factor");
+      await expect(deploy(101, 5)).to.revertedWith("Invalid close factor");
+      // A 10% bonus would use up the whole 110% liquidation margin
+      await expect(deploy(50, 10)).to.revertedWith("Invalid liquidation bonus");
     });
   });
 
@@ -209,4 +228,1305 @@ describe("LendingPlatformWithCollateral contract", function () {
       expect(addr1Balance).to.be.lessThan(hre.ethers.parseEther("1"));
     });
   });
+
+  describe("Price oracle", function () {
+    async function borrowFixture() {
+      const { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+
+      const lpAddress = await lendingPlatform.getAddress();
+      const tokenAmount = await convertTokenAmount(500, myToken);
+      await myToken.approve(lpAddress, tokenAmount);
+      await lendingPlatform.connect(owner).lend(tokenAmount);
+
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("0.08"),
+      });
+
+      return { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 };
+    }
+
+    it("Should scale the required collateral with the oracle price", async function () {
+      const { myToken, priceOracle, lendingPlatform } = await loadFixture(
+        borrowFixture
+      );
+      const borrowTokenAmount = await convertTokenAmount(100, myToken);
+
+      // 100 tokens / 2000 * 150%
+      expect(
+        await lendingPlatform.requiredCollateralForBorrowing(borrowTokenAmount)
+      ).to.equal(hre.ethers.parseEther("0.075"));
+
+      await priceOracle.setPrice(hre.ethers.parseEther("1000"));
+      expect(
+        await lendingPlatform.requiredCollateralForBorrowing(borrowTokenAmount)
+      ).to.equal(hre.ethers.parseEther("0.15"));
+    });
+
+    it("Should reduce borrowing capacity when the price falls", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1 } =
+        await loadFixture(borrowFixture);
+      const borrowTokenAmount = await convertTokenAmount(100, myToken);
+
+      await priceOracle.setPrice(hre.ethers.parseEther("1000"));
+      await expect(
+        lendingPlatform.connect(addr1).borrow(borrowTokenAmount)
+      ).to.revertedWith("Not enough collateral");
+
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      await expect(
+        lendingPlatform.connect(addr1).borrow(borrowTokenAmount)
+      ).to.emit(lendingPlatform, "LoanInitiated");
+    });
+
+    it("Should lock collateral when the price falls", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1 } =
+        await loadFixture(borrowFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      const withdrawAmount = hre.ethers.parseEther("0.02");
+
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1.address,
+          withdrawAmount
+        )
+      ).to.equal(true);
+
+      // 50 tokens / 1300 * 150% = 0.0577 ETH must stay locked, leaving room
+      // for the interest accrued since
+      await priceOracle.setPrice(hre.ethers.parseEther("1300"));
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1.address,
+          withdrawAmount
+        )
+      ).to.equal(true);
+
+      await priceOracle.setPrice(hre.ethers.parseEther("1000"));
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1.address,
+          withdrawAmount
+        )
+      ).to.equal(false);
+      await expect(
+        lendingPlatform.connect(addr1).withdrawCollateral(withdrawAmount)
+      ).to.revertedWith("Collateral locked due to borrowed tokens");
+    });
+
+    it("Should lock the collateral securing the accrued interest", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1 } =
+        await loadFixture(borrowFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+      await time.increase(time.duration.days(180));
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+
+      // The principal alone needs 100 tokens / 2000 * 150% = 0.075 ETH, but
+      // the interest accrued since needs more
+      const withdrawAmount = hre.ethers.parseEther("0.005");
+      expect(
+        await lendingPlatform.getAmountOwed(addr1.address)
+      ).to.be.greaterThan(await convertTokenAmount(100, myToken));
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1.address,
+          withdrawAmount
+        )
+      ).to.equal(false);
+      await expect(
+        lendingPlatform.connect(addr1).withdrawCollateral(withdrawAmount)
+      ).to.revertedWith("Collateral locked due to borrowed tokens");
+    });
+
+    it("Should make a position liquidatable when the price falls", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2 } =
+        await loadFixture(borrowFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+
+      // 100 tokens / 1500 * 110% = 0.0733 ETH < 0.08 ETH deposited
+      await priceOracle.setPrice(hre.ethers.parseEther("1500"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        false
+      );
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .liquidate(addr1.address, await convertTokenAmount(50, myToken))
+      ).to.revertedWith("Collateral value is sufficient");
+
+      // 100 tokens / 1200 * 110% = 0.0917 ETH > 0.08 ETH deposited
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        true
+      );
+    });
+
+    it("Should report the health factor of a position", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2 } =
+        await loadFixture(borrowFixture);
+      expect(await lendingPlatform.healthFactor(addr1.address)).to.equal(
+        hre.ethers.MaxUint256
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+
+      // 0.08 ETH * 1500 / 110% covers 109.09 tokens of the 100 owed
+      await priceOracle.setPrice(hre.ethers.parseEther("1500"));
+      const debt = await lendingPlatform.getAmountOwed(addr1.address);
+      const covered = (hre.ethers.parseEther("0.08") * 1500n * 100n) / 110n;
+      expect(await lendingPlatform.healthFactor(addr1.address)).to.equal(
+        (covered * hre.ethers.parseEther("1")) / debt
+      );
+
+      // 0.08 ETH * 1200 / 110% covers 87.27 tokens
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      expect(await lendingPlatform.healthFactor(addr1.address)).to.be.lessThan(
+        hre.ethers.parseEther("1")
+      );
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        true
+      );
+      expect(await lendingPlatform.healthFactor(addr2.address)).to.equal(
+        hre.ethers.MaxUint256
+      );
+    });
+
+    it("Should reject stale prices", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1 } =
+        await loadFixture(borrowFixture);
+      const borrowTokenAmount = await convertTokenAmount(50, myToken);
+
+      await time.increase(time.duration.hours(2));
+      await expect(
+        lendingPlatform.connect(addr1).borrow(borrowTokenAmount)
+      ).to.revertedWith("Stale price");
+
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      await expect(
+        lendingPlatform.connect(addr1).borrow(borrowTokenAmount)
+      ).to.emit(lendingPlatform, "LoanInitiated");
+    });
+
+    it("Should reject a zero price", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1 } =
+        await loadFixture(borrowFixture);
+
+      await priceOracle.setPrice(0);
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(50, myToken))
+      ).to.revertedWith("Invalid price");
+    });
+
+    it("Should allow withdrawals without a loan when the price is stale", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(borrowFixture);
+
+      await time.increase(time.duration.hours(2));
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateral(hre.ethers.parseEther("0.08"))
+      ).to.emit(lendingPlatform, "CollateralWithdrawn");
+    });
+  });
+
+  describe("Partial repayments", function () {
+    // addr1 borrows 100 tokens against 0.1 ETH
+    async function loanFixture() {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        deployTokenFixture
+      );
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(500, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("0.1"),
+      });
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(50, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+      return { myToken, lendingPlatform, addr1 };
+    }
+
+    it("Should release collateral in proportion to the debt repaid", async function () {
+      const { myToken, lendingPlatform, addr1 } = await loadFixture(
+        loanFixture
+      );
+      await time.increase(time.duration.days(30));
+
+      const tx = lendingPlatform
+        .connect(addr1)
+        .repayPartial(await convertTokenAmount(40, myToken));
+      const receipt = await (await tx).wait();
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address),
+        receipt!.blockNumber
+      );
+      const { amount, remainingDebt } = repaid.args;
+      const collateral = hre.ethers.parseEther("0.1");
+      const kept = (collateral * remainingDebt) / (amount + remainingDebt);
+
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(
+        kept
+      );
+      await expect(tx).to.changeEtherBalance(addr1, collateral - kept);
+      await expect(tx)
+        .to.emit(lendingPlatform, "CollateralWithdrawn")
+        .withArgs(addr1.address, collateral - kept);
+    });
+
+    it("Should refund all collateral with the final repayment", async function () {
+      const { myToken, lendingPlatform, addr1 } = await loadFixture(
+        loanFixture
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .repayPartial(await convertTokenAmount(40, myToken));
+      const kept = await lendingPlatform.collateralEther(addr1.address);
+
+      await expect(
+        lendingPlatform.connect(addr1).repay()
+      ).to.changeEtherBalance(addr1, kept);
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+    });
+
+    it("Should refund all collateral when repaying with a permit", async function () {
+      const { myToken, lendingPlatform, addr1 } = await loadFixture(
+        loanFixture
+      );
+      await time.increase(time.duration.days(30));
+      const value = await convertTokenAmount(110, myToken);
+      const { deadline, v, r, s } = await signPermit(
+        myToken,
+        addr1,
+        await lendingPlatform.getAddress(),
+        value,
+        BigInt((await time.latest()) + time.duration.hours(1))
+      );
+
+      const tx = lendingPlatform
+        .connect(addr1)
+        .repayWithPermit(value, deadline, v, r, s);
+
+      await expect(tx).to.changeEtherBalance(
+        addr1,
+        hre.ethers.parseEther("0.1")
+      );
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+    });
+
+    it("Should require collateral for the whole loan when adding to it", async function () {
+      const { myToken, lendingPlatform, addr1 } = await loadFixture(
+        loanFixture
+      );
+
+      // 0.1 ETH covers 133 tokens at 150%, and 100 are already owed
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(40, myToken))
+      ).to.revertedWith("Not enough collateral");
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(30, myToken))
+      ).to.emit(lendingPlatform, "LoanInitiated");
+    });
+  });
+
+  describe("Credit delegation", function () {
+    // addr1 deposits 0.1 ETH, enough for 133 tokens, and lets addr2 borrow 100
+    async function delegationFixture() {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+      await myToken.approve(lendingPlatform, hre.ethers.MaxUint256);
+      await lendingPlatform.lend(await convertTokenAmount(500, myToken));
+
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("0.1"),
+      });
+      await lendingPlatform
+        .connect(addr1)
+        .approveDelegation(addr2, await convertTokenAmount(100, myToken));
+      return { myToken, lendingPlatform, owner, addr1, addr2 };
+    }
+
+    it("Should consume the allowance until it is revoked", async function () {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        delegationFixture
+      );
+
+      await lendingPlatform
+        .connect(addr2)
+        .borrowFor(addr1, await convertTokenAmount(60, myToken));
+      expect(await lendingPlatform.borrowAllowance(addr1, addr2)).to.equal(
+        await convertTokenAmount(40, myToken)
+      );
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowFor(addr1, await convertTokenAmount(50, myToken))
+      ).to.revertedWith("Borrow allowance exceeded");
+
+      await expect(lendingPlatform.connect(addr1).approveDelegation(addr2, 0))
+        .to.emit(lendingPlatform, "BorrowAllowanceUpdated")
+        .withArgs(addr1.address, addr2.address, 0);
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowFor(addr1, await convertTokenAmount(10, myToken))
+      ).to.revertedWith("Borrow allowance exceeded");
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).amount).to.equal(
+        await convertTokenAmount(60, myToken)
+      );
+    });
+
+    it("Should require the collateral of the delegator", async function () {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        delegationFixture
+      );
+      await lendingPlatform
+        .connect(addr1)
+        .approveDelegation(addr2, await convertTokenAmount(500, myToken));
+
+      // The collateral of the delegate does not secure the debt of the delegator
+      await lendingPlatform.connect(addr2).depositCollateral({
+        value: hre.ethers.parseEther("1"),
+      });
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowFor(addr1, await convertTokenAmount(140, myToken))
+      ).to.revertedWith("Not enough collateral");
+    });
+
+    it("Should reject a zero borrow from an account without an allowance", async function () {
+      const { myToken, lendingPlatform, owner, addr1 } = await loadFixture(
+        delegationFixture
+      );
+
+      await expect(
+        lendingPlatform.connect(owner).borrowFor(addr1, 0)
+      ).to.revertedWith("Must borrow a positive amount");
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+
+      // The borrower still borrows and repays as usual
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(10, myToken));
+      await myToken
+        .connect(addr1)
+        .approve(lendingPlatform, hre.ethers.MaxUint256);
+      await myToken.transfer(addr1, await convertTokenAmount(1, myToken));
+      await expect(lendingPlatform.connect(addr1).repay())
+        .to.emit(lendingPlatform, "CollateralWithdrawn")
+        .withArgs(addr1.address, hre.ethers.parseEther("0.1"));
+    });
+
+    it("Should lock the collateral of the delegator", async function () {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        delegationFixture
+      );
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1,
+          hre.ethers.parseEther("0.1")
+        )
+      ).to.equal(true);
+
+      // 60 tokens need 0.045 ETH of collateral at 150%
+      await lendingPlatform
+        .connect(addr2)
+        .borrowFor(addr1, await convertTokenAmount(60, myToken));
+
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1,
+          hre.ethers.parseEther("0.05")
+        )
+      ).to.equal(true);
+      expect(
+        await lendingPlatform.canWithdrawCollateral(
+          addr1,
+          hre.ethers.parseEther("0.06")
+        )
+      ).to.equal(false);
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateral(hre.ethers.parseEther("0.06"))
+      ).to.revertedWith("Collateral locked due to borrowed tokens");
+    });
+
+    it("Should release the collateral to the borrower when repaid for them", async function () {
+      const { myToken, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(delegationFixture);
+      await lendingPlatform
+        .connect(addr2)
+        .borrowFor(addr1, await convertTokenAmount(60, myToken));
+      await time.increase(time.duration.days(30));
+
+      const tx = lendingPlatform.repayFor(addr1);
+
+      const collateral = hre.ethers.parseEther("0.1");
+      await expect(tx)
+        .to.emit(lendingPlatform, "RepaidFor")
+        .withArgs(addr1.address, owner.address, anyValue);
+      await expect(tx)
+        .to.emit(lendingPlatform, "CollateralWithdrawn")
+        .withArgs(addr1.address, collateral);
+      await expect(tx).to.changeEtherBalances([addr1, owner], [collateral, 0]);
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+      expect(await lendingPlatform.canWithdrawCollateral(addr1, 0)).to.equal(
+        true
+      );
+    });
+  });
+
+  describe("Fixed-term loans", function () {
+    // addr1 borrows 100 tokens for 30 days against 1 ETH, far more than needed
+    async function termLoanFixture() {
+      const { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 } =
+        await loadFixture(deployTokenFixture);
+      const lpAddress = await lendingPlatform.getAddress();
+      await myToken.approve(lpAddress, await convertTokenAmount(500, myToken));
+      await lendingPlatform.lend(await convertTokenAmount(500, myToken));
+
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("1"),
+      });
+      await lendingPlatform
+        .connect(addr1)
+        .borrowWithTerm(
+          await convertTokenAmount(100, myToken),
+          time.duration.days(30)
+        );
+      const { dueDate } = await lendingPlatform.getLoan(addr1.address, 1);
+
+      await myToken.transfer(
+        addr2.address,
+        await convertTokenAmount(200, myToken)
+      );
+      await myToken.connect(addr2).approve(lpAddress, hre.ethers.MaxUint256);
+      return {
+        myToken,
+        priceOracle,
+        lendingPlatform,
+        owner,
+        addr1,
+        addr2,
+        dueDate,
+      };
+    }
+
+    it("Should require collateral for fixed-term loans", async function () {
+      const { myToken, lendingPlatform, addr2 } = await loadFixture(
+        termLoanFixture
+      );
+
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .borrowWithTerm(
+            await convertTokenAmount(10, myToken),
+            time.duration.days(30)
+          )
+      ).to.revertedWith("Not enough collateral");
+    });
+
+    it("Should not liquidate a late loan before it defaults", async function () {
+      const { priceOracle, lendingPlatform, addr1, addr2, dueDate } =
+        await loadFixture(termLoanFixture);
+
+      // The liquidation is mined on the last second before the default
+      await time.increaseTo(
+        dueDate + (await lendingPlatform.defaultPeriod()) - 2n
+      );
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(2);
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        false
+      );
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .liquidate(addr1.address, hre.ethers.parseEther("10"))
+      ).to.revertedWith("Collateral value is sufficient");
+    });
+
+    it("Should let liquidators repay a defaulted loan in full for its collateral", async function () {
+      const { priceOracle, lendingPlatform, addr1, addr2, dueDate } =
+        await loadFixture(termLoanFixture);
+      await time.increaseTo(
+        dueDate + (await lendingPlatform.defaultPeriod()) + 1n
+      );
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+
+      // The collateral still covers the debt many times over
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(3);
+      expect(
+        await lendingPlatform.healthFactor(addr1.address)
+      ).to.be.greaterThan(hre.ethers.parseEther("5"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        true
+      );
+
+      // The close factor does not apply, so the whole debt is repaid
+      const tx = lendingPlatform
+        .connect(addr2)
+        .liquidate(addr1.address, hre.ethers.parseEther("200"));
+      await expect(tx).to.emit(lendingPlatform, "Liquidated");
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated(addr1.address)
+      );
+      const { repaidAmount, collateralSeized, badDebt, remainingDebt } =
+        liquidated.args;
+      expect(repaidAmount).to.be.greaterThan(hre.ethers.parseEther("100"));
+      expect(collateralSeized).to.equal(
+        (((repaidAmount * hre.ethers.parseEther("1")) /
+          hre.ethers.parseEther("2000")) *
+          105n) /
+          100n
+      );
+      expect(badDebt).to.equal(0);
+      expect(remainingDebt).to.equal(0);
+      expect(await lendingPlatform.loanState(addr1.address)).to.equal(0);
+
+      // The collateral left goes back to the borrower
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(
+        hre.ethers.parseEther("1") - collateralSeized
+      );
+    });
+
+    it("Should secure and liquidate all the loans of a borrower together", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2, dueDate } =
+        await loadFixture(termLoanFixture);
+
+      // 1 ETH covers 2000 / 1.5 = 1333 tokens of debt, the 150 tokens of the
+      // two loans included
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(50, myToken));
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrowWithTerm(
+            await convertTokenAmount(1200, myToken),
+            time.duration.days(30)
+          )
+      ).to.revertedWith("Not enough collateral");
+
+      // A single defaulted loan makes the whole position liquidatable
+      await time.increaseTo(
+        dueDate + (await lendingPlatform.defaultPeriod()) + 1n
+      );
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      await lendingPlatform
+        .connect(addr2)
+        .liquidate(addr1.address, hre.ethers.parseEther("200"));
+
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated(addr1.address)
+      );
+      expect(liquidated.args.repaidAmount).to.be.greaterThan(
+        hre.ethers.parseEther("150")
+      );
+      expect(liquidated.args.remainingDebt).to.equal(0);
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+      expect((await lendingPlatform.getLoan(addr1.address, 1)).active).to.equal(
+        false
+      );
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(0);
+    });
+  });
+
+  describe("Liquidation", function () {
+    type Contracts = Awaited<ReturnType<typeof deployTokenFixture>>;
+
+    // addr1 borrows 100 tokens against 0.08 ETH and addr2 holds tokens to liquidate with
+    async function openLoan({
+      myToken,
+      lendingPlatform,
+      owner,
+      addr1,
+      addr2,
+    }: Contracts) {
+      const lpAddress = await lendingPlatform.getAddress();
+      const lendTokenAmount = await convertTokenAmount(500, myToken);
+      await myToken.approve(lpAddress, lendTokenAmount);
+      await lendingPlatform.connect(owner).lend(lendTokenAmount);
+
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("0.08"),
+      });
+      const principal = await convertTokenAmount(100, myToken);
+      await lendingPlatform.connect(addr1).borrow(principal);
+      const startTime = BigInt(await time.latest());
+      const rate = await lendingPlatform.getInterestRate();
+      const borrowIndex = await lendingPlatform.borrowIndex();
+
+      const liquidatorTokens = await convertTokenAmount(200, myToken);
+      await myToken.transfer(addr2.address, liquidatorTokens);
+      await myToken.connect(addr2).approve(lpAddress, liquidatorTokens);
+
+      // Debt of addr1 at a given time, while the utilization stays the same
+      const debtAt = (timestamp: bigint) =>
+        principal +
+        calculateInterest(principal, rate, timestamp - startTime, borrowIndex);
+      return { principal, startTime, debtAt };
+    }
+
+    async function liquidationFixture() {
+      const contracts = await loadFixture(deployTokenFixture);
+      return { ...contracts, ...(await openLoan(contracts)) };
+    }
+
+    // Same loan on a platform whose close factor lets liquidators repay the whole debt
+    async function fullCloseFixture() {
+      const contracts = await loadFixture(deployTokenFixture);
+      const lendingPlatform = await deployLendingPlatformWithCollateral(
+        {
+          myToken: contracts.myToken,
+          rateModel: await contracts.lendingPlatform.getRateModel(),
+          priceOracle: contracts.priceOracle,
+        },
+        100
+      );
+
+      const fullClose = { ...contracts, lendingPlatform };
+      return { ...fullClose, ...(await openLoan(fullClose)) };
+    }
+
+    // Sets the price and returns the timestamp of the next block
+    async function movePrice(priceOracle: MockPriceOracle, price: string) {
+      await priceOracle.setPrice(hre.ethers.parseEther(price));
+      const liquidationTime = BigInt(await time.latest()) + 1n;
+      await time.setNextBlockTimestamp(liquidationTime);
+      return liquidationTime;
+    }
+
+    function collateralFor(tokenAmount: bigint, price: string) {
+      return (
+        (((tokenAmount * hre.ethers.parseEther("1")) /
+          hre.ethers.parseEther(price)) *
+          105n) /
+        100n
+      );
+    }
+
+    it("Should repay up to the close factor share of the debt", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2, debtAt } =
+        await loadFixture(liquidationFixture);
+      await time.increase(time.duration.days(1));
+
+      // 0.08 ETH * 1200 = 96 tokens < 110% of the debt
+      const liquidationTime = await movePrice(priceOracle, "1200");
+      const debt = debtAt(liquidationTime);
+      const repaid = (debt * 50n) / 100n;
+      const seized = collateralFor(repaid, "1200");
+
+      const tx = lendingPlatform
+        .connect(addr2)
+        .liquidate(addr1.address, await convertTokenAmount(100, myToken));
+      await expect(tx)
+        .to.emit(lendingPlatform, "Liquidated")
+        .withArgs(
+          addr1.address,
+          addr2.address,
+          hre.ethers.ZeroAddress,
+          repaid,
+          seized,
+          0,
+          debt - repaid
+        );
+      await expect(tx).to.changeTokenBalances(
+        myToken,
+        [addr2, lendingPlatform],
+        [-repaid, repaid]
+      );
+      await expect(tx).to.changeEtherBalances(
+        [addr2, lendingPlatform],
+        [seized, -seized]
+      );
+
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(
+        hre.ethers.parseEther("0.08") - seized
+      );
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(debt - repaid);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        (await convertTokenAmount(400, myToken)) + repaid
+      );
+      // 0.0363 ETH left cannot secure any more borrowing
+      await expect(lendingPlatform.connect(addr1).borrow(1)).to.revertedWith(
+        "Not enough collateral"
+      );
+    });
+
+    it("Should close the loan when the whole debt is repaid", async function () {
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2, debtAt } =
+        await loadFixture(fullCloseFixture);
+
+      // 0.08 ETH * 1350 = 108 tokens covers the debt plus the bonus
+      const liquidationTime = await movePrice(priceOracle, "1350");
+      const debt = debtAt(liquidationTime);
+      const seized = collateralFor(debt, "1350");
+
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .liquidate(addr1.address, await convertTokenAmount(200, myToken))
+      )
+        .to.emit(lendingPlatform, "Liquidated")
+        .withArgs(
+          addr1.address,
+          addr2.address,
+          hre.ethers.ZeroAddress,
+          debt,
+          seized,
+          0,
+          0
+        );
+
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(0);
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        false
+      );
+
+      // The collateral left over is free again
+      const leftover = hre.ethers.parseEther("0.08") - seized;
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(
+        leftover
+      );
+      await expect(
+        lendingPlatform.connect(addr1).withdrawCollateral(leftover)
+      ).to.changeEtherBalance(addr1, leftover);
+    });
+
+    it("Should write off the debt the collateral cannot cover", async function () {
+      const {
+        myToken,
+        priceOracle,
+        lendingPlatform,
+        owner,
+        addr1,
+        addr2,
+        debtAt,
+      } = await loadFixture(liquidationFixture);
+
+      // 0.08 ETH * 500 = 40 tokens, less than the close factor share plus bonus
+      const liquidationTime = await movePrice(priceOracle, "500");
+      const debt = debtAt(liquidationTime);
+      const collateral = hre.ethers.parseEther("0.08");
+      const repaid =
+        (collateral * hre.ethers.parseEther("500") * 100n) /
+        (hre.ethers.parseEther("1") * 105n);
+
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .liquidate(addr1.address, await convertTokenAmount(100, myToken))
+      )
+        .to.emit(lendingPlatform, "Liquidated")
+        .withArgs(
+          addr1.address,
+          addr2.address,
+          hre.ethers.ZeroAddress,
+          repaid,
+          collateral,
+          debt - repaid,
+          0
+        );
+
+      // The lenders bear the loss
+      const remainingAssets = (await convertTokenAmount(400, myToken)) + repaid;
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+      expect(await lendingPlatform.getTotalBorrowed()).to.equal(0);
+      expect(await lendingPlatform.totalAssets()).to.equal(remainingAssets);
+      expect(await lendingPlatform.getLenderBalance(owner.address)).to.equal(
+        remainingAssets
+      );
+      await expect(lendingPlatform.connect(addr1).repay()).to.revertedWith(
+        "No active loan"
+      );
+    });
+
+    it("Should reject healthy positions", async function () {
+      const { myToken, lendingPlatform, addr1, addr2 } = await loadFixture(
+        liquidationFixture
+      );
+      const repayAmount = await convertTokenAmount(50, myToken);
+
+      await expect(
+        lendingPlatform.connect(addr2).liquidate(addr1.address, repayAmount)
+      ).to.revertedWith("Collateral value is sufficient");
+      await expect(
+        lendingPlatform.connect(addr1).liquidate(addr2.address, repayAmount)
+      ).to.revertedWith("Collateral value is sufficient");
+      await expect(
+        lendingPlatform.connect(addr2).liquidate(addr1.address, 0)
+      ).to.revertedWith("Must repay a positive amount");
+    });
+
+    it("Should count accrued interest towards the liquidation ratio", async function () {
+      const { priceOracle, lendingPlatform, addr1 } = await loadFixture(
+        liquidationFixture
+      );
+
+      // 0.08 ETH * 1400 = 112 tokens covers 110% of the 100 tokens borrowed
+      await priceOracle.setPrice(hre.ethers.parseEther("1400"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        false
+      );
+
+      // but not 110% of the debt after a year of interest at 8.75%
+      await time.increase(time.duration.years(1));
+      await priceOracle.setPrice(hre.ethers.parseEther("1400"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        true
+      );
+    });
+  });
+
+  describe("ERC-20 collateral", function () {
+    // Two MyToken deployments are listed as collateral: assetA is worth 2
+    // lending tokens at 150%/120% and assetB 0.5 tokens at 200%/130%
+    async function collateralTokenFixture() {
+      const contracts = await loadFixture(deployTokenFixture);
+      const { myToken, priceOracle, lendingPlatform, addr1, addr2 } = contracts;
+      const myTokenFactory = await hre.ethers.getContractFactory("MyToken");
+      const MockPriceOracleFactory = await hre.ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+
+      const assetA: MyToken = await myTokenFactory.deploy(1000);
+      const assetB: MyToken = await myTokenFactory.deploy(1000);
+      const oracleA: MockPriceOracle = await MockPriceOracleFactory.deploy(
+        hre.ethers.parseEther("2")
+      );
+      const oracleB: MockPriceOracle = await MockPriceOracleFactory.deploy(
+        hre.ethers.parseEther("0.5")
+      );
+
+      const setAssetA = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [await assetA.getAddress(), 150, 120, await oracleA.getAddress()]
+      );
+      const setAssetB = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [await assetB.getAddress(), 200, 130, await oracleB.getAddress()]
+      );
+      await lendingPlatform.queueChange(setAssetA);
+      await lendingPlatform.queueChange(setAssetB);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      await lendingPlatform.executeChange(setAssetA);
+      await lendingPlatform.executeChange(setAssetB);
+
+      // Refresh the prices after waiting out the timelock
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      await oracleA.setPrice(hre.ethers.parseEther("2"));
+      await oracleB.setPrice(hre.ethers.parseEther("0.5"));
+
+      const lpAddress = await lendingPlatform.getAddress();
+      await myToken.approve(lpAddress, hre.ethers.MaxUint256);
+      await lendingPlatform.lend(await convertTokenAmount(500, myToken));
+      for (const asset of [assetA, assetB]) {
+        await asset.transfer(
+          addr1.address,
+          await convertTokenAmount(500, asset)
+        );
+        await asset.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+      }
+      await myToken.transfer(
+        addr1.address,
+        await convertTokenAmount(100, myToken)
+      );
+      await myToken.connect(addr1).approve(lpAddress, hre.ethers.MaxUint256);
+      await myToken.connect(addr2).approve(lpAddress, hre.ethers.MaxUint256);
+
+      return { ...contracts, assetA, assetB, oracleA, oracleB };
+    }
+
+    it("Should list collateral assets through the timelock", async function () {
+      const { myToken, lendingPlatform, assetA, assetB, oracleA } =
+        await loadFixture(collateralTokenFixture);
+
+      expect(await lendingPlatform.getCollateralAssets()).to.deep.equal([
+        await assetA.getAddress(),
+        await assetB.getAddress(),
+      ]);
+      expect(await lendingPlatform.collateralAssets(assetA)).to.deep.equal([
+        true,
+        150n,
+        120n,
+        await oracleA.getAddress(),
+      ]);
+      expect(await lendingPlatform.getAssetPrice(assetA)).to.equal(
+        hre.ethers.parseEther("2")
+      );
+
+      await expect(
+        lendingPlatform.setCollateralAsset(assetA, 150, 120, oracleA)
+      ).to.revertedWith("Only through the timelock");
+      // The lending token itself cannot be pledged
+      const setToken = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [await myToken.getAddress(), 150, 120, await oracleA.getAddress()]
+      );
+      await lendingPlatform.queueChange(setToken);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      await expect(lendingPlatform.executeChange(setToken)).to.revertedWith(
+        "Invalid collateral asset"
+      );
+    });
+
+    it("Should update the parameters of a listed asset", async function () {
+      const { lendingPlatform, assetA, oracleB } = await loadFixture(
+        collateralTokenFixture
+      );
+      const setAssetA = lendingPlatform.interface.encodeFunctionData(
+        "setCollateralAsset",
+        [await assetA.getAddress(), 175, 125, await oracleB.getAddress()]
+      );
+      await lendingPlatform.queueChange(setAssetA);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+
+      await expect(lendingPlatform.executeChange(setAssetA))
+        .to.emit(lendingPlatform, "CollateralAssetUpdated")
+        .withArgs(
+          await assetA.getAddress(),
+          175,
+          125,
+          await oracleB.getAddress()
+        );
+      expect(await lendingPlatform.getCollateralAssets()).to.have.length(2);
+      expect(await lendingPlatform.collateralAssets(assetA)).to.deep.equal([
+        true,
+        175n,
+        125n,
+        await oracleB.getAddress(),
+      ]);
+    });
+
+    it("Should deposit and withdraw collateral per asset", async function () {
+      const { myToken, lendingPlatform, addr1, assetA, assetB } =
+        await loadFixture(collateralTokenFixture);
+      const amountA = await convertTokenAmount(100, assetA);
+      const amountB = await convertTokenAmount(50, assetB);
+
+      await expect(
+        lendingPlatform.connect(addr1).depositCollateralToken(assetA, amountA)
+      )
+        .to.emit(lendingPlatform, "CollateralTokenDeposited")
+        .withArgs(addr1.address, await assetA.getAddress(), amountA);
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetB, amountB);
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, assetA)
+      ).to.equal(amountA);
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, assetB)
+      ).to.equal(amountB);
+
+      const withdrawn = await convertTokenAmount(40, assetA);
+      const tx = lendingPlatform
+        .connect(addr1)
+        .withdrawCollateralToken(assetA, withdrawn);
+      await expect(tx)
+        .to.emit(lendingPlatform, "CollateralTokenWithdrawn")
+        .withArgs(addr1.address, await assetA.getAddress(), withdrawn);
+      await expect(tx).to.changeTokenBalance(assetA, addr1, withdrawn);
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, assetA)
+      ).to.equal(amountA - withdrawn);
+
+      await expect(
+        lendingPlatform.connect(addr1).withdrawCollateralToken(assetB, amountA)
+      ).to.revertedWith("Not enough collateral");
+      await expect(
+        lendingPlatform.connect(addr1).depositCollateralToken(myToken, 1)
+      ).to.revertedWith("Unsupported collateral asset");
+      await expect(
+        lendingPlatform.connect(addr1).depositCollateralToken(assetA, 0)
+      ).to.revertedWith("Must deposit a positive amount");
+    });
+
+    it("Should compute the borrowing capacity across the basket", async function () {
+      const { myToken, lendingPlatform, addr1, assetA, assetB } =
+        await loadFixture(collateralTokenFixture);
+      // 150 assetA are worth 300 tokens and cover 200 at 150%, 200 assetB
+      // are worth 100 tokens and cover 50 at 200%, and 0.03 ETH is worth
+      // 60 tokens and covers 40 at 150%
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetA, await convertTokenAmount(150, assetA));
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetB, await convertTokenAmount(200, assetB));
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateral({ value: hre.ethers.parseEther("0.03") });
+
+      expect(
+        await lendingPlatform.getBorrowingCapacity(addr1.address)
+      ).to.equal(await convertTokenAmount(290, myToken));
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(291, myToken))
+      ).to.revertedWith("Not enough collateral");
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .borrow(await convertTokenAmount(290, myToken))
+      ).to.emit(lendingPlatform, "LoanInitiated");
+    });
+
+    it("Should lock the ERC-20 collateral securing a loan", async function () {
+      const { myToken, lendingPlatform, addr1, assetA, assetB } =
+        await loadFixture(collateralTokenFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetA, await convertTokenAmount(150, assetA));
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(200, myToken));
+
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateralToken(assetA, hre.ethers.parseEther("1"))
+      ).to.revertedWith("Collateral locked due to borrowed tokens");
+
+      // 200 assetB cover 50 tokens, so 37.5 assetA are no longer needed, less
+      // what secures the interest accrued since
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetB, await convertTokenAmount(200, assetB));
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateralToken(assetA, hre.ethers.parseEther("37.5"))
+      ).to.revertedWith("Collateral locked due to borrowed tokens");
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateralToken(assetA, hre.ethers.parseEther("37.4"))
+      ).to.emit(lendingPlatform, "CollateralTokenWithdrawn");
+    });
+
+    it("Should release every collateral asset on repayment", async function () {
+      const { myToken, lendingPlatform, addr1, assetA, assetB } =
+        await loadFixture(collateralTokenFixture);
+      const amountA = await convertTokenAmount(100, assetA);
+      const amountB = await convertTokenAmount(100, assetB);
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetA, amountA);
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetB, amountB);
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+
+      const tx = lendingPlatform.connect(addr1).repay();
+
+      await expect(tx)
+        .to.emit(lendingPlatform, "CollateralTokenWithdrawn")
+        .withArgs(addr1.address, await assetA.getAddress(), amountA)
+        .and.to.emit(lendingPlatform, "CollateralTokenWithdrawn")
+        .withArgs(addr1.address, await assetB.getAddress(), amountB);
+      await expect(tx).to.changeTokenBalance(assetA, addr1, amountA);
+      await expect(tx).to.changeTokenBalance(assetB, addr1, amountB);
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, assetA)
+      ).to.equal(0);
+    });
+
+    it("Should liquidate a chosen ERC-20 collateral asset", async function () {
+      const { myToken, lendingPlatform, addr1, addr2, assetA, oracleA } =
+        await loadFixture(collateralTokenFixture);
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateralToken(assetA, await convertTokenAmount(150, assetA));
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(200, myToken));
+      await myToken.transfer(
+        addr2.address,
+        await convertTokenAmount(100, myToken)
+      );
+
+      // 150 assetA at 1.5 tokens are worth 225, below 120% of the debt
+      await oracleA.setPrice(hre.ethers.parseEther("1.5"));
+      expect(await lendingPlatform.isLiquidatable(addr1.address)).to.equal(
+        true
+      );
+      await expect(
+        lendingPlatform
+          .connect(addr2)
+          .liquidateCollateralToken(addr1.address, myToken, 1)
+      ).to.revertedWith("Unsupported collateral asset");
+
+      // 60 tokens repaid buy 40 assetA plus the 5% bonus
+      const repaid = await convertTokenAmount(60, myToken);
+      const seized = hre.ethers.parseEther("42");
+      const tx = lendingPlatform
+        .connect(addr2)
+        .liquidateCollateralToken(addr1.address, assetA, repaid);
+
+      await expect(tx)
+        .to.emit(lendingPlatform, "Liquidated")
+        .withArgs(
+          addr1.address,
+          addr2.address,
+          await assetA.getAddress(),
+          repaid,
+          seized,
+          0,
+          (debt: bigint) => debt > 0n
+        );
+      await expect(tx).to.changeTokenBalances(
+        assetA,
+        [addr2, lendingPlatform],
+        [seized, -seized]
+      );
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, assetA)
+      ).to.equal(hre.ethers.parseEther("108"));
+    });
+  });
+
+  describe("Admin controls", function () {
+    // Queues the ratios and waits out the timelock
+    async function queueRatios(
+      lendingPlatform: LendingPlatformWithCollateral,
+      collateralizationRatio: number,
+      liquidationRatio: number
+    ) {
+      const setRatios = lendingPlatform.interface.encodeFunctionData(
+        "setRatios",
+        [collateralizationRatio, liquidationRatio]
+      );
+      await lendingPlatform.queueChange(setRatios);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      return setRatios;
+    }
+
+    it("Should change the ratios through the timelock", async function () {
+      const { myToken, priceOracle, lendingPlatform } = await loadFixture(
+        deployTokenFixture
+      );
+      const setRatios = await queueRatios(lendingPlatform, 200, 130);
+      // Refresh the price after waiting out the timelock
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+
+      await expect(lendingPlatform.executeChange(setRatios))
+        .to.emit(lendingPlatform, "RatiosUpdated")
+        .withArgs(200, 130);
+
+      expect(await lendingPlatform.collateralizationRatio()).to.equal(200);
+      expect(await lendingPlatform.liquidationRatio()).to.equal(130);
+      // 100 tokens at 2000 tokens per ETH and 200%
+      expect(
+        await lendingPlatform.requiredCollateralForBorrowing(
+          await convertTokenAmount(100, myToken)
+        )
+      ).to.equal(hre.ethers.parseEther("0.1"));
+    });
+
+    it("Should reject ratios outside the sanity bounds", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+
+      await expect(lendingPlatform.setRatios(200, 130)).to.revertedWith(
+        "Only through the timelock"
+      );
+      await expect(
+        lendingPlatform.executeChange(
+          await queueRatios(lendingPlatform, 120, 120)
+        )
+      ).to.revertedWith(
+        "Liquidation ratio must be below collateralization ratio"
+      );
+      await expect(
+        lendingPlatform.executeChange(
+          await queueRatios(lendingPlatform, 1100, 130)
+        )
+      ).to.revertedWith("Collateralization ratio too high");
+      // Liquidating with the 5% bonus at 105% would seize all the collateral
+      await expect(
+        lendingPlatform.executeChange(
+          await queueRatios(lendingPlatform, 150, 105)
+        )
+      ).to.revertedWith("Liquidation ratio too low");
+      expect(await lendingPlatform.collateralizationRatio()).to.equal(150);
+      expect(await lendingPlatform.liquidationRatio()).to.equal(110);
+    });
+
+    it("Should allow collateral withdrawals and liquidations while paused", async function () {
+      const { myToken, priceOracle, lendingPlatform, owner, addr1 } =
+        await loadFixture(deployTokenFixture);
+      const lpAddress = await lendingPlatform.getAddress();
+      await myToken.approve(lpAddress, hre.ethers.MaxUint256);
+      await lendingPlatform.lend(await convertTokenAmount(500, myToken));
+      await setBalance(addr1.address, hre.ethers.parseEther("2"));
+      await lendingPlatform.connect(addr1).depositCollateral({
+        value: hre.ethers.parseEther("0.1"),
+      });
+      await lendingPlatform
+        .connect(addr1)
+        .borrow(await convertTokenAmount(100, myToken));
+
+      await lendingPlatform.pause();
+
+      // 0.075 ETH stays locked for the 100 tokens borrowed
+      await expect(
+        lendingPlatform
+          .connect(addr1)
+          .withdrawCollateral(hre.ethers.parseEther("0.02"))
+      )
+        .to.emit(lendingPlatform, "CollateralWithdrawn")
+        .withArgs(addr1.address, hre.ethers.parseEther("0.02"));
+
+      // 0.08 ETH * 1300 = 104 tokens is below 110% of the debt
+      await priceOracle.setPrice(hre.ethers.parseEther("1300"));
+      await expect(
+        lendingPlatform
+          .connect(owner)
+          .liquidate(addr1.address, await convertTokenAmount(10, myToken))
+      ).to.emit(lendingPlatform, "Liquidated");
+    });
+  });
 });
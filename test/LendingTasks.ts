@@ -0,0 +1,501 @@
+import hre from "hardhat";
+import {
+  loadFixture,
+  time,
+  setBalance,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { MyToken, MockPriceOracle } from "../typechain-types";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+
+describe("Lending tasks", function () {
+  async function deployTokenFixture() {
+    const tokensToMint = 1000;
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+
+    const addresses = {
+      platform: await lendingPlatform.getAddress(),
+      token: await myToken.getAddress(),
+    };
+
+    return {
+      myToken,
+      priceOracle,
+      lendingPlatform,
+      owner,
+      addr1,
+      addr2,
+      addresses,
+    };
+  }
+
+  // Runs a task and returns everything it printed
+  async function runTask(name: string, args: Record<string, unknown>) {
+    const lines: string[] = [];
+    const log = console.log;
+    console.log = (...values: unknown[]) => lines.push(values.join(" "));
+    try {
+      await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+    return lines.join("\n");
+  }
+
+  describe("Transactions", function () {
+    it("Should lend human-readable token amounts", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+
+      const output = await runTask("lend", { ...addresses, amount: "100.5" });
+
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        hre.ethers.parseEther("100.5")
+      );
+      expect(output).to.contain("TokensDeposited(");
+    });
+
+    it("Should withdraw and redeem lent tokens", async function () {
+      const { lendingPlatform, owner, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      await runTask("lend", { ...addresses, amount: "100" });
+
+      const output = await runTask("withdraw", { ...addresses, amount: "40" });
+      expect(output).to.contain("TokensWithdrawn(");
+      expect(await lendingPlatform.getTokenBalance()).to.equal(
+        hre.ethers.parseEther("60")
+      );
+
+      await runTask("redeem", addresses);
+      expect(await lendingPlatform.balanceOf(owner.address)).to.equal(0);
+      expect(await lendingPlatform.getTokenBalance()).to.equal(0);
+    });
+
+    it("Should mint whole tokens to an account", async function () {
+      const { myToken, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+
+      await runTask("mint", { ...addresses, to: addr1.address, amount: 25 });
+
+      expect(await myToken.balanceOf(addr1.address)).to.equal(
+        hre.ethers.parseEther("25")
+      );
+    });
+
+    it("Should borrow against collateral with the selected signer", async function () {
+      const { myToken, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      await runTask("lend", { ...addresses, amount: "100" });
+
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: addr1.address,
+        amount: "1",
+      });
+      const output = await runTask("borrow", {
+        ...addresses,
+        signer: "1",
+        amount: "50",
+      });
+
+      expect(output).to.contain("LoanInitiated(");
+      expect(await myToken.balanceOf(addr1.address)).to.equal(
+        hre.ethers.parseEther("50")
+      );
+    });
+
+    it("Should approve the amount owed and repay with interest", async function () {
+      const { myToken, lendingPlatform, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "50" });
+      await time.increase(time.duration.days(180));
+      await myToken.transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const output = await runTask("repay", { ...addresses, signer: "1" });
+
+      expect(output).to.contain("LoanRepaid(");
+      expect(await lendingPlatform.getTokenBalance()).to.be.greaterThan(
+        hre.ethers.parseEther("100")
+      );
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+    });
+
+    it("Should lend and repay with permits", async function () {
+      const { myToken, lendingPlatform, owner, addr1, addresses } =
+        await loadFixture(deployTokenFixture);
+      await runTask("lend", { ...addresses, amount: "100", permit: true });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "50" });
+      await time.increase(time.duration.days(30));
+      await myToken.transfer(addr1.address, hre.ethers.parseEther("10"));
+
+      const output = await runTask("repay", {
+        ...addresses,
+        signer: "1",
+        permit: true,
+      });
+
+      expect(output).to.contain("LoanRepaid(");
+      expect(await myToken.nonces(owner.address)).to.equal(1);
+      expect(await myToken.nonces(addr1.address)).to.equal(1);
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(0);
+    });
+
+    it("Should repay part of a loan", async function () {
+      const { lendingPlatform, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "50" });
+
+      const output = await runTask("repay", {
+        ...addresses,
+        signer: "1",
+        amount: "20",
+      });
+
+      expect(output).to.contain("LoanRepaid(");
+      expect(output).to.contain("closed=false");
+      expect(
+        await lendingPlatform.collateralEther(addr1.address)
+      ).to.be.lessThan(hre.ethers.parseEther("1"));
+      const position = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+      expect(position).to.match(/Loan 0:\s+30\.0/);
+    });
+
+    it("Should repay one of several loans", async function () {
+      const { myToken, priceOracle, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "20" });
+      await runTask("borrow", {
+        ...addresses,
+        signer: "1",
+        amount: "30",
+        term: 30,
+      });
+      await time.increase(time.duration.days(10));
+      await myToken.transfer(addr1.address, hre.ethers.parseEther("10"));
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+
+      const output = await runTask("repay", {
+        ...addresses,
+        signer: "1",
+        loan: 1,
+      });
+
+      expect(output).to.contain("loanId=1");
+      expect(output).to.contain("closed=true");
+      const position = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+      expect(position).to.match(/Loan 0:\s+20\.0/);
+      expect(position).not.to.contain("Loan 1:");
+    });
+
+    it("Should approve and liquidate part of a debt", async function () {
+      const { priceOracle, lendingPlatform, addr1, addresses } =
+        await loadFixture(deployTokenFixture);
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "0.04",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "50" });
+      // 0.04 ETH * 1200 = 48 tokens < 110% of the debt
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+
+      const output = await runTask("liquidate", {
+        ...addresses,
+        user: addr1.address,
+        amount: "10",
+      });
+
+      expect(output).to.contain("Liquidated(");
+      // 10 tokens / 1200 * 105%
+      const seized =
+        (((hre.ethers.parseEther("10") * hre.ethers.parseEther("1")) /
+          hre.ethers.parseEther("1200")) *
+          105n) /
+        100n;
+      expect(await lendingPlatform.collateralEther(addr1.address)).to.equal(
+        hre.ethers.parseEther("0.04") - seized
+      );
+      const position = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+      expect(position).to.match(/Loan 0:\s+40\.0/);
+    });
+  });
+
+  describe("Views", function () {
+    it("Should report the pool status", async function () {
+      const { addresses } = await loadFixture(deployTokenFixture);
+      await runTask("lend", { ...addresses, amount: "100" });
+
+      const output = await runTask("pool-status", addresses);
+
+      expect(output).to.match(/Token balance:\s+100\.0/);
+      expect(output).to.match(/Interest rate:\s+5\.0%/);
+      expect(output).to.match(/Utilization:\s+0\.0%/);
+      expect(output).to.match(/Collateralization ratio:\s+150%/);
+      expect(output).to.match(/Liquidation ratio:\s+110%/);
+      expect(output).to.match(/Close factor:\s+50%/);
+      expect(output).to.match(/Liquidation bonus:\s+5%/);
+      expect(output).to.match(/Flash loan fee:\s+0\.09%/);
+      expect(output).to.match(/ETH price:\s+2000\.0 tokens/);
+      expect(output).to.match(/Loan terms:\s+30, 90, 180 days/);
+      expect(output).to.match(
+        /Late payments:\s+7 days grace, 10\.0% penalty, default after 30 days/
+      );
+    });
+
+    it("Should report an open position", async function () {
+      const { addr1, addresses } = await loadFixture(deployTokenFixture);
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", { ...addresses, signer: "1", amount: "50" });
+
+      const output = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+
+      expect(output).to.match(/Collateral:\s+1\.0 ETH/);
+      expect(output).to.match(/Loan 0:\s+50\.0 tokens/);
+      expect(output).to.match(/Required collateral:\s+0\.0375 ETH/);
+    });
+
+    it("Should borrow for a term and report the due date", async function () {
+      const { priceOracle, lendingPlatform, addr1, addresses } =
+        await loadFixture(deployTokenFixture);
+      await runTask("lend", { ...addresses, amount: "100" });
+      await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        amount: "1",
+      });
+      await runTask("borrow", {
+        ...addresses,
+        signer: "1",
+        amount: "50",
+        term: 30,
+      });
+
+      const { dueDate } = await lendingPlatform.getLoan(addr1.address, 1);
+      await time.increaseTo(dueDate + 1n);
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      const output = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+
+      const due = new Date(Number(dueDate) * 1000).toISOString();
+      expect(output).to.match(new RegExp(`Due 1:\\s+${due}`));
+      expect(output).to.match(/Loan state:\s+late/);
+    });
+  });
+
+  describe("Admin", function () {
+    it("Should pause and unpause the platform", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+
+      const output = await runTask("pause", addresses);
+      expect(output).to.contain("Paused(");
+      expect(await lendingPlatform.paused()).to.equal(true);
+      expect(await runTask("pool-status", addresses)).to.match(/Paused:\s+yes/);
+
+      await runTask("unpause", addresses);
+      expect(await lendingPlatform.paused()).to.equal(false);
+    });
+
+    it("Should queue and execute new ratios", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+
+      const output = await runTask("queue-ratios", {
+        ...addresses,
+        collateralization: "200",
+        liquidation: "130",
+      });
+      expect(output).to.contain("ChangeQueued(");
+      const [queued] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.ChangeQueued()
+      );
+      const { id } = queued.args;
+      expect(await runTask("queued-changes", addresses)).to.contain(
+        `${id}: setRatios(200, 130) executable at`
+      );
+
+      await time.increase(time.duration.days(2));
+      const executed = await runTask("execute-change", { ...addresses, id });
+
+      expect(executed).to.contain("RatiosUpdated(");
+      expect(await lendingPlatform.collateralizationRatio()).to.equal(200);
+      expect(await lendingPlatform.liquidationRatio()).to.equal(130);
+      expect(await runTask("queued-changes", addresses)).to.equal(
+        "No queued changes"
+      );
+    });
+
+    it("Should queue a new flash loan fee", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+
+      await runTask("queue-flash-loan-fee", { ...addresses, fee: "25" });
+
+      expect(await runTask("queued-changes", addresses)).to.contain(
+        "setFlashLoanFee(25) executable at"
+      );
+      await time.increase(time.duration.days(2));
+      const [queued] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.ChangeQueued()
+      );
+      await runTask("execute-change", { ...addresses, id: queued.args.id });
+      expect(await lendingPlatform.flashLoanFee()).to.equal(25);
+    });
+
+    it("Should queue and cancel a new rate model", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      const rateModel = await lendingPlatform.getRateModel();
+
+      await runTask("queue-rate-model", {
+        ...addresses,
+        model: hre.ethers.Wallet.createRandom().address,
+      });
+      const [queued] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.ChangeQueued()
+      );
+      const { id } = queued.args;
+
+      const output = await runTask("cancel-change", { ...addresses, id });
+      expect(output).to.contain("ChangeCancelled(");
+      expect(await lendingPlatform.queuedChanges(id)).to.equal(0);
+      expect(await lendingPlatform.getRateModel()).to.equal(rateModel);
+    });
+  });
+
+  describe("ERC-20 collateral", function () {
+    it("Should list, deposit and report a collateral token", async function () {
+      const { lendingPlatform, addr1, addresses } = await loadFixture(
+        deployTokenFixture
+      );
+      const myTokenFactory = await hre.ethers.getContractFactory("MyToken");
+      const MockPriceOracleFactory = await hre.ethers.getContractFactory(
+        "MockPriceOracle"
+      );
+      const asset: MyToken = await myTokenFactory.deploy(100);
+      const oracle = await MockPriceOracleFactory.deploy(
+        hre.ethers.parseEther("2")
+      );
+      await asset.transfer(addr1.address, hre.ethers.parseEther("100"));
+      const assetAddress = await asset.getAddress();
+
+      await runTask("queue-collateral-asset", {
+        ...addresses,
+        asset: assetAddress,
+        collateralization: "150",
+        liquidation: "120",
+        oracle: await oracle.getAddress(),
+      });
+      const [queued] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.ChangeQueued()
+      );
+      await time.increase(time.duration.days(2));
+      const executed = await runTask("execute-change", {
+        ...addresses,
+        id: queued.args.id,
+      });
+      expect(executed).to.contain("CollateralAssetUpdated(");
+      await oracle.setPrice(hre.ethers.parseEther("2"));
+
+      const output = await runTask("deposit-collateral", {
+        ...addresses,
+        signer: "1",
+        asset: assetAddress,
+        amount: "75",
+      });
+      expect(output).to.contain("CollateralTokenDeposited(");
+      expect(
+        await lendingPlatform.collateralTokens(addr1.address, asset)
+      ).to.equal(hre.ethers.parseEther("75"));
+
+      await runTask("withdraw-collateral", {
+        ...addresses,
+        signer: "1",
+        asset: assetAddress,
+        amount: "15",
+      });
+      // 60 tokens of collateral worth 120 cover 80 at 150%
+      const position = await runTask("position", {
+        ...addresses,
+        account: addr1.address,
+      });
+      expect(position).to.match(/Collateral:\s+60\.0 MTK/);
+      expect(position).to.match(/Borrowing capacity:\s+80\.0/);
+    });
+  });
+
+  describe("Price oracle", function () {
+    it("Should push a new price to the platform's oracle", async function () {
+      const { priceOracle, addresses } = await loadFixture(deployTokenFixture);
+
+      const output = await runTask("set-price", {
+        ...addresses,
+        price: "1850.5",
+      });
+
+      const [price] = await priceOracle.latestPrice();
+      expect(price).to.equal(hre.ethers.parseEther("1850.5"));
+      expect(output).to.contain("PriceUpdated(");
+    });
+  });
+});
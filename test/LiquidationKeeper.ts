@@ -0,0 +1,308 @@
+import hre from "hardhat";
+import {
+  loadFixture,
+  setBalance,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+import { KeeperLogEntry, KeeperOptions, LiquidationKeeper } from "../sdk";
+
+describe("LiquidationKeeper", function () {
+  async function deployTokenFixture() {
+    const tokensToMint = 1000;
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+
+    // addr1 borrows 100 tokens against 0.08 ETH and addr2 runs the keeper
+    await myToken.approve(lendingPlatform, hre.ethers.parseEther("800"));
+    await lendingPlatform.lend(hre.ethers.parseEther("800"));
+    await myToken.transfer(addr2.address, hre.ethers.parseEther("100"));
+    await lendingPlatform
+      .connect(addr1)
+      .depositCollateral({ value: hre.ethers.parseEther("0.08") });
+    await lendingPlatform.connect(addr1).borrow(hre.ethers.parseEther("100"));
+
+    return { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 };
+  }
+
+  // Creates a keeper run by addr2 that collects its log entries
+  async function createKeeper(options: KeeperOptions = {}) {
+    const fixture = await loadFixture(deployTokenFixture);
+    const logs: KeeperLogEntry[] = [];
+    const keeper = new LiquidationKeeper(
+      fixture.lendingPlatform,
+      fixture.myToken,
+      fixture.addr2,
+      {
+        ...options,
+        logger: (entry) => {
+          logs.push(entry);
+          options.logger?.(entry);
+        },
+      }
+    );
+    return { ...fixture, keeper, logs };
+  }
+
+  describe("Positions", function () {
+    it("Should rebuild positions from the platform logs", async function () {
+      const { myToken, lendingPlatform, addr1, keeper } = await createKeeper();
+      await myToken.transfer(addr1.address, hre.ethers.parseEther("30"));
+      await myToken
+        .connect(addr1)
+        .approve(lendingPlatform, hre.ethers.parseEther("30"));
+      await lendingPlatform
+        .connect(addr1)
+        .repayPartial(hre.ethers.parseEther("30"));
+      // The repayment releases collateral in proportion to the debt repaid
+      await lendingPlatform
+        .connect(addr1)
+        .depositCollateral({ value: hre.ethers.parseEther("0.01") });
+
+      await keeper.sync(await hre.ethers.provider.getBlockNumber());
+
+      const position = keeper.positions.get(addr1.address);
+      expect(position?.collateralEther).to.equal(
+        await lendingPlatform.collateralEther(addr1.address)
+      );
+      const repaid = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanUpdated(addr1.address)
+      );
+      const { principal, interest } = repaid[repaid.length - 1].args;
+      expect(position?.loans.get(0n)?.principal).to.equal(principal);
+      expect(position?.loans.get(0n)?.interest).to.equal(interest);
+      expect(principal + interest).to.be.lessThan(hre.ethers.parseEther("71"));
+    });
+
+    it("Should leave healthy positions alone", async function () {
+      const { lendingPlatform, keeper, logs } = await createKeeper();
+
+      expect(await keeper.runOnce()).to.deep.equal([]);
+      expect(logs).to.deep.include({
+        event: "block",
+        block: await hre.ethers.provider.getBlockNumber(),
+        positions: 1,
+        liquidatable: 0,
+      });
+      expect(
+        await lendingPlatform.queryFilter(lendingPlatform.filters.Liquidated())
+      ).to.be.empty;
+    });
+  });
+
+  describe("Liquidations", function () {
+    it("Should liquidate a position pushed under water", async function () {
+      const {
+        myToken,
+        priceOracle,
+        lendingPlatform,
+        addr1,
+        addr2,
+        keeper,
+        logs,
+      } = await createKeeper();
+
+      // 100 tokens / 1200 * 110% = 0.0917 ETH > 0.08 ETH deposited
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      const [candidate] = await keeper.runOnce();
+
+      expect(candidate.borrower).to.equal(addr1.address);
+      expect(candidate.collateralAsset).to.equal(hre.ethers.ZeroAddress);
+      expect(candidate.profit).to.be.greaterThan(0);
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated(addr1.address, addr2.address)
+      );
+      // Interest accrued for one more second by the time the liquidation is mined
+      expect(liquidated.args.repaidAmount).to.be.closeTo(
+        candidate.repayAmount,
+        hre.ethers.parseEther("0.001")
+      );
+      expect(liquidated.args.collateralSeized).to.be.closeTo(
+        candidate.collateralSeized,
+        hre.ethers.parseEther("0.000001")
+      );
+      expect(await myToken.balanceOf(addr2.address)).to.equal(
+        hre.ethers.parseEther("100") - liquidated.args.repaidAmount
+      );
+      expect(logs.map((entry) => entry.event)).to.deep.equal([
+        "block",
+        "liquidated",
+      ]);
+
+      // The seized collateral is applied to the position on the next sync
+      await keeper.sync(await hre.ethers.provider.getBlockNumber());
+      expect(keeper.positions.get(addr1.address)?.collateralEther).to.equal(
+        await lendingPlatform.collateralEther(addr1.address)
+      );
+    });
+
+    it("Should liquidate a defaulted loan however well it is collateralized", async function () {
+      const { priceOracle, lendingPlatform, addr2, keeper } =
+        await createKeeper();
+      const [, , , addr3] = await hre.ethers.getSigners();
+
+      // addr3 borrows 10 tokens open-ended and 50 tokens for 30 days against
+      // 0.5 ETH, worth 1000 tokens
+      await setBalance(addr3.address, hre.ethers.parseEther("2"));
+      await lendingPlatform
+        .connect(addr3)
+        .depositCollateral({ value: hre.ethers.parseEther("0.5") });
+      await lendingPlatform.connect(addr3).borrow(hre.ethers.parseEther("10"));
+      await lendingPlatform
+        .connect(addr3)
+        .borrowWithTerm(hre.ethers.parseEther("50"), time.duration.days(30));
+      await keeper.sync(await hre.ethers.provider.getBlockNumber());
+      const loans = keeper.positions.get(addr3.address)?.loans;
+      expect(loans?.get(0n)?.dueDate).to.equal(0);
+      expect(loans?.get(1n)?.dueDate).to.equal(
+        (await lendingPlatform.getLoan(addr3.address, 1)).dueDate
+      );
+
+      // Past the 30 days of the default period, with a fresh price
+      await time.increase(time.duration.days(61));
+      await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+      expect(await lendingPlatform.isLiquidatable(addr3.address)).to.equal(
+        true
+      );
+      const owed = await lendingPlatform.getAmountOwed(addr3.address);
+      const candidates = await keeper.runOnce();
+
+      // The open-ended loan of addr1 is still healthy
+      expect(candidates).to.have.length(1);
+      const [candidate] = candidates;
+      expect(candidate.borrower).to.equal(addr3.address);
+      expect(candidate.state).to.equal("defaulted");
+      // The debt of both loans includes the penalty, and a position with a
+      // defaulted loan is repaid in full
+      expect(candidate.debt).to.equal(owed);
+      expect(candidate.repayAmount).to.equal(candidate.debt);
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated(addr3.address, addr2.address)
+      );
+      // Only the interest accrued until the liquidation was mined is left
+      expect(liquidated.args.remainingDebt).to.be.closeTo(
+        0,
+        hre.ethers.parseEther("0.000001")
+      );
+    });
+
+    it("Should only log liquidations in dry-run mode", async function () {
+      const { priceOracle, lendingPlatform, addr2, keeper, logs } =
+        await createKeeper({ dryRun: true });
+
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      const [candidate] = await keeper.runOnce();
+
+      expect(logs[1]).to.include({
+        event: "dry-run",
+        borrower: candidate.borrower,
+        repayAmount: candidate.repayAmount,
+        profit: candidate.profit,
+      });
+      expect(
+        await lendingPlatform.queryFilter(lendingPlatform.filters.Liquidated())
+      ).to.be.empty;
+      expect(
+        await lendingPlatform.allowance(addr2.address, lendingPlatform)
+      ).to.equal(0);
+    });
+
+    it("Should skip liquidations below the profit threshold", async function () {
+      const { priceOracle, lendingPlatform, keeper, logs } = await createKeeper(
+        // The 5% bonus on half the debt is worth about 2.5 tokens
+        { minProfit: hre.ethers.parseEther("3") }
+      );
+
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+      await keeper.runOnce();
+
+      expect(logs[1]).to.include({
+        event: "skipped",
+        reason: "below profit threshold",
+      });
+      expect(
+        await lendingPlatform.queryFilter(lendingPlatform.filters.Liquidated())
+      ).to.be.empty;
+    });
+
+    it("Should liquidate on new blocks once started", async function () {
+      let timeout: NodeJS.Timeout | undefined;
+      let onLiquidated = () => {};
+      const liquidated = new Promise<void>((resolve, reject) => {
+        onLiquidated = resolve;
+        timeout = setTimeout(
+          () => reject(new Error("No liquidation within 10 seconds")),
+          10000
+        );
+      });
+      const { keeper, priceOracle, lendingPlatform, logs } = await createKeeper(
+        {
+          logger: (entry) => {
+            if (entry.event === "liquidated") {
+              onLiquidated();
+            }
+          },
+        }
+      );
+
+      const stop = await keeper.start();
+      // 100 tokens / 1360 * 110% = 0.0809 ETH > 0.08 ETH deposited. Repaying
+      // half the debt makes the position healthy again, so the blocks mined
+      // since cannot liquidate it a second time.
+      await priceOracle.setPrice(hre.ethers.parseEther("1360"));
+      try {
+        await liquidated;
+      } finally {
+        clearTimeout(timeout);
+        await stop();
+      }
+
+      expect(
+        await lendingPlatform.queryFilter(lendingPlatform.filters.Liquidated())
+      ).to.have.length(1);
+      expect(logs[logs.length - 1]).to.deep.equal({ event: "stopped" });
+    });
+  });
+
+  describe("Task", function () {
+    it("Should liquidate through the keeper task", async function () {
+      const { myToken, priceOracle, lendingPlatform } = await loadFixture(
+        deployTokenFixture
+      );
+      await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await hre.run("keeper", {
+          platform: await lendingPlatform.getAddress(),
+          token: await myToken.getAddress(),
+          signer: "2",
+          once: true,
+        });
+      } finally {
+        console.log = log;
+      }
+
+      const entries = lines.map((line) => JSON.parse(line));
+      expect(entries.map((entry) => entry.event)).to.deep.equal([
+        "block",
+        "liquidated",
+      ]);
+      // Amounts are logged as strings of base units
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated()
+      );
+      expect(entries[1].repaidAmount).to.equal(
+        liquidated.args.repaidAmount.toString()
+      );
+    });
+  });
+});
@@ -0,0 +1,405 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import {
+  loadFixture,
+  takeSnapshot,
+  time,
+  setBalance,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { LendingPlatformWithCollateral } from "../typechain-types";
+import { deployLendingPlatformWithCollateral, deployMarket } from "./fixtures";
+import {
+  JsonFileStore,
+  LoanIndexer,
+  MemoryStore,
+  accountStatement,
+  poolSummary,
+  toCsv,
+} from "../sdk";
+
+describe("LoanIndexer", function () {
+  async function deployTokenFixture() {
+    const tokensToMint = 1000;
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+
+    const market = await deployMarket(tokensToMint);
+    const { myToken, priceOracle } = market;
+    const lendingPlatform = await deployLendingPlatformWithCollateral(market);
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+
+    // The owner lends 800 tokens and keeps 100 to liquidate with
+    await myToken.approve(lendingPlatform, hre.ethers.MaxUint256);
+    await lendingPlatform.lend(hre.ethers.parseEther("800"));
+    await myToken.transfer(addr1.address, hre.ethers.parseEther("50"));
+    await myToken
+      .connect(addr1)
+      .approve(lendingPlatform, hre.ethers.MaxUint256);
+
+    return { myToken, priceOracle, lendingPlatform, owner, addr1, addr2 };
+  }
+
+  // addr1 borrows 100 tokens for 30 days, repays, then borrows 50 more
+  async function repaidLoanFixture() {
+    const fixture = await deployTokenFixture();
+    const { priceOracle, lendingPlatform, addr1 } = fixture;
+
+    const platform = lendingPlatform.connect(addr1);
+    await platform.depositCollateral({ value: hre.ethers.parseEther("0.1") });
+    await platform.borrow(hre.ethers.parseEther("100"));
+    await time.increase(time.duration.days(30));
+    await priceOracle.setPrice(hre.ethers.parseEther("2000"));
+    await platform.repay();
+    await platform.depositCollateral({ value: hre.ethers.parseEther("0.1") });
+    await platform.borrow(hre.ethers.parseEther("50"));
+
+    return fixture;
+  }
+
+  // addr2 borrows 100 tokens and is liquidated by the owner after 30 days
+  async function liquidatedLoanFixture() {
+    const fixture = await deployTokenFixture();
+    const { priceOracle, lendingPlatform, addr2 } = fixture;
+
+    const platform = lendingPlatform.connect(addr2);
+    await platform.depositCollateral({ value: hre.ethers.parseEther("0.08") });
+    await platform.borrow(hre.ethers.parseEther("100"));
+    await time.increase(time.duration.days(30));
+    // 100 tokens / 1200 * 110% = 0.0917 ETH > 0.08 ETH deposited
+    await priceOracle.setPrice(hre.ethers.parseEther("1200"));
+    await lendingPlatform.liquidate(
+      addr2.address,
+      hre.ethers.parseEther("100")
+    );
+
+    return fixture;
+  }
+
+  // addr2 borrows 60 tokens for addr1 as its delegate, and the owner repays
+  // the loan of addr1 after 30 days
+  async function delegatedLoanFixture() {
+    const fixture = await deployTokenFixture();
+    const { lendingPlatform, addr1, addr2 } = fixture;
+
+    const platform = lendingPlatform.connect(addr1);
+    await platform.depositCollateral({ value: hre.ethers.parseEther("0.1") });
+    await platform.approveDelegation(
+      addr2.address,
+      hre.ethers.parseEther("60")
+    );
+    await lendingPlatform
+      .connect(addr2)
+      .borrowFor(addr1.address, hre.ethers.parseEther("60"));
+    await time.increase(time.duration.days(30));
+    await lendingPlatform.repayFor(addr1.address);
+
+    return fixture;
+  }
+
+  describe("Loan history", function () {
+    it("Should rebuild the lifecycle of repaid loans", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(repaidLoanFixture);
+      const indexer = new LoanIndexer(lendingPlatform, new MemoryStore());
+
+      await indexer.index();
+      const statement = accountStatement(
+        await indexer.history(),
+        addr1.address
+      );
+
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      const [first, second] = statement.loans;
+      expect(first).to.include({
+        borrower: addr1.address,
+        status: "repaid",
+        borrowed: hre.ethers.parseEther("100"),
+        repaid: repaid.args.amount,
+        interestPaid: repaid.args.interestPaid,
+        principal: 0n,
+        closedBlock: repaid.blockNumber,
+      });
+      expect(repaid.args.interestPaid).to.be.greaterThan(0);
+      expect(second).to.include({
+        status: "active",
+        borrowed: hre.ethers.parseEther("50"),
+        principal: hre.ethers.parseEther("50"),
+      });
+      expect(statement).to.include({
+        borrowed: hre.ethers.parseEther("150"),
+        repaid: repaid.args.amount,
+        interestPaid: repaid.args.interestPaid,
+        collateralDeposited: hre.ethers.parseEther("0.2"),
+        // All the collateral of the first loan was released on repay
+        collateralWithdrawn: hre.ethers.parseEther("0.1"),
+      });
+      expect(statement.entries.map((entry) => entry.event)).to.deep.equal([
+        "CollateralDeposited",
+        "LoanInitiated",
+        "LoanRepaid",
+        "CollateralWithdrawn",
+        "CollateralDeposited",
+        "LoanInitiated",
+      ]);
+    });
+
+    it("Should split liquidations into interest and principal", async function () {
+      const { lendingPlatform, owner, addr2 } = await loadFixture(
+        liquidatedLoanFixture
+      );
+      const indexer = new LoanIndexer(lendingPlatform, new MemoryStore());
+
+      await indexer.index();
+      const statement = accountStatement(
+        await indexer.history(),
+        addr2.address
+      );
+
+      const [liquidated] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.Liquidated(addr2.address)
+      );
+      const { repaidAmount, remainingDebt, collateralSeized } = liquidated.args;
+      // The debt before the liquidation was the principal plus the interest
+      const interest =
+        repaidAmount + remainingDebt - hre.ethers.parseEther("100");
+      const [loan] = statement.loans;
+      expect(loan).to.include({
+        status: "active",
+        liquidated: repaidAmount,
+        interestPaid: interest,
+        principal: hre.ethers.parseEther("100") - (repaidAmount - interest),
+      });
+      expect(interest).to.be.greaterThan(0);
+      expect(statement.collateralSeized).to.equal(collateralSeized);
+      expect(statement.entries[statement.entries.length - 1]).to.include({
+        event: "Liquidated",
+        counterparty: owner.address,
+        interestPaid: interest,
+      });
+    });
+
+    it("Should record delegated borrows and repayments for others", async function () {
+      const { lendingPlatform, owner, addr1, addr2 } = await loadFixture(
+        delegatedLoanFixture
+      );
+      const indexer = new LoanIndexer(lendingPlatform, new MemoryStore());
+
+      await indexer.index();
+      const history = await indexer.history();
+      const borrower = accountStatement(history, addr1.address);
+      const delegate = accountStatement(history, addr2.address);
+      const payer = accountStatement(history, owner.address);
+
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid(addr1.address)
+      );
+      const [loan] = borrower.loans;
+      expect(loan).to.include({
+        status: "repaid",
+        borrowed: hre.ethers.parseEther("60"),
+        borrowedByDelegates: hre.ethers.parseEther("60"),
+        repaid: repaid.args.amount,
+        repaidByOthers: repaid.args.amount,
+      });
+      expect(borrower).to.include({
+        borrowed: hre.ethers.parseEther("60"),
+        repaid: repaid.args.amount,
+        borrowedForOthers: 0n,
+        repaidForOthers: 0n,
+      });
+      expect(
+        borrower.entries
+          .filter((entry) => entry.event !== "CollateralDeposited")
+          .map((entry) => [entry.event, entry.counterparty])
+      ).to.deep.equal([
+        ["LoanInitiated", addr2.address],
+        ["LoanRepaid", owner.address],
+        ["CollateralWithdrawn", hre.ethers.ZeroAddress],
+      ]);
+
+      expect(delegate).to.include({
+        borrowed: 0n,
+        borrowedForOthers: hre.ethers.parseEther("60"),
+        repaidForOthers: 0n,
+      });
+      expect(delegate.loans).to.be.empty;
+      expect(delegate.entries).to.have.length(1);
+      expect(delegate.entries[0]).to.include({
+        event: "DelegatedBorrow",
+        counterparty: addr1.address,
+      });
+
+      expect(payer).to.include({
+        repaid: 0n,
+        repaidForOthers: repaid.args.amount,
+      });
+      expect(payer.entries[payer.entries.length - 1]).to.include({
+        event: "RepaidFor",
+        amount: repaid.args.amount,
+        counterparty: addr1.address,
+      });
+      expect(poolSummary(history)).to.include({
+        borrowers: 1,
+        borrowed: hre.ethers.parseEther("60"),
+        repaid: repaid.args.amount,
+      });
+    });
+
+    it("Should summarize the pool", async function () {
+      const { lendingPlatform } = await loadFixture(repaidLoanFixture);
+      const indexer = new LoanIndexer(lendingPlatform, new MemoryStore());
+
+      await indexer.index();
+      const summary = poolSummary(await indexer.history());
+
+      const [repaid] = await lendingPlatform.queryFilter(
+        lendingPlatform.filters.LoanRepaid()
+      );
+      expect(summary).to.include({
+        lenders: 1,
+        borrowers: 1,
+        deposited: hre.ethers.parseEther("800"),
+        borrowed: hre.ethers.parseEther("150"),
+        repaid: repaid.args.amount,
+        interestPaid: repaid.args.interestPaid,
+        loansOpened: 2,
+        loansClosed: 1,
+        activeLoans: 1,
+        outstandingPrincipal: hre.ethers.parseEther("50"),
+        toBlock: await hre.ethers.provider.getBlockNumber(),
+      });
+    });
+  });
+
+  describe("Indexing", function () {
+    it("Should resume from the last indexed block", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const file = path.join(
+        fs.mkdtempSync(path.join(os.tmpdir(), "indexer-")),
+        "index.json"
+      );
+
+      const first = await new LoanIndexer(
+        lendingPlatform,
+        new JsonFileStore(file)
+      ).index();
+      await lendingPlatform.lend(hre.ethers.parseEther("10"));
+      const second = await new LoanIndexer(
+        lendingPlatform,
+        new JsonFileStore(file)
+      ).index();
+
+      expect(second.fromBlock).to.equal(first.toBlock + 1);
+      // lend emits Transfer and Deposit for the shares, then TokensDeposited
+      expect(second).to.include({ added: 3, removed: 0 });
+      const summary = poolSummary(
+        await new LoanIndexer(
+          lendingPlatform,
+          new JsonFileStore(file)
+        ).history()
+      );
+      expect(summary.deposited).to.equal(hre.ethers.parseEther("810"));
+    });
+
+    it("Should drop the events of reorged blocks", async function () {
+      const { lendingPlatform } = await loadFixture(deployTokenFixture);
+      const indexer = new LoanIndexer(lendingPlatform, new MemoryStore());
+      await indexer.index();
+
+      // Reverting to a snapshot replaces the blocks mined since
+      const snapshot = await takeSnapshot();
+      await lendingPlatform.lend(hre.ethers.parseEther("10"));
+      await indexer.index();
+      await snapshot.restore();
+      await lendingPlatform.lend(hre.ethers.parseEther("20"));
+
+      const result = await indexer.index();
+      expect(result).to.include({ added: 3, removed: 3 });
+      expect(poolSummary(await indexer.history()).deposited).to.equal(
+        hre.ethers.parseEther("820")
+      );
+    });
+
+    it("Should reject a store of another platform", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(
+        deployTokenFixture
+      );
+      const store = new MemoryStore();
+      await new LoanIndexer(lendingPlatform, store).index();
+
+      const other = lendingPlatform.attach(
+        await myToken.getAddress()
+      ) as LendingPlatformWithCollateral;
+      await expect(new LoanIndexer(other, store).index()).to.be.rejectedWith(
+        "The store indexes"
+      );
+    });
+  });
+
+  describe("Export", function () {
+    // Runs a task and returns everything it printed
+    async function runTask(name: string, args: Record<string, unknown>) {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await hre.run(name, args);
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    async function taskArgs() {
+      const { myToken, lendingPlatform } = await loadFixture(repaidLoanFixture);
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "indexer-"));
+      return {
+        platform: await lendingPlatform.getAddress(),
+        token: await myToken.getAddress(),
+        store: path.join(dir, "index.json"),
+      };
+    }
+
+    it("Should export a statement as CSV", async function () {
+      const args = await taskArgs();
+
+      const output = await runTask("export-statement", {
+        ...args,
+        signer: "1",
+        format: "csv",
+      });
+
+      const [header, ...rows] = output.split("\n");
+      expect(header).to.equal(
+        "blockNumber,timestamp,transactionHash,event,amount,asset,interestPaid,counterparty"
+      );
+      expect(rows).to.have.length(6);
+      expect(rows[1]).to.contain(
+        `,LoanInitiated,${hre.ethers.parseEther("100")},`
+      );
+    });
+
+    it("Should export the pool summary as JSON", async function () {
+      const args = await taskArgs();
+
+      const summary = JSON.parse(
+        await runTask("export-summary", { ...args, format: "json" })
+      );
+
+      expect(summary).to.include({
+        borrowed: hre.ethers.parseEther("150").toString(),
+        loansOpened: 2,
+      });
+    });
+
+    it("Should quote CSV values with separators", async function () {
+      expect(toCsv([{ name: 'a "b", c', value: 1n }])).to.equal(
+        'name,value\n"a ""b"", c",1'
+      );
+    });
+  });
+});
@@ -0,0 +1,59 @@
+import hre from "hardhat";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { MockPriceOracle } from "../typechain-types";
+
+describe("MockPriceOracle contract", function () {
+  async function deployOracleFixture() {
+    const [owner, addr1] = await hre.ethers.getSigners();
+
+    const MockPriceOracleFactory = await hre.ethers.getContractFactory(
+      "MockPriceOracle"
+    );
+    const priceOracle: MockPriceOracle = await MockPriceOracleFactory.deploy(
+      hre.ethers.parseEther("2000")
+    );
+    await priceOracle.waitForDeployment();
+
+    return { priceOracle, owner, addr1 };
+  }
+
+  describe("Deployment", function () {
+    it("Should report the initial price", async function () {
+      const { priceOracle } = await loadFixture(deployOracleFixture);
+      const [price, updatedAt] = await priceOracle.latestPrice();
+
+      expect(price).to.equal(hre.ethers.parseEther("2000"));
+      expect(updatedAt).to.equal(await time.latest());
+    });
+  });
+
+  describe("Transactions", function () {
+    it("Should update the price and emit PriceUpdated", async function () {
+      const { priceOracle } = await loadFixture(deployOracleFixture);
+      await time.increase(time.duration.minutes(10));
+
+      await expect(priceOracle.setPrice(hre.ethers.parseEther("1800")))
+        .to.emit(priceOracle, "PriceUpdated")
+        .withArgs(hre.ethers.parseEther("1800"), (await time.latest()) + 1);
+
+      const [price, updatedAt] = await priceOracle.latestPrice();
+      expect(price).to.equal(hre.ethers.parseEther("1800"));
+      expect(updatedAt).to.equal(await time.latest());
+    });
+
+    it("Should fail if non-owner tries to set the price", async function () {
+      const { priceOracle, addr1 } = await loadFixture(deployOracleFixture);
+
+      await expect(
+        priceOracle.connect(addr1).setPrice(1)
+      ).to.be.revertedWithCustomError(
+        priceOracle,
+        "OwnableUnauthorizedAccount"
+      );
+    });
+  });
+});
@@ -1,7 +1,11 @@
 import hre from "hardhat";
-import { loadFixture } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  loadFixture,
+  time,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
 import { expect } from "chai";
 import { MyToken } from "../typechain-types";
+import { signPermit } from "../sdk";
 
 describe("MyToken contract", function () {
   async function deployTokenFixture() {
@@ -120,4 +124,32 @@ describe("MyToken contract", function () {
       );
     });
   });
+
+  describe("Permit", function () {
+    it("Should approve a spender with a signed permit", async function () {
+      const { myToken, owner, addr1, addr2 } = await loadFixture(
+        deployTokenFixture
+      );
+      const value = await convertToBigNumber(50, myToken);
+      const deadline = BigInt((await time.latest()) + time.duration.hours(1));
+      const { v, r, s } = await signPermit(
+        myToken,
+        owner,
+        addr1.address,
+        value,
+        deadline
+      );
+
+      // Anyone can submit the permit, the owner only signs it
+      await expect(
+        myToken
+          .connect(addr2)
+          .permit(owner.address, addr1.address, value, deadline, v, r, s)
+      )
+        .to.emit(myToken, "Approval")
+        .withArgs(owner.address, addr1.address, value);
+      expect(await myToken.allowance(owner, addr1)).to.equal(value);
+      expect(await myToken.nonces(owner.address)).to.equal(1);
+    });
+  });
 });
@@ -0,0 +1,201 @@
+import fs from "fs";
+import os from "os";
+import path from "path";
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { createRandom } from "../scripts/random";
+import {
+  DEFAULT_SIMULATION_CONFIG,
+  generatePricePath,
+  mergeConfig,
+  runSimulation,
+} from "../scripts/simulation";
+
+describe("Simulation", function () {
+  // A small market: 10000 tokens lent and three borrowers over four days
+  const smallScenario = {
+    epochs: 4,
+    lenders: { count: 2 },
+    borrowers: { count: 3, borrowProbability: 1, repayProbability: 0 },
+    liquidators: { count: 2 },
+  };
+  const smallMarket = mergeConfig(DEFAULT_SIMULATION_CONFIG, smallScenario);
+
+  describe("Price path", function () {
+    it("Should follow the seed", async function () {
+      const price = DEFAULT_SIMULATION_CONFIG.price;
+
+      const path = generatePricePath(price, 10, createRandom(1));
+
+      expect(path).to.have.length(11);
+      expect(path[0]).to.equal(hre.ethers.parseEther("2000"));
+      expect(generatePricePath(price, 10, createRandom(1))).to.deep.equal(path);
+      expect(generatePricePath(price, 10, createRandom(2))).to.not.deep.equal(
+        path
+      );
+    });
+
+    it("Should spread the drawdown over its epochs", async function () {
+      const path = generatePricePath(
+        {
+          initial: 2000,
+          volatility: 0,
+          drift: 0,
+          drawdown: { percent: 40, fromEpoch: 2, toEpoch: 4 },
+        },
+        5,
+        createRandom(1)
+      );
+
+      expect(path).to.deep.equal(
+        [2000, 2000, 2000, 1600, 1200, 1200].map((price) =>
+          hre.ethers.parseEther(price.toString())
+        )
+      );
+    });
+  });
+
+  describe("Runs", function () {
+    it("Should record the pool every epoch", async function () {
+      const { epochs, summary } = await runSimulation(hre, smallMarket);
+
+      const prices = generatePricePath(
+        smallMarket.price,
+        smallMarket.epochs,
+        createRandom(smallMarket.seed)
+      );
+      expect(epochs.map((record) => record.epoch)).to.deep.equal([1, 2, 3, 4]);
+      expect(epochs.map((record) => record.price)).to.deep.equal(
+        prices.slice(1)
+      );
+      expect(epochs[3].elapsed).to.be.at.least(4 * smallMarket.epochLength);
+      expect(epochs[0].borrows).to.equal(3);
+      expect(epochs[0].activeLoans).to.equal(3);
+      expect(epochs[0].utilization).to.be.greaterThan(0n);
+
+      // Without losses, the lenders earn the interest paid
+      expect(summary.deposits).to.equal(hre.ethers.parseEther("10000"));
+      expect(summary.badDebt).to.equal(0n);
+      expect(summary.lenderProfit).to.equal(summary.interestEarned);
+      expect(summary.lenderProfit).to.equal(
+        epochs[3].totalAssets - summary.deposits
+      );
+    });
+
+    it("Should report liquidations and insolvency after a crash", async function () {
+      // Loans at the collateralization ratio lose 60% of their collateral
+      // value in the second epoch
+      const { epochs, summary } = await runSimulation(
+        hre,
+        mergeConfig(smallMarket, {
+          price: {
+            volatility: 0,
+            drawdown: { percent: 60, fromEpoch: 2, toEpoch: 2 },
+          },
+          borrowers: { borrowFraction: 1 },
+        })
+      );
+
+      expect(epochs[0].liquidations).to.equal(0);
+      expect(epochs[0].insolventLoans).to.equal(0);
+      expect(epochs[1].liquidations).to.be.greaterThan(0);
+      expect(epochs[1].collateralSeized).to.be.greaterThan(0n);
+      expect(epochs[1].liquidatedDebt).to.be.greaterThan(0n);
+      // Liquidations cannot make up for the collateral lost in the crash
+      expect(epochs[1].insolventLoans).to.be.greaterThan(0);
+      expect(epochs[1].shortfall).to.be.greaterThan(0n);
+      expect(summary.liquidations).to.equal(
+        epochs.reduce((total, record) => total + record.liquidations, 0)
+      );
+      expect(summary.maxShortfall).to.be.at.least(epochs[1].shortfall);
+    });
+
+    it("Should leave the network as it was", async function () {
+      const blockNumber = await hre.ethers.provider.getBlockNumber();
+      const timestamp = await time.latest();
+
+      await runSimulation(hre, mergeConfig(smallMarket, { epochs: 1 }));
+
+      expect(await hre.ethers.provider.getBlockNumber()).to.equal(blockNumber);
+      expect(await time.latest()).to.equal(timestamp);
+    });
+
+    it("Should reject populations larger than the accounts", async function () {
+      await expect(
+        runSimulation(hre, mergeConfig(smallMarket, { lenders: { count: 30 } }))
+      ).to.be.rejectedWith("The simulation needs 35 accounts");
+    });
+  });
+
+  describe("Task", function () {
+    // Runs a task and returns everything it printed
+    async function runTask(name: string, args: Record<string, unknown>) {
+      const lines: string[] = [];
+      const log = console.log;
+      console.log = (...values: unknown[]) => lines.push(values.join(" "));
+      try {
+        await hre.run(name, args);
+      } finally {
+        console.log = log;
+      }
+      return lines.join("\n");
+    }
+
+    function writeScenarios(scenarios: unknown) {
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), "simulation-"));
+      const file = path.join(dir, "scenarios.json");
+      fs.writeFileSync(file, JSON.stringify(scenarios));
+      return file;
+    }
+
+    it("Should compare scenarios as CSV", async function () {
+      const scenarios = writeScenarios([
+        { ...smallScenario, name: "calm" },
+        {
+          ...smallScenario,
+          price: { drawdown: { percent: 40, fromEpoch: 1, toEpoch: 3 } },
+        },
+      ]);
+
+      const output = await runTask("simulate", {
+        scenarios,
+        summary: true,
+        format: "csv",
+      });
+
+      const [header, ...rows] = output.split("\n");
+      expect(header.split(",")).to.include.members([
+        "name",
+        "lenderApy",
+        "liquidations",
+        "badDebt",
+      ]);
+      expect(rows.map((row) => row.split(",")[0])).to.deep.equal([
+        "calm",
+        "scenario-2",
+      ]);
+    });
+
+    it("Should export every epoch as JSON", async function () {
+      const scenarios = writeScenarios({ ...smallScenario, epochs: 2 });
+      const out = path.join(path.dirname(scenarios), "results.json");
+
+      await runTask("simulate", {
+        scenarios,
+        seed: 7,
+        summary: false,
+        format: "json",
+        out,
+      });
+
+      const [result] = JSON.parse(fs.readFileSync(out, "utf8"));
+      expect(result.config.name).to.equal("default");
+      expect(result.config.seed).to.equal(7);
+      expect(result.epochs).to.have.length(2);
+      expect(result.summary.deposits).to.equal(
+        hre.ethers.parseEther("10000").toString()
+      );
+    });
+  });
+});
@@ -0,0 +1,355 @@
+import hre from "hardhat";
+import {
+  loadFixture,
+  time,
+  setBalance,
+} from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { expect } from "chai";
+import { LendingPlatformWithCollateral } from "../typechain-types";
+import LendingPlatformWithCollateralModule from "../ignition/modules/LendingPlatformWithCollateral";
+import { PLATFORM_UPGRADE_OPTIONS } from "../scripts/deployment";
+import { deployMarket, platformFactory } from "./fixtures";
+
+describe("Upgrades", function () {
+  // Runs a task without printing its output
+  async function runTask(name: string, args: Record<string, unknown>) {
+    const log = console.log;
+    console.log = () => {};
+    try {
+      await hre.run(name, args);
+    } finally {
+      console.log = log;
+    }
+  }
+
+  // Deploys the platform with Ignition, like on a live network, and opens
+  // loans against Ether collateral
+  async function liveDeploymentFixture() {
+    const [owner, addr1, addr2] = await hre.ethers.getSigners();
+    const deployment = await hre.ignition.deploy(
+      LendingPlatformWithCollateralModule
+    );
+    const platformAddress = await deployment.lendingPlatform.getAddress();
+    const lendingPlatform = await hre.ethers.getContractAt(
+      "LendingPlatformWithCollateral",
+      platformAddress
+    );
+    const myToken = await hre.ethers.getContractAt(
+      "MyToken",
+      await deployment.myToken.getAddress()
+    );
+    const addresses = {
+      platform: platformAddress,
+      token: await myToken.getAddress(),
+    };
+
+    // Register the proxy with the upgrades plugin, which checks later
+    // versions against the storage layout of the deployed one
+    await runTask("register-platform", {
+      ...addresses,
+      contract: "LendingPlatformWithCollateral",
+    });
+
+    await setBalance(addr1.address, hre.ethers.parseEther("2"));
+    await setBalance(addr2.address, hre.ethers.parseEther("2"));
+
+    // The owner lends 800 tokens, addr1 borrows 100 open-ended and addr2
+    // borrows 50 for 90 days
+    await myToken.approve(lendingPlatform, hre.ethers.MaxUint256);
+    await lendingPlatform.lend(hre.ethers.parseEther("800"));
+    await lendingPlatform
+      .connect(addr1)
+      .depositCollateral({ value: hre.ethers.parseEther("0.1") });
+    await lendingPlatform.connect(addr1).borrow(hre.ethers.parseEther("100"));
+    await lendingPlatform
+      .connect(addr2)
+      .depositCollateral({ value: hre.ethers.parseEther("0.05") });
+    await lendingPlatform
+      .connect(addr2)
+      .borrowWithTerm(hre.ethers.parseEther("50"), time.duration.days(90));
+    await time.increase(time.duration.days(10));
+
+    return {
+      myToken,
+      lendingPlatform,
+      addresses,
+      proxyAdmin: deployment.proxyAdmin,
+      owner,
+      addr1,
+      addr2,
+    };
+  }
+
+  // Reads the state an upgrade must keep
+  async function platformState(
+    lendingPlatform: LendingPlatformWithCollateral,
+    accounts: string[]
+  ) {
+    const loans = [];
+    for (const account of accounts) {
+      loans.push({
+        loan: [...(await lendingPlatform.getLoan(account, 0))],
+        collateralEther: await lendingPlatform.collateralEther(account),
+        shares: await lendingPlatform.balanceOf(account),
+      });
+    }
+    return {
+      loans,
+      tokenBalance: await lendingPlatform.getTokenBalance(),
+      totalBorrowed: await lendingPlatform.getTotalBorrowed(),
+      totalSupply: await lendingPlatform.totalSupply(),
+      borrowIndex: await lendingPlatform.borrowIndex(),
+      lastAccrualTime: await lendingPlatform.lastAccrualTime(),
+      rateModel: await lendingPlatform.getRateModel(),
+      priceOracle: await lendingPlatform.priceOracle(),
+      loanTerms: await lendingPlatform.getLoanTerms(),
+      owner: await lendingPlatform.owner(),
+    };
+  }
+
+  // Queues the upgrade with the upgrade-platform task, which checks the
+  // storage layout before running the Ignition module, and executes it once
+  // the timelock expired
+  async function upgradeWithTask(
+    lendingPlatform: LendingPlatformWithCollateral,
+    addresses: { platform: string; token: string }
+  ) {
+    await runTask("upgrade-platform", {
+      ...addresses,
+      contract: "LendingPlatformWithCollateral",
+    });
+
+    const queued = await lendingPlatform.queryFilter(
+      lendingPlatform.filters.ChangeQueued()
+    );
+    const { data } = queued[queued.length - 1].args;
+    await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+    await lendingPlatform.executeChange(data);
+    return lendingPlatform.interface.decodeFunctionData(
+      "upgradeImplementation",
+      data
+    )[0] as string;
+  }
+
+  describe("Deployment", function () {
+    it("Should run the platform behind a proxy administered by itself", async function () {
+      const { lendingPlatform, proxyAdmin } = await loadFixture(
+        liveDeploymentFixture
+      );
+      const platformAddress = await lendingPlatform.getAddress();
+
+      expect(
+        await hre.upgrades.erc1967.getAdminAddress(platformAddress)
+      ).to.equal(await proxyAdmin.getAddress());
+      expect(await proxyAdmin.owner()).to.equal(platformAddress);
+      expect(
+        await hre.upgrades.erc1967.getImplementationAddress(platformAddress)
+      ).to.not.equal(platformAddress);
+    });
+
+    it("Should not be initialized twice", async function () {
+      const { myToken, lendingPlatform } = await loadFixture(
+        liveDeploymentFixture
+      );
+      const platformAddress = await lendingPlatform.getAddress();
+      const implementation = await hre.ethers.getContractAt(
+        "LendingPlatformWithCollateral",
+        await hre.upgrades.erc1967.getImplementationAddress(platformAddress)
+      );
+
+      for (const platform of [lendingPlatform, implementation]) {
+        await expect(
+          platform.initialize(
+            myToken,
+            await lendingPlatform.getRateModel(),
+            await lendingPlatform.priceOracle(),
+            time.duration.hours(1),
+            50,
+            5
+          )
+        ).to.be.revertedWithCustomError(platform, "InvalidInitialization");
+      }
+    });
+
+    it("Should only upgrade through the timelock", async function () {
+      const { lendingPlatform } = await loadFixture(liveDeploymentFixture);
+      const implementation =
+        await hre.upgrades.erc1967.getImplementationAddress(
+          await lendingPlatform.getAddress()
+        );
+
+      await expect(
+        lendingPlatform.upgradeImplementation(implementation)
+      ).to.be.revertedWith("Only through the timelock");
+
+      const upgrade = lendingPlatform.interface.encodeFunctionData(
+        "upgradeImplementation",
+        [implementation]
+      );
+      await lendingPlatform.queueChange(upgrade);
+      await expect(lendingPlatform.executeChange(upgrade)).to.be.revertedWith(
+        "Timelock not expired"
+      );
+      await expect(
+        lendingPlatform.cancelChange(hre.ethers.keccak256(upgrade))
+      ).to.emit(lendingPlatform, "ChangeCancelled");
+    });
+  });
+
+  describe("Upgrading", function () {
+    it("Should keep the loans and collateral through an upgrade", async function () {
+      const { myToken, lendingPlatform, addresses, owner, addr1, addr2 } =
+        await loadFixture(liveDeploymentFixture);
+      const platformAddress = await lendingPlatform.getAddress();
+      const accounts = [owner.address, addr1.address, addr2.address];
+      const before = await platformState(lendingPlatform, accounts);
+      const previousImplementation =
+        await hre.upgrades.erc1967.getImplementationAddress(platformAddress);
+
+      const implementation = await upgradeWithTask(lendingPlatform, addresses);
+
+      expect(
+        await hre.upgrades.erc1967.getImplementationAddress(platformAddress)
+      ).to.equal(implementation);
+      expect(implementation).to.not.equal(previousImplementation);
+      expect(await platformState(lendingPlatform, accounts)).to.deep.equal(
+        before
+      );
+
+      // The loans keep accruing and can be repaid on the new implementation
+      const debt = await lendingPlatform.getAmountOwed(addr1.address);
+      expect(debt).to.be.greaterThan(hre.ethers.parseEther("100"));
+      await myToken.transfer(addr1.address, hre.ethers.parseEther("10"));
+      await myToken
+        .connect(addr1)
+        .approve(lendingPlatform, hre.ethers.MaxUint256);
+      await expect(
+        lendingPlatform.connect(addr1).repay()
+      ).to.changeEtherBalance(addr1, hre.ethers.parseEther("0.1"));
+      expect((await lendingPlatform.getLoan(addr1.address, 0)).active).to.equal(
+        false
+      );
+      // LoanState.Current
+      expect(await lendingPlatform.loanState(addr2.address)).to.equal(1);
+    });
+
+    it("Should upgrade to a version with new state", async function () {
+      const { lendingPlatform, addr1 } = await loadFixture(
+        liveDeploymentFixture
+      );
+      const platformAddress = await lendingPlatform.getAddress();
+      const loan = await lendingPlatform.getLoan(addr1.address, 0);
+
+      // prepareUpgrade checks the storage layout and deploys the new version
+      const implementation = await hre.upgrades.prepareUpgrade(
+        platformAddress,
+        await platformFactory("MockLendingPlatformV2"),
+        PLATFORM_UPGRADE_OPTIONS
+      );
+      const upgrade = lendingPlatform.interface.encodeFunctionData(
+        "upgradeImplementation",
+        [implementation as string]
+      );
+      await lendingPlatform.queueChange(upgrade);
+      await time.increase(await lendingPlatform.TIMELOCK_DELAY());
+      await expect(lendingPlatform.executeChange(upgrade))
+        .to.emit(lendingPlatform, "ChangeExecuted")
+        .withArgs(hre.ethers.keccak256(upgrade), upgrade);
+
+      const upgraded = await hre.ethers.getContractAt(
+        "MockLendingPlatformV2",
+        platformAddress
+      );
+      expect(await upgraded.version()).to.equal(2);
+      expect(await upgraded.upgradeNote()).to.equal(0);
+      await upgraded.setUpgradeNote(42);
+      expect(await upgraded.upgradeNote()).to.equal(42);
+      expect([...(await upgraded.getLoan(addr1.address, 0))]).to.deep.equal([
+        ...loan,
+      ]);
+      expect(await upgraded.collateralEther(addr1.address)).to.equal(
+        hre.ethers.parseEther("0.1")
+      );
+    });
+
+    it("Should reject a version with an incompatible storage layout", async function () {
+      const { lendingPlatform } = await loadFixture(liveDeploymentFixture);
+      const platformAddress = await lendingPlatform.getAddress();
+      const MockShiftedLendingPlatformFactory = await platformFactory(
+        "MockShiftedLendingPlatform"
+      );
+
+      await expect(
+        hre.upgrades.validateUpgrade(
+          platformAddress,
+          MockShiftedLendingPlatformFactory,
+          PLATFORM_UPGRADE_OPTIONS
+        )
+      ).to.be.rejectedWith("New storage layout is incompatible");
+      await expect(
+        hre.upgrades.prepareUpgrade(
+          platformAddress,
+          MockShiftedLendingPlatformFactory,
+          PLATFORM_UPGRADE_OPTIONS
+        )
+      ).to.be.rejectedWith("New storage layout is incompatible");
+    });
+
+    it("Should not queue an upgrade that shifts the storage layout", async function () {
+      const [owner] = await hre.ethers.getSigners();
+      const market = await deployMarket();
+
+      // A platform deployed from the shifted layout, which the current code
+      // would read from the wrong slots
+      const proxy = await hre.upgrades.deployProxy(
+        await platformFactory("MockShiftedLendingPlatform"),
+        [
+          await market.myToken.getAddress(),
+          await market.rateModel.getAddress(),
+          await market.priceOracle.getAddress(),
+          time.duration.hours(1),
+          50,
+          5,
+        ],
+        PLATFORM_UPGRADE_OPTIONS
+      );
+      await proxy.waitForDeployment();
+      const lendingPlatform = await hre.ethers.getContractAt(
+        "LendingPlatformWithCollateral",
+        await proxy.getAddress()
+      );
+      expect(await lendingPlatform.owner()).to.equal(owner.address);
+
+      await expect(
+        runTask("upgrade-platform", {
+          platform: await lendingPlatform.getAddress(),
+          token: await market.myToken.getAddress(),
+          contract: "LendingPlatformWithCollateral",
+        })
+      ).to.be.rejectedWith("New storage layout is incompatible");
+      expect(
+        await lendingPlatform.queryFilter(
+          lendingPlatform.filters.ChangeQueued()
+        )
+      ).to.be.empty;
+    });
+
+    it("Should check upgrades against the version it queued last", async function () {
+      const { lendingPlatform, addresses } = await loadFixture(
+        liveDeploymentFixture
+      );
+
+      await upgradeWithTask(lendingPlatform, addresses);
+
+      // The new implementation was registered, so the shifted layout is
+      // still rejected after the upgrade
+      await expect(
+        hre.upgrades.validateUpgrade(
+          addresses.platform,
+          await platformFactory("MockShiftedLendingPlatform"),
+          PLATFORM_UPGRADE_OPTIONS
+        )
+      ).to.be.rejectedWith("New storage layout is incompatible");
+    });
+  });
+});
@@ -0,0 +1,121 @@
+import hre from "hardhat";
+import { AddressLike, resolveAddress } from "ethers";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import {
+  getPlatformFactory,
+  PLATFORM_UPGRADE_OPTIONS,
+} from "../scripts/deployment";
+import {
+  KinkedRateModel,
+  LendingPlatform,
+  LendingPlatformWithCollateral,
+  MockPriceOracle,
+  MyToken,
+} from "../typechain-types";
+
+/**
+ * Token, rate model and oracle the platforms of the tests are deployed with
+ */
+export interface MarketContracts {
+  myToken: MyToken;
+  rateModel: KinkedRateModel;
+  priceOracle: MockPriceOracle;
+}
+
+/**
+ * Deploys MyToken, a KinkedRateModel and a MockPriceOracle
+ * @param tokensToMint Whole tokens minted to the deployer
+ */
+export async function deployMarket(
+  tokensToMint = 1000
+): Promise<MarketContracts> {
+  const myToken = await hre.ethers.deployContract("MyToken", [tokensToMint]);
+  await myToken.waitForDeployment();
+
+  // 5% when idle, rising to 20% at 80% utilization and to 80% when fully lent out
+  const rateModel = await hre.ethers.deployContract("KinkedRateModel", [
+    hre.ethers.parseEther("5"),
+    hre.ethers.parseEther("15"),
+    hre.ethers.parseEther("60"),
+    hre.ethers.parseEther("0.8"),
+  ]);
+  await rateModel.waitForDeployment();
+
+  // 1 ETH = 2000 tokens
+  const priceOracle = await hre.ethers.deployContract("MockPriceOracle", [
+    hre.ethers.parseEther("2000"),
+  ]);
+  await priceOracle.waitForDeployment();
+
+  return { myToken, rateModel, priceOracle };
+}
+
+/**
+ * Deploys the ChangeQueue and LoanBook libraries and returns the platform
+ * factory linked to them
+ * @param contractName Platform contract, or a later version of it
+ */
+export async function platformFactory(contractName: string) {
+  const changeQueue = await hre.ethers.deployContract("ChangeQueue");
+  await changeQueue.waitForDeployment();
+  const loanBook = await hre.ethers.deployContract("LoanBook");
+  await loanBook.waitForDeployment();
+  return getPlatformFactory(hre, contractName, {
+    ChangeQueue: await changeQueue.getAddress(),
+    LoanBook: await loanBook.getAddress(),
+  });
+}
+
+/**
+ * Deploys LendingPlatform behind a transparent proxy
+ * @param myToken The token to lend
+ * @param rateModel The interest rate model
+ */
+export async function deployLendingPlatform(
+  myToken: AddressLike,
+  rateModel: AddressLike
+): Promise<LendingPlatform> {
+  const proxy = await hre.upgrades.deployProxy(
+    await platformFactory("LendingPlatform"),
+    [await resolveAddress(myToken), await resolveAddress(rateModel)],
+    PLATFORM_UPGRADE_OPTIONS
+  );
+  await proxy.waitForDeployment();
+  return hre.ethers.getContractAt("LendingPlatform", await proxy.getAddress());
+}
+
+/**
+ * Deploys LendingPlatformWithCollateral behind a transparent proxy.
+ * Prices older than an hour are rejected, and liquidators repay up to half of
+ * a debt and receive 5% extra collateral unless other values are given.
+ * @param market The token, rate model and oracle to use
+ * @param closeFactor Share of the debt a liquidator can repay at once in percentage
+ * @param liquidationBonus Extra collateral paid to liquidators in percentage
+ */
+export async function deployLendingPlatformWithCollateral(
+  market: {
+    myToken: AddressLike;
+    rateModel: AddressLike;
+    priceOracle: AddressLike;
+  },
+  closeFactor = 50,
+  liquidationBonus = 5
+): Promise<LendingPlatformWithCollateral> {
+  const proxy = await hre.upgrades.deployProxy(
+    await platformFactory("LendingPlatformWithCollateral"),
+    [
+      await resolveAddress(market.myToken),
+      await resolveAddress(market.rateModel),
+      await resolveAddress(market.priceOracle),
+      time.duration.hours(1),
+      closeFactor,
+      liquidationBonus,
+    ],
+    PLATFORM_UPGRADE_OPTIONS
+  );
+  await proxy.waitForDeployment();
+  return hre.ethers.getContractAt(
+    "LendingPlatformWithCollateral",
+    await proxy.getAddress()
+  );
+}
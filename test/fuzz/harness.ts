@@ -0,0 +1,331 @@
+import hre from "hardhat";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { ContractTransactionResponse } from "ethers";
+import type { HardhatEthersSigner } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+  MyToken,
+  MockPriceOracle,
+  LendingPlatformWithCollateral,
+} from "../../typechain-types";
+import { createRandom } from "../../scripts/random";
+
+/**
+ * One step of a fuzz sequence. Actors are indexes into FuzzContext.actors,
+ * so a sequence can be replayed against a fresh deployment.
+ */
+export type Action =
+  | { kind: "lend"; actor: number; amount: bigint }
+  | { kind: "borrow"; actor: number; amount: bigint }
+  | { kind: "borrowWithTerm"; actor: number; amount: bigint }
+  | { kind: "repay"; actor: number }
+  | { kind: "repayPartial"; actor: number; amount: bigint }
+  | { kind: "depositCollateral"; actor: number; amount: bigint }
+  | { kind: "withdrawCollateral"; actor: number; amount: bigint }
+  | { kind: "liquidate"; actor: number; target: number; amount: bigint }
+  | { kind: "increaseTime"; seconds: number };
+
+export interface FuzzContext {
+  myToken: MyToken;
+  priceOracle: MockPriceOracle;
+  lendingPlatform: LendingPlatformWithCollateral;
+  owner: HardhatEthersSigner;
+  actors: HardhatEthersSigner[];
+  // Loans are internal to the platform, so the harness tracks the principal
+  // of every loan, by borrower and loan id, from the LoanUpdated events of
+  // successful transactions
+  loans: Map<string, Map<bigint, bigint>>;
+  // Borrowers whose loan was liquidatable after the last increaseTime. At a
+  // fixed price only accruing interest can make a loan liquidatable.
+  liquidatable: Set<string>;
+}
+
+/**
+ * Returns a description of the violation, or undefined if the invariant holds
+ */
+export type Invariant = (context: FuzzContext) => Promise<string | undefined>;
+
+export interface Failure {
+  step: number;
+  action: Action;
+  message: string;
+}
+
+export interface FuzzOptions {
+  seed: number;
+  runs: number;
+  steps: number;
+  actorCount: number;
+}
+
+/**
+ * Generates a random sequence of platform actions
+ * @param seed Seed of the sequence
+ * @param steps Number of actions
+ * @param actorCount Number of accounts taking part
+ */
+export function generateActions(
+  seed: number,
+  steps: number,
+  actorCount: number
+): Action[] {
+  const random = createRandom(seed);
+  const int = (min: number, max: number) =>
+    min + Math.floor(random() * (max - min + 1));
+  const tokens = (min: number, max: number) =>
+    hre.ethers.parseEther(int(min, max).toString());
+  // Collateral in steps of 0.01 ETH
+  const ether = (min: number, max: number) =>
+    hre.ethers.parseEther("0.01") * BigInt(int(min, max));
+
+  const actions: Action[] = [];
+  for (let i = 0; i < steps; i++) {
+    const actor = int(0, actorCount - 1);
+    const roll = random();
+    if (roll < 0.2) {
+      actions.push({ kind: "lend", actor, amount: tokens(1, 500) });
+    } else if (roll < 0.4) {
+      actions.push({ kind: "depositCollateral", actor, amount: ether(1, 50) });
+    } else if (roll < 0.5) {
+      actions.push({ kind: "borrow", actor, amount: tokens(1, 300) });
+    } else if (roll < 0.6) {
+      actions.push({ kind: "borrowWithTerm", actor, amount: tokens(1, 300) });
+    } else if (roll < 0.65) {
+      actions.push({ kind: "repay", actor });
+    } else if (roll < 0.7) {
+      actions.push({ kind: "repayPartial", actor, amount: tokens(1, 150) });
+    } else if (roll < 0.8) {
+      actions.push({ kind: "withdrawCollateral", actor, amount: ether(1, 50) });
+    } else if (roll < 0.9) {
+      actions.push({
+        kind: "liquidate",
+        actor,
+        target: int(0, actorCount - 1),
+        amount: tokens(1, 300),
+      });
+    } else {
+      actions.push({
+        kind: "increaseTime",
+        seconds: int(60, time.duration.days(30)),
+      });
+    }
+  }
+  return actions;
+}
+
+/**
+ * Runs one action. Reverts are an expected outcome of random sequences, so
+ * they only leave the action unapplied.
+ * @returns Whether the transaction succeeded
+ */
+export async function applyAction(
+  context: FuzzContext,
+  action: Action
+): Promise<boolean> {
+  const { lendingPlatform, priceOracle, owner, actors, loans } = context;
+
+  if (action.kind === "increaseTime") {
+    await time.increase(action.seconds);
+    // The price is held fixed but refreshed, so it never goes stale
+    const [price] = await priceOracle.latestPrice();
+    await priceOracle.connect(owner).setPrice(price);
+
+    context.liquidatable = new Set();
+    for (const borrower of loans.keys()) {
+      if (await lendingPlatform.isLiquidatable(borrower)) {
+        context.liquidatable.add(borrower);
+      }
+    }
+    return true;
+  }
+
+  const actor = actors[action.actor];
+  const platform = lendingPlatform.connect(actor);
+  let tx: ContractTransactionResponse;
+  try {
+    switch (action.kind) {
+      case "lend":
+        tx = await platform.lend(action.amount);
+        break;
+      case "borrow":
+        tx = await platform.borrow(action.amount);
+        break;
+      case "borrowWithTerm":
+        tx = await platform.borrowWithTerm(
+          action.amount,
+          time.duration.days(30)
+        );
+        break;
+      case "repay":
+        tx = await platform.repay();
+        break;
+      case "repayPartial":
+        tx = await platform.repayPartial(action.amount);
+        break;
+      case "depositCollateral":
+        tx = await platform.depositCollateral({ value: action.amount });
+        break;
+      case "withdrawCollateral":
+        tx = await platform.withdrawCollateral(action.amount);
+        break;
+      case "liquidate":
+        tx = await platform.liquidate(
+          actors[action.target].address,
+          action.amount
+        );
+        break;
+    }
+  } catch (error) {
+    if (error instanceof Error && error.message.includes("reverted")) {
+      return false;
+    }
+    throw error;
+  }
+
+  const receipt = await tx.wait();
+  for (const log of receipt!.logs) {
+    const parsed = lendingPlatform.interface.parseLog(log);
+    if (parsed?.name !== "LoanUpdated") {
+      continue;
+    }
+    const { borrower, loanId } = parsed.args;
+    const borrowerLoans = loans.get(borrower) ?? new Map<bigint, bigint>();
+    if (parsed.args.principal === 0n && parsed.args.interest === 0n) {
+      borrowerLoans.delete(loanId);
+    } else {
+      borrowerLoans.set(loanId, parsed.args.principal);
+    }
+    if (borrowerLoans.size > 0) {
+      loans.set(borrower, borrowerLoans);
+    } else {
+      loans.delete(borrower);
+      context.liquidatable.delete(borrower);
+    }
+  }
+  return true;
+}
+
+/**
+ * Runs the actions in order and checks every invariant after each step
+ * @param setup Returns a fresh deployment (usually through loadFixture)
+ * @param actions Sequence to run
+ * @param invariants Invariants checked after every step
+ * @returns The first violation, or undefined if all invariants held
+ */
+export async function runActions(
+  setup: () => Promise<FuzzContext>,
+  actions: Action[],
+  invariants: Record<string, Invariant>
+): Promise<Failure | undefined> {
+  const context = await setup();
+  for (let step = 0; step < actions.length; step++) {
+    await applyAction(context, actions[step]);
+    for (const [name, invariant] of Object.entries(invariants)) {
+      const violation = await invariant(context);
+      if (violation !== undefined) {
+        return {
+          step,
+          action: actions[step],
+          message: `${name}: ${violation}`,
+        };
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Shrinks a failing sequence by dropping everything after the failing step,
+ * then removing single actions and halving amounts for as long as the
+ * sequence still fails
+ * @returns The smallest failing sequence found and its failure
+ */
+export async function shrink(
+  setup: () => Promise<FuzzContext>,
+  actions: Action[],
+  invariants: Record<string, Invariant>,
+  failure: Failure
+): Promise<{ actions: Action[]; failure: Failure }> {
+  let best = actions.slice(0, failure.step + 1);
+  let bestFailure = failure;
+
+  const attempt = async (candidate: Action[]) => {
+    const result = await runActions(setup, candidate, invariants);
+    if (result === undefined) {
+      return false;
+    }
+    best = candidate.slice(0, result.step + 1);
+    bestFailure = result;
+    return true;
+  };
+
+  let progress = true;
+  while (progress) {
+    progress = false;
+    for (let i = 0; i < best.length; i++) {
+      if (await attempt([...best.slice(0, i), ...best.slice(i + 1)])) {
+        progress = true;
+        i--;
+      }
+    }
+    for (let i = 0; i < best.length; i++) {
+      const action = best[i];
+      if ("amount" in action && action.amount > 1n) {
+        const smaller = { ...action, amount: action.amount / 2n };
+        if (
+          await attempt([...best.slice(0, i), smaller, ...best.slice(i + 1)])
+        ) {
+          progress = true;
+        }
+      }
+    }
+  }
+
+  return { actions: best, failure: bestFailure };
+}
+
+/**
+ * Serializes a sequence so it can be passed back through FUZZ_REPLAY
+ */
+export function formatActions(actions: Action[]): string {
+  return JSON.stringify(actions, (_, value) =>
+    typeof value === "bigint" ? value.toString() : value
+  );
+}
+
+/**
+ * Parses a sequence printed by formatActions
+ */
+export function parseActions(json: string): Action[] {
+  return JSON.parse(json, (key, value) =>
+    key === "amount" ? BigInt(value) : value
+  );
+}
+
+/**
+ * Runs seeded random sequences and throws with the shrunk sequence of the
+ * first seed that breaks an invariant
+ * @param setup Returns a fresh deployment (usually through loadFixture)
+ * @param invariants Invariants checked after every step
+ * @param options Seed of the first run, number of runs and their length
+ */
+export async function fuzz(
+  setup: () => Promise<FuzzContext>,
+  invariants: Record<string, Invariant>,
+  options: FuzzOptions
+): Promise<void> {
+  for (let run = 0; run < options.runs; run++) {
+    const seed = options.seed + run;
+    const actions = generateActions(seed, options.steps, options.actorCount);
+    const failure = await runActions(setup, actions, invariants);
+    if (failure === undefined) {
+      continue;
+    }
+
+    const shrunk = await shrink(setup, actions, invariants, failure);
+    throw new Error(
+      `Invariant broken with seed ${seed} at step ${shrunk.failure.step}: ` +
+        `${shrunk.failure.message}\n` +
+        `Replay with FUZZ_REPLAY='${formatActions(shrunk.actions)}'`
+    );
+  }
+}